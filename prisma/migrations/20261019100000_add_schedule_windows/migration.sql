@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "ScheduleWindow" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "dayOfWeek" "DayOfWeek" NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "clinicAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScheduleWindow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScheduleWindow_doctorId_dayOfWeek_idx" ON "ScheduleWindow"("doctorId", "dayOfWeek");
+
+-- AddForeignKey
+ALTER TABLE "ScheduleWindow" ADD CONSTRAINT "ScheduleWindow_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "Doctor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill one window per available day from the existing single "HH:MM-HH:MM" timing
+INSERT INTO "ScheduleWindow" ("id", "doctorId", "dayOfWeek", "startTime", "endTime", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    d."id",
+    day,
+    split_part(d."availableTiming", '-', 1),
+    split_part(d."availableTiming", '-', 2),
+    CURRENT_TIMESTAMP
+FROM "Doctor" d, unnest(d."availableDays") AS day
+WHERE d."availableTiming" ~ '^([0-1][0-9]|2[0-3]):[0-5][0-9]-([0-1][0-9]|2[0-3]):[0-5][0-9]$'
+  AND split_part(d."availableTiming", '-', 1) < split_part(d."availableTiming", '-', 2);
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "AvailabilityExceptionType" AS ENUM ('UNAVAILABLE', 'EXTRA_SESSION');
+
+-- CreateTable
+CREATE TABLE "AvailabilityException" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "type" "AvailabilityExceptionType" NOT NULL,
+    "startTime" TIMESTAMP(3) NOT NULL,
+    "endTime" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "clinicAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AvailabilityException_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AvailabilityException_doctorId_startTime_idx" ON "AvailabilityException"("doctorId", "startTime");
+
+-- AddForeignKey
+ALTER TABLE "AvailabilityException" ADD CONSTRAINT "AvailabilityException_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "Doctor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
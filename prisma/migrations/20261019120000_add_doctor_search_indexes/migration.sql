@@ -0,0 +1,8 @@
+-- CreateIndex
+CREATE INDEX "Doctor_onboardingStep_createdAt_idx" ON "Doctor"("onboardingStep", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Doctor_onboardingStep_yearsOfExperience_idx" ON "Doctor"("onboardingStep", "yearsOfExperience");
+
+-- CreateIndex
+CREATE INDEX "Doctor_onboardingStep_viewCount_idx" ON "Doctor"("onboardingStep", "viewCount");
@@ -0,0 +1,2 @@
+-- Trigram matching (word_similarity) for typo-tolerant doctor search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "AuthSession" (
+    "id" TEXT NOT NULL,
+    "principalType" TEXT NOT NULL,
+    "principalId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "refreshTokenHash" TEXT NOT NULL,
+    "previousRefreshTokenHash" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "lastUsedAt" TIMESTAMP(3),
+    "userAgent" TEXT,
+    "ipAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AuthSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuthSession_refreshTokenHash_key" ON "AuthSession"("refreshTokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuthSession_previousRefreshTokenHash_key" ON "AuthSession"("previousRefreshTokenHash");
+
+-- CreateIndex
+CREATE INDEX "AuthSession_principalType_principalId_idx" ON "AuthSession"("principalType", "principalId");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Doctor" ADD COLUMN     "passwordResetExpiry" TIMESTAMP(3),
+ADD COLUMN     "passwordResetOtp" TEXT;
+
+-- AlterTable
+ALTER TABLE "Patient" ADD COLUMN     "passwordResetExpiry" TIMESTAMP(3),
+ADD COLUMN     "passwordResetOtp" TEXT;
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Doctor" ADD COLUMN     "otpAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "otpLockedUntil" TIMESTAMP(3),
+ADD COLUMN     "otpSentAt" TIMESTAMP(3),
+ADD COLUMN     "passwordResetAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "passwordResetSentAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Patient" ADD COLUMN     "otpAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "otpLockedUntil" TIMESTAMP(3),
+ADD COLUMN     "otpSentAt" TIMESTAMP(3),
+ADD COLUMN     "passwordResetAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "passwordResetSentAt" TIMESTAMP(3);
+
+-- Outstanding codes were stored in plaintext and can't be checked against a hash; users request a new one
+UPDATE "Doctor" SET "otp" = NULL, "otpExpiry" = NULL, "passwordResetOtp" = NULL, "passwordResetExpiry" = NULL;
+UPDATE "Patient" SET "otp" = NULL, "otpExpiry" = NULL, "passwordResetOtp" = NULL, "passwordResetExpiry" = NULL;
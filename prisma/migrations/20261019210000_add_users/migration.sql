@@ -0,0 +1,226 @@
+-- CreateTable
+CREATE TABLE "User" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "password" TEXT,
+    "googleId" TEXT,
+    "emailVerifiedAt" TIMESTAMP(3),
+    "otp" TEXT,
+    "otpExpiry" TIMESTAMP(3),
+    "otpSentAt" TIMESTAMP(3),
+    "otpAttempts" INTEGER NOT NULL DEFAULT 0,
+    "otpLockedUntil" TIMESTAMP(3),
+    "passwordResetOtp" TEXT,
+    "passwordResetExpiry" TIMESTAMP(3),
+    "passwordResetSentAt" TIMESTAMP(3),
+    "passwordResetAttempts" INTEGER NOT NULL DEFAULT 0,
+    "totpSecret" TEXT,
+    "totpEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "totpLastUsedStep" INTEGER,
+    "totpRecoveryCodes" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "User_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_googleId_key" ON "User"("googleId");
+
+-- Move doctor credentials to users, reusing the doctor id as the user id.
+-- Anyone past the first onboarding step, or signed in with Google, has a verified email.
+INSERT INTO "User" ("id", "email", "password", "googleId", "emailVerifiedAt", "otp", "otpExpiry", "otpSentAt", "otpAttempts", "otpLockedUntil",
+    "passwordResetOtp", "passwordResetExpiry", "passwordResetSentAt", "passwordResetAttempts",
+    "totpSecret", "totpEnabled", "totpLastUsedStep", "totpRecoveryCodes", "createdAt", "updatedAt")
+SELECT "id", "email", "password", "googleId",
+    CASE WHEN "onboardingStep" <> 'EMAIL_VERIFIED' OR "googleId" IS NOT NULL THEN "updatedAt" END,
+    "otp", "otpExpiry", "otpSentAt", "otpAttempts", "otpLockedUntil",
+    "passwordResetOtp", "passwordResetExpiry", "passwordResetSentAt", "passwordResetAttempts",
+    "totpSecret", "totpEnabled", "totpLastUsedStep", "totpRecoveryCodes", "createdAt", "updatedAt"
+FROM "Doctor";
+
+-- Credentials that can't carry over to the merged user. The dropped value is kept here so
+-- support can sort the account out with its owner; nothing is deleted silently.
+CREATE TABLE "UserMigrationConflict" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "droppedValue" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserMigrationConflict_pkey" PRIMARY KEY ("id")
+);
+
+-- A patient sharing a doctor's email joins the doctor's user. Only a side that verified the
+-- email has shown it owns it, so the password comes from that side: an unverified signup under
+-- someone else's email must not end up unlocking their verified account. When both verified,
+-- the doctor's password stays (the patient's fills in when the doctor only used Google).
+CREATE TEMP TABLE "SharedEmail" AS
+SELECT merged.*, "patientVerified" AND (NOT "doctorVerified" OR "doctorPassword" IS NULL) AS "keepPatientPassword"
+FROM (
+    SELECT u."id" AS "userId", p."id" AS "patientId",
+        u."emailVerifiedAt" IS NOT NULL AS "doctorVerified",
+        (p."onboardingStep" <> 'EMAIL_VERIFIED' OR p."googleId" IS NOT NULL) AS "patientVerified",
+        u."password" AS "doctorPassword", p."password" AS "patientPassword", p."updatedAt" AS "patientUpdatedAt"
+    FROM "Patient" p
+    JOIN "User" u ON u."email" = p."email"
+) merged;
+
+INSERT INTO "UserMigrationConflict" ("id", "userId", "patientId", "field", "droppedValue", "reason")
+SELECT gen_random_uuid()::text, "userId", "patientId", 'password', "doctorPassword",
+    'The doctor signup with the same email never verified it; the verified patient password was kept'
+FROM "SharedEmail"
+WHERE "keepPatientPassword" AND "doctorPassword" IS NOT NULL;
+
+INSERT INTO "UserMigrationConflict" ("id", "userId", "patientId", "field", "droppedValue", "reason")
+SELECT gen_random_uuid()::text, "userId", "patientId", 'password', "patientPassword",
+    CASE WHEN "patientVerified"
+        THEN 'The doctor profile with the same email has its own password'
+        ELSE 'The patient signup never verified the email' END
+FROM "SharedEmail"
+WHERE NOT "keepPatientPassword" AND "patientPassword" IS NOT NULL AND "patientPassword" IS DISTINCT FROM "doctorPassword";
+
+-- Only the patient verified: the user takes the patient's password and verification, and the
+-- doctor signup's pending codes, reset state and 2FA are dropped along with its password
+UPDATE "User" u SET
+    "password" = se."patientPassword",
+    "emailVerifiedAt" = se."patientUpdatedAt",
+    "otp" = NULL,
+    "otpExpiry" = NULL,
+    "otpSentAt" = NULL,
+    "otpAttempts" = 0,
+    "otpLockedUntil" = NULL,
+    "passwordResetOtp" = NULL,
+    "passwordResetExpiry" = NULL,
+    "passwordResetSentAt" = NULL,
+    "passwordResetAttempts" = 0,
+    "totpSecret" = NULL,
+    "totpEnabled" = false,
+    "totpLastUsedStep" = NULL,
+    "totpRecoveryCodes" = ARRAY[]::TEXT[]
+FROM "SharedEmail" se
+WHERE se."userId" = u."id" AND se."keepPatientPassword" AND NOT se."doctorVerified";
+
+-- Both verified and the doctor has no password: the patient's fills in
+UPDATE "User" u SET "password" = se."patientPassword"
+FROM "SharedEmail" se
+WHERE se."userId" = u."id" AND se."keepPatientPassword" AND se."doctorVerified";
+
+DROP TABLE "SharedEmail";
+
+-- A Google account links to one user only. A patient's Google ID is dropped when the doctor
+-- with the same email has another one, or when it is linked to a doctor under another email.
+INSERT INTO "UserMigrationConflict" ("id", "userId", "patientId", "field", "droppedValue", "reason")
+SELECT gen_random_uuid()::text, coalesce(same_email."id", p."id"), p."id", 'googleId', p."googleId",
+    CASE WHEN same_email."googleId" IS NOT NULL AND same_email."googleId" <> p."googleId"
+        THEN 'The doctor profile with the same email is linked to another Google account'
+        ELSE 'The Google account is linked to a doctor profile with another email' END
+FROM "Patient" p
+LEFT JOIN "User" same_email ON same_email."email" = p."email"
+WHERE p."googleId" IS NOT NULL
+    AND ((same_email."googleId" IS NOT NULL AND same_email."googleId" <> p."googleId")
+        OR EXISTS (SELECT 1 FROM "User" other WHERE other."googleId" = p."googleId" AND other."email" <> p."email"));
+
+-- Patients whose email has no user yet get their own, without a Google ID that's taken
+INSERT INTO "User" ("id", "email", "password", "googleId", "emailVerifiedAt", "otp", "otpExpiry", "otpSentAt", "otpAttempts", "otpLockedUntil",
+    "passwordResetOtp", "passwordResetExpiry", "passwordResetSentAt", "passwordResetAttempts", "createdAt", "updatedAt")
+SELECT p."id", p."email", p."password",
+    CASE WHEN NOT EXISTS (SELECT 1 FROM "User" other WHERE other."googleId" = p."googleId") THEN p."googleId" END,
+    CASE WHEN p."onboardingStep" <> 'EMAIL_VERIFIED' OR p."googleId" IS NOT NULL THEN p."updatedAt" END,
+    p."otp", p."otpExpiry", p."otpSentAt", p."otpAttempts", p."otpLockedUntil",
+    p."passwordResetOtp", p."passwordResetExpiry", p."passwordResetSentAt", p."passwordResetAttempts", p."createdAt", p."updatedAt"
+FROM "Patient" p
+WHERE NOT EXISTS (SELECT 1 FROM "User" u WHERE u."email" = p."email");
+
+-- A patient-side Google link carries over when the doctor had none
+UPDATE "User" u SET "googleId" = p."googleId"
+FROM "Patient" p
+WHERE p."email" = u."email" AND u."googleId" IS NULL AND p."googleId" IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM "User" other WHERE other."googleId" = p."googleId");
+
+DO $$
+DECLARE
+    conflicts INTEGER;
+BEGIN
+    SELECT count(*) INTO conflicts FROM "UserMigrationConflict";
+    IF conflicts > 0 THEN
+        RAISE WARNING '% credential(s) could not be merged into their user; see "UserMigrationConflict"', conflicts;
+    END IF;
+END $$;
+
+-- AlterTable
+ALTER TABLE "Doctor" ADD COLUMN "userId" TEXT;
+ALTER TABLE "Patient" ADD COLUMN "userId" TEXT;
+
+UPDATE "Doctor" d SET "userId" = u."id" FROM "User" u WHERE u."email" = d."email";
+UPDATE "Patient" p SET "userId" = u."id" FROM "User" u WHERE u."email" = p."email";
+
+ALTER TABLE "Doctor" ALTER COLUMN "userId" SET NOT NULL;
+ALTER TABLE "Patient" ALTER COLUMN "userId" SET NOT NULL;
+
+-- Sessions remember their user so password changes can sign out every role
+ALTER TABLE "AuthSession" ADD COLUMN "userId" TEXT;
+
+UPDATE "AuthSession" s SET "userId" = d."userId" FROM "Doctor" d WHERE s."principalType" = 'doctor' AND s."principalId" = d."id";
+UPDATE "AuthSession" s SET "userId" = p."userId" FROM "Patient" p WHERE s."principalType" = 'patient' AND s."principalId" = p."id";
+
+-- DropIndex
+DROP INDEX "Doctor_email_key";
+DROP INDEX "Doctor_googleId_key";
+DROP INDEX "Patient_email_key";
+DROP INDEX "Patient_googleId_key";
+
+-- AlterTable
+ALTER TABLE "Doctor" DROP COLUMN "email",
+DROP COLUMN "googleId",
+DROP COLUMN "otp",
+DROP COLUMN "otpAttempts",
+DROP COLUMN "otpExpiry",
+DROP COLUMN "otpLockedUntil",
+DROP COLUMN "otpSentAt",
+DROP COLUMN "password",
+DROP COLUMN "passwordResetAttempts",
+DROP COLUMN "passwordResetExpiry",
+DROP COLUMN "passwordResetOtp",
+DROP COLUMN "passwordResetSentAt",
+DROP COLUMN "totpEnabled",
+DROP COLUMN "totpLastUsedStep",
+DROP COLUMN "totpRecoveryCodes",
+DROP COLUMN "totpSecret";
+
+-- AlterTable
+ALTER TABLE "Patient" DROP COLUMN "email",
+DROP COLUMN "googleId",
+DROP COLUMN "otp",
+DROP COLUMN "otpAttempts",
+DROP COLUMN "otpExpiry",
+DROP COLUMN "otpLockedUntil",
+DROP COLUMN "otpSentAt",
+DROP COLUMN "password",
+DROP COLUMN "passwordResetAttempts",
+DROP COLUMN "passwordResetExpiry",
+DROP COLUMN "passwordResetOtp",
+DROP COLUMN "passwordResetSentAt";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Doctor_userId_key" ON "Doctor"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Patient_userId_key" ON "Patient"("userId");
+
+-- CreateIndex
+CREATE INDEX "AuthSession_userId_idx" ON "AuthSession"("userId");
+
+-- CreateIndex
+CREATE INDEX "UserMigrationConflict_userId_idx" ON "UserMigrationConflict"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Doctor" ADD CONSTRAINT "Doctor_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Patient" ADD CONSTRAINT "Patient_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "User" ALTER COLUMN "email" DROP NOT NULL,
+ADD COLUMN     "phone" TEXT,
+ADD COLUMN     "phoneVerifiedAt" TIMESTAMP(3),
+ADD COLUMN     "phoneOtp" TEXT,
+ADD COLUMN     "phoneOtpTarget" TEXT,
+ADD COLUMN     "phoneOtpExpiry" TIMESTAMP(3),
+ADD COLUMN     "phoneOtpSentAt" TIMESTAMP(3),
+ADD COLUMN     "phoneOtpAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "phoneOtpLockedUntil" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Doctor" ADD COLUMN     "contactNumberVerified" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "whatsappNumberVerified" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Patient" ADD COLUMN     "phoneVerified" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "AuthSession" ALTER COLUMN "email" DROP NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_phone_key" ON "User"("phone");
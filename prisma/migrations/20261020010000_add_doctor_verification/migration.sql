@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "VerificationStatus" AS ENUM ('NOT_SUBMITTED', 'PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'VERIFICATION_APPROVED';
+ALTER TYPE "NotificationType" ADD VALUE 'VERIFICATION_REJECTED';
+
+-- AlterTable
+-- Existing doctors start as NOT_SUBMITTED and leave the public listing until they are reviewed
+ALTER TABLE "Doctor" ADD COLUMN "registrationNumber" TEXT,
+ADD COLUMN "medicalCouncil" TEXT,
+ADD COLUMN "verificationStatus" "VerificationStatus" NOT NULL DEFAULT 'NOT_SUBMITTED',
+ADD COLUMN "verificationSubmittedAt" TIMESTAMP(3),
+ADD COLUMN "verifiedAt" TIMESTAMP(3),
+ADD COLUMN "verificationNotes" TEXT;
+
+-- CreateTable
+CREATE TABLE "DoctorVerificationReview" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "adminId" TEXT,
+    "status" "VerificationStatus" NOT NULL,
+    "notes" TEXT,
+    "registrationNumber" TEXT NOT NULL,
+    "medicalCouncil" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DoctorVerificationReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Doctor_verificationStatus_verificationSubmittedAt_idx" ON "Doctor"("verificationStatus", "verificationSubmittedAt");
+
+-- CreateIndex
+CREATE INDEX "DoctorVerificationReview_doctorId_createdAt_idx" ON "DoctorVerificationReview"("doctorId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "DoctorVerificationReview" ADD CONSTRAINT "DoctorVerificationReview_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "Doctor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DoctorVerificationReview" ADD CONSTRAINT "DoctorVerificationReview_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "Admin"("id") ON DELETE SET NULL ON UPDATE CASCADE;
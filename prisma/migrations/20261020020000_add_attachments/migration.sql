@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "AttachmentKind" AS ENUM ('PROFILE_PHOTO', 'DEGREE_CERTIFICATE', 'REGISTRATION_CERTIFICATE', 'MEDICAL_REPORT', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "Attachment" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT,
+    "patientId" TEXT,
+    "kind" "AttachmentKind" NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "driver" TEXT NOT NULL,
+    "uploadedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Attachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Attachment_storageKey_key" ON "Attachment"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "Attachment_doctorId_kind_idx" ON "Attachment"("doctorId", "kind");
+
+-- CreateIndex
+CREATE INDEX "Attachment_patientId_kind_idx" ON "Attachment"("patientId", "kind");
+
+-- AddForeignKey
+ALTER TABLE "Attachment" ADD CONSTRAINT "Attachment_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "Doctor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Attachment" ADD CONSTRAINT "Attachment_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "Patient"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Exactly one owner per attachment
+ALTER TABLE "Attachment" ADD CONSTRAINT "Attachment_single_owner" CHECK (num_nonnulls("doctorId", "patientId") = 1);
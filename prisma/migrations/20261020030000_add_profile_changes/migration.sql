@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "ProfileChange" (
+    "id" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "actorType" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "changes" JSONB NOT NULL,
+    "ipAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProfileChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProfileChange_role_profileId_createdAt_idx" ON "ProfileChange"("role", "profileId", "createdAt");
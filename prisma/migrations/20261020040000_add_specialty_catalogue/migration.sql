@@ -0,0 +1,198 @@
+-- CreateEnum
+CREATE TYPE "QualificationLevel" AS ENUM ('UNDERGRADUATE', 'DIPLOMA', 'POSTGRADUATE', 'SUPER_SPECIALTY');
+
+-- CreateTable
+CREATE TABLE "Specialty" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "synonyms" TEXT[],
+    "parentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Specialty_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Qualification" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "level" "QualificationLevel" NOT NULL,
+    "synonyms" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Qualification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DoctorSpecialty" (
+    "doctorId" TEXT NOT NULL,
+    "specialtyId" TEXT NOT NULL,
+    "isPrimary" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DoctorSpecialty_pkey" PRIMARY KEY ("doctorId","specialtyId")
+);
+
+-- CreateTable
+CREATE TABLE "DoctorQualification" (
+    "doctorId" TEXT NOT NULL,
+    "qualificationId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DoctorQualification_pkey" PRIMARY KEY ("doctorId","qualificationId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Specialty_slug_key" ON "Specialty"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Specialty_name_key" ON "Specialty"("name");
+
+-- CreateIndex
+CREATE INDEX "Specialty_parentId_idx" ON "Specialty"("parentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Qualification_code_key" ON "Qualification"("code");
+
+-- CreateIndex
+CREATE INDEX "DoctorSpecialty_specialtyId_idx" ON "DoctorSpecialty"("specialtyId");
+
+-- CreateIndex
+CREATE INDEX "DoctorQualification_qualificationId_idx" ON "DoctorQualification"("qualificationId");
+
+-- AddForeignKey
+ALTER TABLE "Specialty" ADD CONSTRAINT "Specialty_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Specialty"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DoctorSpecialty" ADD CONSTRAINT "DoctorSpecialty_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "Doctor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DoctorSpecialty" ADD CONSTRAINT "DoctorSpecialty_specialtyId_fkey" FOREIGN KEY ("specialtyId") REFERENCES "Specialty"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DoctorQualification" ADD CONSTRAINT "DoctorQualification_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "Doctor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DoctorQualification" ADD CONSTRAINT "DoctorQualification_qualificationId_fkey" FOREIGN KEY ("qualificationId") REFERENCES "Qualification"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed the catalogues. Synonyms are lower-case; qualification codes are also matched with
+-- dots and spaces removed ("M.B.B.S."), so those spellings need no synonyms.
+INSERT INTO "Specialty" ("id", "slug", "name", "synonyms", "updatedAt")
+SELECT gen_random_uuid()::text, slug, name, synonyms, CURRENT_TIMESTAMP
+FROM (VALUES
+    ('general-medicine', 'General Medicine', ARRAY['general physician', 'physician', 'internal medicine', 'internist', 'family medicine', 'family physician', 'general practitioner', 'gp']),
+    ('cardiology', 'Cardiology', ARRAY['cardiologist', 'heart specialist', 'heart doctor']),
+    ('dermatology', 'Dermatology', ARRAY['dermatologist', 'skin specialist', 'skin doctor', 'venereology']),
+    ('pediatrics', 'Paediatrics', ARRAY['pediatrics', 'pediatrician', 'paediatrician', 'child specialist']),
+    ('obstetrics-gynaecology', 'Obstetrics & Gynaecology', ARRAY['obstetrics and gynaecology', 'gynaecology', 'gynecology', 'gynaecologist', 'gynecologist', 'obstetrician', 'obgyn']),
+    ('orthopaedics', 'Orthopaedics', ARRAY['orthopedics', 'orthopaedic', 'orthopedic', 'orthopaedic surgeon', 'orthopedic surgeon', 'orthopedist', 'bone specialist']),
+    ('ent', 'ENT', ARRAY['otorhinolaryngology', 'ent specialist', 'ear nose throat', 'ear nose and throat']),
+    ('ophthalmology', 'Ophthalmology', ARRAY['ophthalmologist', 'eye specialist', 'eye doctor']),
+    ('psychiatry', 'Psychiatry', ARRAY['psychiatrist', 'mental health']),
+    ('neurology', 'Neurology', ARRAY['neurologist', 'brain specialist']),
+    ('neurosurgery', 'Neurosurgery', ARRAY['neurosurgeon', 'neuro surgeon']),
+    ('gastroenterology', 'Gastroenterology', ARRAY['gastroenterologist', 'stomach specialist']),
+    ('nephrology', 'Nephrology', ARRAY['nephrologist', 'kidney specialist']),
+    ('urology', 'Urology', ARRAY['urologist']),
+    ('pulmonology', 'Pulmonology', ARRAY['pulmonologist', 'chest physician', 'chest specialist', 'respiratory medicine']),
+    ('endocrinology', 'Endocrinology', ARRAY['endocrinologist', 'hormone specialist']),
+    ('oncology', 'Oncology', ARRAY['oncologist', 'cancer specialist']),
+    ('general-surgery', 'General Surgery', ARRAY['general surgeon', 'surgeon']),
+    ('cardiothoracic-surgery', 'Cardiothoracic Surgery', ARRAY['cardiothoracic surgeon', 'cardiac surgeon', 'heart surgeon', 'ctvs']),
+    ('plastic-surgery', 'Plastic Surgery', ARRAY['plastic surgeon', 'cosmetic surgeon']),
+    ('dentistry', 'Dentistry', ARRAY['dentist', 'dental surgeon']),
+    ('radiology', 'Radiology', ARRAY['radiologist']),
+    ('anaesthesiology', 'Anaesthesiology', ARRAY['anesthesiology', 'anaesthetist', 'anesthetist', 'anesthesiologist']),
+    ('rheumatology', 'Rheumatology', ARRAY['rheumatologist']),
+    ('physiotherapy', 'Physiotherapy', ARRAY['physiotherapist', 'physio', 'physical therapy']),
+    ('ayurveda', 'Ayurveda', ARRAY['ayurvedic doctor', 'ayurvedic physician']),
+    ('homeopathy', 'Homeopathy', ARRAY['homoeopathy', 'homeopath', 'homeopathic doctor'])
+) AS seed(slug, name, synonyms);
+
+INSERT INTO "Specialty" ("id", "slug", "name", "synonyms", "parentId", "updatedAt")
+SELECT gen_random_uuid()::text, seed.slug, seed.name, seed.synonyms, parent."id", CURRENT_TIMESTAMP
+FROM (VALUES
+    ('interventional-cardiology', 'Interventional Cardiology', ARRAY['interventional cardiologist'], 'cardiology'),
+    ('cosmetology', 'Cosmetology', ARRAY['cosmetologist', 'cosmetic dermatology'], 'dermatology'),
+    ('neonatology', 'Neonatology', ARRAY['neonatologist', 'newborn specialist'], 'pediatrics'),
+    ('sports-medicine', 'Sports Medicine', ARRAY['sports medicine specialist', 'sports injury specialist'], 'orthopaedics'),
+    ('hepatology', 'Hepatology', ARRAY['hepatologist', 'liver specialist'], 'gastroenterology'),
+    ('diabetology', 'Diabetology', ARRAY['diabetologist', 'diabetes specialist'], 'endocrinology'),
+    ('medical-oncology', 'Medical Oncology', ARRAY['medical oncologist'], 'oncology'),
+    ('surgical-oncology', 'Surgical Oncology', ARRAY['surgical oncologist', 'cancer surgeon'], 'oncology'),
+    ('radiation-oncology', 'Radiation Oncology', ARRAY['radiation oncologist', 'radiotherapy'], 'oncology'),
+    ('laparoscopic-surgery', 'Laparoscopic Surgery', ARRAY['laparoscopic surgeon'], 'general-surgery'),
+    ('orthodontics', 'Orthodontics', ARRAY['orthodontist'], 'dentistry'),
+    ('endodontics', 'Endodontics', ARRAY['endodontist', 'root canal specialist'], 'dentistry'),
+    ('child-psychiatry', 'Child Psychiatry', ARRAY['child psychiatrist'], 'psychiatry')
+) AS seed(slug, name, synonyms, parent_slug)
+JOIN "Specialty" parent ON parent."slug" = seed.parent_slug;
+
+INSERT INTO "Qualification" ("id", "code", "name", "level", "synonyms", "updatedAt")
+SELECT gen_random_uuid()::text, code, name, level::"QualificationLevel", synonyms, CURRENT_TIMESTAMP
+FROM (VALUES
+    ('MBBS', 'Bachelor of Medicine, Bachelor of Surgery', 'UNDERGRADUATE', ARRAY['bachelor of medicine and bachelor of surgery']),
+    ('BDS', 'Bachelor of Dental Surgery', 'UNDERGRADUATE', ARRAY[]::text[]),
+    ('BAMS', 'Bachelor of Ayurvedic Medicine and Surgery', 'UNDERGRADUATE', ARRAY[]::text[]),
+    ('BHMS', 'Bachelor of Homeopathic Medicine and Surgery', 'UNDERGRADUATE', ARRAY[]::text[]),
+    ('BPT', 'Bachelor of Physiotherapy', 'UNDERGRADUATE', ARRAY['bachelor of physical therapy']),
+    ('DCH', 'Diploma in Child Health', 'DIPLOMA', ARRAY[]::text[]),
+    ('DGO', 'Diploma in Gynaecology and Obstetrics', 'DIPLOMA', ARRAY['diploma in obstetrics and gynaecology']),
+    ('DOMS', 'Diploma in Ophthalmic Medicine and Surgery', 'DIPLOMA', ARRAY[]::text[]),
+    ('DA', 'Diploma in Anaesthesia', 'DIPLOMA', ARRAY['diploma in anesthesia']),
+    ('DDVL', 'Diploma in Dermatology, Venereology and Leprosy', 'DIPLOMA', ARRAY['dvd']),
+    ('DOrtho', 'Diploma in Orthopaedics', 'DIPLOMA', ARRAY['diploma in orthopedics']),
+    ('MD', 'Doctor of Medicine', 'POSTGRADUATE', ARRAY[]::text[]),
+    ('MS', 'Master of Surgery', 'POSTGRADUATE', ARRAY[]::text[]),
+    ('DNB', 'Diplomate of National Board', 'POSTGRADUATE', ARRAY[]::text[]),
+    ('MDS', 'Master of Dental Surgery', 'POSTGRADUATE', ARRAY[]::text[]),
+    ('MPT', 'Master of Physiotherapy', 'POSTGRADUATE', ARRAY['master of physical therapy']),
+    ('MRCP', 'Member of the Royal College of Physicians', 'POSTGRADUATE', ARRAY[]::text[]),
+    ('FRCS', 'Fellow of the Royal College of Surgeons', 'POSTGRADUATE', ARRAY[]::text[]),
+    ('DM', 'Doctorate of Medicine', 'SUPER_SPECIALTY', ARRAY[]::text[]),
+    ('MCh', 'Master of Chirurgiae', 'SUPER_SPECIALTY', ARRAY[]::text[]),
+    ('DrNB', 'Doctorate of National Board', 'SUPER_SPECIALTY', ARRAY[]::text[])
+) AS seed(code, name, level, synonyms);
+
+-- Map existing free-text specialties onto the catalogue. A value may list several
+-- ("Cardiology, Diabetology"); the first one recognised becomes the primary specialty.
+-- Doctor.specialty and Doctor.latestQualification keep the text as written, matched or not;
+-- they switch to catalogue names the next time the doctor saves those fields.
+WITH parts AS (
+    SELECT d."id" AS "doctorId", lower(regexp_replace(btrim(part.value), '\s+', ' ', 'g')) AS term, part.position
+    FROM "Doctor" d,
+    LATERAL regexp_split_to_table(coalesce(d."specialty", ''), '\s*[,;/|]\s*') WITH ORDINALITY AS part(value, position)
+    WHERE btrim(part.value) <> ''
+),
+matched AS (
+    SELECT DISTINCT ON (p."doctorId", s."id") p."doctorId", s."id" AS "specialtyId", p.position
+    FROM parts p
+    JOIN "Specialty" s ON p.term = lower(s."name") OR p.term = s."slug" OR p.term = ANY(s."synonyms")
+    ORDER BY p."doctorId", s."id", p.position
+)
+INSERT INTO "DoctorSpecialty" ("doctorId", "specialtyId", "isPrimary")
+SELECT "doctorId", "specialtyId", ROW_NUMBER() OVER (PARTITION BY "doctorId" ORDER BY position, "specialtyId") = 1
+FROM matched;
+
+-- Qualifications are usually written like "MBBS, MD (Medicine)" or "M.B.B.S.": drop dots and
+-- bracketed subjects, then match the whole part or its first word
+WITH parts AS (
+    SELECT d."id" AS "doctorId",
+        lower(btrim(regexp_replace(regexp_replace(regexp_replace(part.value, '\([^)]*\)', '', 'g'), '\.', ' ', 'g'), '\s+', ' ', 'g'))) AS term
+    FROM "Doctor" d,
+    LATERAL regexp_split_to_table(coalesce(d."latestQualification", ''), '\s*[,;/|+&]\s*') AS part(value)
+)
+INSERT INTO "DoctorQualification" ("doctorId", "qualificationId")
+SELECT DISTINCT p."doctorId", q."id"
+FROM parts p
+JOIN "Qualification" q
+    ON p.term = lower(q."code")
+    OR p.term = lower(q."name")
+    OR p.term = ANY(q."synonyms")
+    OR replace(p.term, ' ', '') = lower(q."code")
+    OR split_part(p.term, ' ', 1) = lower(q."code")
+WHERE p.term <> '';
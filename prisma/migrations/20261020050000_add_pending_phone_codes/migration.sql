@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "PendingPhoneCode" (
+    "phone" TEXT NOT NULL,
+    "otp" TEXT,
+    "otpExpiry" TIMESTAMP(3),
+    "otpSentAt" TIMESTAMP(3),
+    "otpAttempts" INTEGER NOT NULL DEFAULT 0,
+    "otpLockedUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PendingPhoneCode_pkey" PRIMARY KEY ("phone")
+);
+
+-- Accounts that phone sign-up created before the code was confirmed, and never confirmed
+DELETE FROM "User" u
+WHERE u."email" IS NULL AND u."phoneVerifiedAt" IS NULL AND u."password" IS NULL AND u."googleId" IS NULL
+    AND NOT EXISTS (SELECT 1 FROM "Doctor" d WHERE d."userId" = u."id")
+    AND NOT EXISTS (SELECT 1 FROM "Patient" p WHERE p."userId" = u."id");
@@ -0,0 +1,75 @@
+jest.mock('@prisma/client', () => require('./helpers/prismaMock').prismaModule());
+jest.mock('../services/storage.service', () => ({
+    ...jest.requireActual('../services/storage.service'),
+    putObject: jest.fn()
+}));
+
+import { Request, Response } from 'express';
+import { mockedPrisma } from './helpers/prismaMock';
+import { putObject } from '../services/storage.service';
+import { createAttachmentHandlers } from '../controllers/attachment.controller';
+
+const prisma = mockedPrisma();
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]);
+const PDF = Buffer.from('%PDF-1.7\n');
+const HTML = Buffer.from('<html><script>alert(1)</script></html>');
+
+const uploadRequest = (kind: string, mimetype: string, buffer: Buffer) => ({
+    params: { id: 'doctor-1' },
+    body: { kind },
+    file: { mimetype, buffer, size: buffer.length, originalname: 'upload' },
+    principal: { type: 'doctor', id: 'doctor-1', email: 'doctor@example.com', sessionId: 'session-1' }
+}) as unknown as Request;
+
+const mockResponse = () => {
+    const res = { status: jest.fn(), json: jest.fn(), set: jest.fn() };
+    res.status.mockReturnValue(res);
+    res.json.mockReturnValue(res);
+    res.set.mockReturnValue(res);
+    return res;
+};
+
+describe('attachment upload file type checks', () => {
+    const { upload } = createAttachmentHandlers('doctor');
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        prisma.doctor.count.mockResolvedValue(0);
+    });
+
+    it('rejects a type the kind does not accept with 415', async () => {
+        const res = mockResponse();
+        await upload(uploadRequest('PROFILE_PHOTO', 'application/pdf', PDF), res as unknown as Response);
+
+        expect(res.status).toHaveBeenCalledWith(415);
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: false, error: 'UNSUPPORTED_FILE_TYPE' }));
+        expect(putObject).not.toHaveBeenCalled();
+    });
+
+    it('rejects a file whose content is not the declared type', async () => {
+        const res = mockResponse();
+        await upload(uploadRequest('DEGREE_CERTIFICATE', 'application/pdf', HTML), res as unknown as Response);
+
+        expect(res.status).toHaveBeenCalledWith(415);
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ error: 'UNSUPPORTED_FILE_TYPE' }));
+        expect(putObject).not.toHaveBeenCalled();
+    });
+
+    it('rejects a type outside every allow-list', async () => {
+        const res = mockResponse();
+        await upload(uploadRequest('OTHER', 'text/html', HTML), res as unknown as Response);
+
+        expect(res.status).toHaveBeenCalledWith(415);
+        expect(putObject).not.toHaveBeenCalled();
+    });
+
+    it('lets a genuine file of an accepted type through to the profile check', async () => {
+        const res = mockResponse();
+        await upload(uploadRequest('PROFILE_PHOTO', 'image/png', PNG), res as unknown as Response);
+
+        expect(prisma.doctor.count).toHaveBeenCalledWith({ where: { id: 'doctor-1' } });
+        expect(res.status).toHaveBeenCalledWith(404);
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ error: 'DOCTOR_NOT_FOUND' }));
+    });
+});
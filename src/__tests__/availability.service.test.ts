@@ -0,0 +1,37 @@
+jest.mock('@prisma/client', () => require('./helpers/prismaMock').prismaModule());
+
+import { DayOfWeek } from '@prisma/client';
+import { summarizeSchedule } from '../services/availability.service';
+
+describe('summarizeSchedule', () => {
+    it('reports the common hours when every window matches', () => {
+        const summary = summarizeSchedule([
+            { dayOfWeek: DayOfWeek.MONDAY, startTime: '09:00', endTime: '17:00' },
+            { dayOfWeek: DayOfWeek.WEDNESDAY, startTime: '09:00', endTime: '17:00' }
+        ]);
+
+        expect(summary).toEqual({ availableDays: [DayOfWeek.MONDAY, DayOfWeek.WEDNESDAY], availableTiming: '09:00-17:00' });
+    });
+
+    it('leaves the timing empty for a split schedule rather than spanning the gap', () => {
+        const summary = summarizeSchedule([
+            { dayOfWeek: DayOfWeek.MONDAY, startTime: '09:00', endTime: '13:00' },
+            { dayOfWeek: DayOfWeek.FRIDAY, startTime: '17:00', endTime: '21:00' }
+        ]);
+
+        expect(summary).toEqual({ availableDays: [DayOfWeek.MONDAY, DayOfWeek.FRIDAY], availableTiming: null });
+    });
+
+    it('leaves the timing empty for two sessions on the same day', () => {
+        const summary = summarizeSchedule([
+            { dayOfWeek: DayOfWeek.TUESDAY, startTime: '09:00', endTime: '13:00' },
+            { dayOfWeek: DayOfWeek.TUESDAY, startTime: '17:00', endTime: '21:00' }
+        ]);
+
+        expect(summary).toEqual({ availableDays: [DayOfWeek.TUESDAY], availableTiming: null });
+    });
+
+    it('summarizes an empty schedule as no days and no timing', () => {
+        expect(summarizeSchedule([])).toEqual({ availableDays: [], availableTiming: null });
+    });
+});
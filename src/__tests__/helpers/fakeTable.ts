@@ -0,0 +1,44 @@
+import { PrismaMock } from './prismaMock';
+
+// In-memory rows behind one model of the Prisma mock, for tests that depend on conditional
+// updates behaving like the database. Filters support equality, `lt` and `not`.
+type Row = Record<string, any>;
+
+const fieldMatches = (value: unknown, condition: unknown): boolean => {
+    if (condition !== null && typeof condition === 'object' && !(condition instanceof Date)) {
+        const { lt, not } = condition as { lt?: number; not?: unknown };
+        return (lt === undefined || (value as number) < lt) && (not === undefined || value !== not);
+    }
+    return value === condition;
+};
+
+const rowMatches = (row: Row, where: Row): boolean =>
+    Object.entries(where).every(([field, condition]) => fieldMatches(row[field], condition));
+
+// Apply Prisma's `{ increment }` updates as well as plain values
+const applyUpdate = (row: Row, data: Row) => {
+    for (const [field, value] of Object.entries(data)) {
+        row[field] = value !== null && typeof value === 'object' && 'increment' in value ? row[field] + value.increment : value;
+    }
+};
+
+// `defaults` fills the columns a create leaves out, like the database's column defaults.
+// Reads return copies, so a caller holds a snapshot just as it would with a real query.
+export const fakeTable = (prisma: PrismaMock, model: string, rows: Row[] = [], defaults: Row = {}) => {
+    const methods = prisma[model];
+    methods.findUnique.mockImplementation(async ({ where }: { where: Row }) => {
+        const row = rows.find(candidate => rowMatches(candidate, where));
+        return row ? { ...row } : null;
+    });
+    methods.create.mockImplementation(async ({ data }: { data: Row }) => {
+        const row = { id: `${model}-${rows.length + 1}`, ...defaults, ...data };
+        rows.push(row);
+        return { ...row };
+    });
+    methods.updateMany.mockImplementation(async ({ where, data }: { where: Row; data: Row }) => {
+        const matched = rows.filter(row => rowMatches(row, where));
+        matched.forEach(row => applyUpdate(row, data));
+        return { count: matched.length };
+    });
+    return rows;
+};
@@ -0,0 +1,31 @@
+// Stand-in for @prisma/client in tests that don't need a database. Every service creates its own
+// PrismaClient; here they all get the same object, whose model methods are jest.fn()s made on
+// first use, so a test can stub e.g. prisma.user.updateMany and inspect the calls.
+//
+//     jest.mock('@prisma/client', () => require('./helpers/prismaMock').prismaModule());
+//     const prisma = mockedPrisma();
+
+type ModelMock = Record<string, jest.Mock>;
+export type PrismaMock = Record<string, ModelMock> & { $transaction: jest.Mock };
+
+const lazyRecord = <T>(create: () => T) => new Proxy({} as Record<string | symbol, T>, {
+    get: (target, key) => {
+        if (!(key in target)) {
+            target[key] = create();
+        }
+        return target[key];
+    }
+});
+
+const client = lazyRecord<ModelMock | jest.Mock>(() => lazyRecord(() => jest.fn())) as unknown as PrismaMock;
+// Interactive transactions run against the same mock
+(client as Record<string, unknown>).$transaction = jest.fn(async (work: unknown) =>
+    typeof work === 'function' ? work(client) : Promise.all(work as Promise<unknown>[]));
+
+// Enums and types from the generated client, with PrismaClient swapped for the mock
+export const prismaModule = () => ({
+    ...jest.requireActual('@prisma/client'),
+    PrismaClient: jest.fn(() => client)
+});
+
+export const mockedPrisma = (): PrismaMock => client;
@@ -0,0 +1,138 @@
+jest.mock('@prisma/client', () => require('./helpers/prismaMock').prismaModule());
+
+import { mockedPrisma } from './helpers/prismaMock';
+import { fakeTable } from './helpers/fakeTable';
+import { checkVerificationCode, checkPasswordResetCode, checkPhoneCode, checkPendingPhoneCode, hashOtp, OTP_MAX_ATTEMPTS, OTP_LOCKOUT_MINUTES } from '../services/otp.service';
+
+const prisma = mockedPrisma();
+
+const CODE = '123456';
+const WRONG_CODE = '654321';
+
+describe('checkVerificationCode', () => {
+    let users: Record<string, any>[];
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        users = fakeTable(prisma, 'user', [{ id: 'user-1', otp: hashOtp(CODE), otpAttempts: 0, otpLockedUntil: null }]);
+    });
+
+    // Each guess re-reads the user, as verifyEmail does
+    const guess = (otp: string) => {
+        const { id, otp: stored, otpAttempts } = users[0];
+        return checkVerificationCode({ id, otp: stored, otpAttempts }, otp);
+    };
+
+    it('accepts the right code', async () => {
+        expect(await guess(CODE)).toEqual({ valid: true });
+    });
+
+    it('counts down the attempts left on each wrong guess', async () => {
+        expect(await guess(WRONG_CODE)).toEqual({ valid: false, reason: 'invalid', attemptsRemaining: OTP_MAX_ATTEMPTS - 1 });
+        expect(await guess(WRONG_CODE)).toEqual({ valid: false, reason: 'invalid', attemptsRemaining: OTP_MAX_ATTEMPTS - 2 });
+        expect(users[0].otpAttempts).toBe(2);
+    });
+
+    it('burns the code and locks verification when the attempts run out', async () => {
+        for (let attempt = 1; attempt < OTP_MAX_ATTEMPTS; attempt++) {
+            await guess(WRONG_CODE);
+        }
+
+        const result = await guess(WRONG_CODE);
+
+        expect(result).toEqual({ valid: false, reason: 'locked', retryAfterSeconds: OTP_LOCKOUT_MINUTES * 60 });
+        expect(users[0].otp).toBeNull();
+        expect(users[0].otpLockedUntil.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('does not let parallel guesses exceed the limit', async () => {
+        users[0].otpAttempts = OTP_MAX_ATTEMPTS - 1;
+        const snapshot = { id: 'user-1', otp: users[0].otp, otpAttempts: users[0].otpAttempts };
+
+        const results = await Promise.all([
+            checkVerificationCode(snapshot, WRONG_CODE),
+            checkVerificationCode(snapshot, CODE),
+            checkVerificationCode(snapshot, CODE)
+        ]);
+
+        expect(results.filter(result => result.valid)).toHaveLength(0);
+        expect(results.every(result => !result.valid && result.reason === 'locked')).toBe(true);
+    });
+});
+
+describe('checkPendingPhoneCode', () => {
+    let pendingCodes: Record<string, any>[];
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        pendingCodes = fakeTable(prisma, 'pendingPhoneCode', [{ phone: '+919876543210', otp: hashOtp(CODE), otpAttempts: 0, otpLockedUntil: null }]);
+    });
+
+    const guess = (otp: string) => {
+        const { phone, otp: stored, otpAttempts } = pendingCodes[0];
+        return checkPendingPhoneCode({ phone, otp: stored, otpAttempts }, otp);
+    };
+
+    it('locks the number after the same number of wrong guesses', async () => {
+        for (let attempt = 1; attempt < OTP_MAX_ATTEMPTS; attempt++) {
+            expect(await guess(WRONG_CODE)).toMatchObject({ valid: false, reason: 'invalid' });
+        }
+
+        expect(await guess(WRONG_CODE)).toMatchObject({ valid: false, reason: 'locked' });
+        expect(pendingCodes[0].otp).toBeNull();
+        expect(pendingCodes[0].otpLockedUntil.getTime()).toBeGreaterThan(Date.now());
+    });
+});
+
+describe('checkPasswordResetCode', () => {
+    let users: Record<string, any>[];
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        users = fakeTable(prisma, 'user', [{ id: 'user-1', passwordResetOtp: hashOtp(CODE), passwordResetAttempts: 0, passwordResetExpiry: new Date() }]);
+    });
+
+    const guess = (otp: string) => {
+        const { id, passwordResetOtp, passwordResetAttempts } = users[0];
+        return checkPasswordResetCode({ id, passwordResetOtp, passwordResetAttempts }, otp);
+    };
+
+    it('burns the code without a lock when the attempts run out', async () => {
+        for (let attempt = 1; attempt < OTP_MAX_ATTEMPTS; attempt++) {
+            await guess(WRONG_CODE);
+        }
+
+        expect(await guess(WRONG_CODE)).toEqual({ valid: false, reason: 'locked', retryAfterSeconds: 0 });
+        expect(users[0].passwordResetOtp).toBeNull();
+        expect(users[0]).not.toHaveProperty('otpLockedUntil');
+    });
+});
+
+describe('checkPhoneCode', () => {
+    let users: Record<string, any>[];
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        users = fakeTable(prisma, 'user', [{ id: 'user-1', phoneOtp: hashOtp(CODE), phoneOtpTarget: '+919876543210', phoneOtpAttempts: 0, phoneOtpLockedUntil: null }]);
+    });
+
+    const guess = (otp: string) => {
+        const { id, phoneOtp, phoneOtpAttempts } = users[0];
+        return checkPhoneCode({ id, phoneOtp, phoneOtpAttempts }, otp);
+    };
+
+    it('accepts the right code', async () => {
+        expect(await guess(CODE)).toEqual({ valid: true });
+    });
+
+    it('forgets the number the code was sent to when it locks', async () => {
+        for (let attempt = 1; attempt < OTP_MAX_ATTEMPTS; attempt++) {
+            await guess(WRONG_CODE);
+        }
+
+        expect(await guess(WRONG_CODE)).toMatchObject({ valid: false, reason: 'locked' });
+        expect(users[0].phoneOtp).toBeNull();
+        expect(users[0].phoneOtpTarget).toBeNull();
+        expect(users[0].phoneOtpLockedUntil.getTime()).toBeGreaterThan(Date.now());
+    });
+});
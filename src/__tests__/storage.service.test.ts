@@ -0,0 +1,44 @@
+import { signedDownloadUrl, checkDownloadSignature } from '../services/storage.service';
+
+// The query string of a signed link, as the download route receives it
+const linkParams = (url: string) => {
+    const params = new URL(url, 'http://localhost').searchParams;
+    return { expires: params.get('expires'), signature: params.get('signature') };
+};
+
+describe('checkDownloadSignature', () => {
+    it('accepts a link it signed', () => {
+        const { expires, signature } = linkParams(signedDownloadUrl('attachment-1').url);
+
+        expect(checkDownloadSignature('attachment-1', expires, signature)).toBe('valid');
+    });
+
+    it('rejects the signature of another attachment', () => {
+        const { expires, signature } = linkParams(signedDownloadUrl('attachment-1').url);
+
+        expect(checkDownloadSignature('attachment-2', expires, signature)).toBe('invalid');
+    });
+
+    it('rejects a link whose expiry was pushed back', () => {
+        const { expires, signature } = linkParams(signedDownloadUrl('attachment-1').url);
+
+        expect(checkDownloadSignature('attachment-1', String(Number(expires) + 3600), signature)).toBe('invalid');
+    });
+
+    it('rejects altered, missing or malformed parameters', () => {
+        const { expires, signature } = linkParams(signedDownloadUrl('attachment-1').url);
+        const altered = `${signature!.slice(0, -1)}${signature!.endsWith('A') ? 'B' : 'A'}`;
+
+        expect(checkDownloadSignature('attachment-1', expires, altered)).toBe('invalid');
+        expect(checkDownloadSignature('attachment-1', expires, `${signature}x`)).toBe('invalid');
+        expect(checkDownloadSignature('attachment-1', expires, undefined)).toBe('invalid');
+        expect(checkDownloadSignature('attachment-1', 'soon', signature)).toBe('invalid');
+        expect(checkDownloadSignature('attachment-1', ['1', '2'], signature)).toBe('invalid');
+    });
+
+    it('reports an expired link separately from a forged one', () => {
+        const { expires, signature } = linkParams(signedDownloadUrl('attachment-1', -60).url);
+
+        expect(checkDownloadSignature('attachment-1', expires, signature)).toBe('expired');
+    });
+});
@@ -0,0 +1,67 @@
+jest.mock('@prisma/client', () => require('./helpers/prismaMock').prismaModule());
+
+import { mockedPrisma } from './helpers/prismaMock';
+import { fakeTable } from './helpers/fakeTable';
+import { issueTokens, refreshSession, TokenSubject } from '../services/token.service';
+
+const prisma = mockedPrisma();
+
+const subject: TokenSubject = { type: 'patient', id: 'patient-1', email: 'patient@example.com', userId: 'user-1' };
+
+describe('refreshSession', () => {
+    let sessions: Record<string, any>[];
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        sessions = fakeTable(prisma, 'authSession', [], { revokedAt: null, previousRefreshTokenHash: null });
+    });
+
+    it('rotates the refresh token', async () => {
+        const { refreshToken } = await issueTokens(subject);
+
+        const result = await refreshSession(refreshToken);
+
+        if (!('tokens' in result)) {
+            throw new Error(`Refresh failed: ${result.error}`);
+        }
+        expect(result.tokens.refreshToken).not.toBe(refreshToken);
+        expect(result.subject).toMatchObject({ type: 'patient', id: 'patient-1', userId: 'user-1' });
+        expect(await refreshSession(result.tokens.refreshToken)).toHaveProperty('tokens');
+    });
+
+    it('revokes the session when a rotated-out token is presented again', async () => {
+        const { refreshToken: stolen } = await issueTokens(subject);
+        const rotated = await refreshSession(stolen);
+        if (!('tokens' in rotated)) {
+            throw new Error(`Refresh failed: ${rotated.error}`);
+        }
+
+        expect(await refreshSession(stolen)).toEqual({ error: 'REFRESH_TOKEN_REUSED' });
+        expect(sessions[0].revokedAt).toBeInstanceOf(Date);
+        // The legitimate holder's newer token dies with the session
+        expect(await refreshSession(rotated.tokens.refreshToken)).toEqual({ error: 'INVALID_REFRESH_TOKEN' });
+    });
+
+    it('lets only one of two concurrent refreshes with the same token through', async () => {
+        const { refreshToken } = await issueTokens(subject);
+
+        const results = await Promise.all([refreshSession(refreshToken), refreshSession(refreshToken)]);
+
+        expect(results.filter(result => 'tokens' in result)).toHaveLength(1);
+        expect(results.filter(result => 'error' in result)).toEqual([{ error: 'INVALID_REFRESH_TOKEN' }]);
+    });
+
+    it('rejects an unknown token without touching any session', async () => {
+        await issueTokens(subject);
+
+        expect(await refreshSession('not-a-refresh-token')).toEqual({ error: 'INVALID_REFRESH_TOKEN' });
+        expect(sessions[0].revokedAt).toBeNull();
+    });
+
+    it('rejects the token of a revoked session', async () => {
+        const { refreshToken } = await issueTokens(subject);
+        sessions[0].revokedAt = new Date();
+
+        expect(await refreshSession(refreshToken)).toEqual({ error: 'INVALID_REFRESH_TOKEN' });
+    });
+});
@@ -0,0 +1,61 @@
+import { once } from 'events';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { singleFile, MAX_UPLOAD_BYTES } from '../middleware/upload.middleware';
+
+describe('singleFile', () => {
+    let server: Server;
+    let url: string;
+
+    beforeAll(async () => {
+        const app = express();
+        app.post('/upload', singleFile('file'), (req, res) => {
+            res.status(201).json({ success: true, data: { size: req.file?.size } });
+        });
+        server = app.listen(0);
+        await once(server, 'listening');
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/upload`;
+    });
+
+    afterAll(done => {
+        server.close(done);
+    });
+
+    const post = async (files: { field: string; size: number }[]) => {
+        const form = new FormData();
+        for (const { field, size } of files) {
+            form.append(field, new Blob([Buffer.alloc(size)], { type: 'application/pdf' }), 'report.pdf');
+        }
+        const res = await fetch(url, { method: 'POST', body: form });
+        return { status: res.status, body: await res.json() };
+    };
+
+    it('passes a file within the size limit on to the handler', async () => {
+        const { status, body } = await post([{ field: 'file', size: 1024 }]);
+
+        expect(status).toBe(201);
+        expect(body.data.size).toBe(1024);
+    });
+
+    it('rejects a file over the size limit with 413', async () => {
+        const { status, body } = await post([{ field: 'file', size: MAX_UPLOAD_BYTES + 1 }]);
+
+        expect(status).toBe(413);
+        expect(body).toMatchObject({ success: false, error: 'FILE_TOO_LARGE' });
+    });
+
+    it('rejects a file sent in another field', async () => {
+        const { status, body } = await post([{ field: 'document', size: 1024 }]);
+
+        expect(status).toBe(400);
+        expect(body).toMatchObject({ success: false, error: 'INVALID_UPLOAD', message: 'Upload a single file in the "file" field' });
+    });
+
+    it('rejects more than one file', async () => {
+        const { status, body } = await post([{ field: 'file', size: 1024 }, { field: 'file', size: 1024 }]);
+
+        expect(status).toBe(400);
+        expect(body).toMatchObject({ success: false, error: 'INVALID_UPLOAD' });
+    });
+});
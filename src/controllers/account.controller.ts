@@ -0,0 +1,458 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { issueTokens, sessionMetaFromRequest, verifyTwoFactorChallenge } from '../services/token.service';
+import { getAccountLockRemaining, recordLoginFailure, clearLoginFailures } from '../services/rateLimit.service';
+import { generateTotpSecret, buildOtpauthUri, verifyTotp, encryptTotpSecret, decryptTotpSecret, generateRecoveryCodes, hashRecoveryCode } from '../services/totp.service';
+import { ensureProfile, resolveUserId, rolesOf, accountIdentifier, syncVerifiedPhone, Role } from '../services/account.service';
+
+const prisma = new PrismaClient();
+
+// Check a TOTP code or recovery code for an account with 2FA enabled and consume it, so the
+// same code can't be used twice. Both updates are conditional to survive concurrent requests.
+const consumeSecondFactor = async (
+    user: { id: string; totpSecret: string | null; totpLastUsedStep: number | null; totpRecoveryCodes: string[] },
+    code?: unknown,
+    recoveryCode?: unknown
+): Promise<{ valid: boolean; usedRecoveryCode?: boolean }> => {
+    if (code !== undefined && code !== null && code !== '' && user.totpSecret) {
+        const step = verifyTotp(decryptTotpSecret(user.totpSecret), String(code).trim(), user.totpLastUsedStep);
+        if (step === null) {
+            return { valid: false };
+        }
+        const result = await prisma.user.updateMany({
+            where: {
+                id: user.id,
+                OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }]
+            },
+            data: { totpLastUsedStep: step }
+        });
+        return { valid: result.count === 1 };
+    }
+
+    if (typeof recoveryCode === 'string' && recoveryCode.trim()) {
+        const hash = hashRecoveryCode(recoveryCode);
+        if (!user.totpRecoveryCodes.includes(hash)) {
+            return { valid: false };
+        }
+        const result = await prisma.user.updateMany({
+            where: { id: user.id, totpRecoveryCodes: { has: hash } },
+            data: { totpRecoveryCodes: user.totpRecoveryCodes.filter(h => h !== hash) }
+        });
+        return { valid: result.count === 1, usedRecoveryCode: true };
+    }
+
+    return { valid: false };
+};
+
+// 423 for an account locked by failed login or 2FA attempts, with when to try again
+const accountLocked = (res: Response, retryAfterSeconds: number) => {
+    res.set('Retry-After', String(retryAfterSeconds));
+    return res.status(423).json({
+        success: false,
+        message: 'Too many failed login attempts. Please try again later.',
+        error: 'ACCOUNT_LOCKED',
+        data: { retryAfterSeconds }
+    });
+};
+
+// Account of the caller, or null when the principal isn't a doctor/patient
+const findPrincipalUser = async (req: Request) => {
+    const userId = await resolveUserId(req.principal!);
+    return userId ? prisma.user.findUnique({ where: { id: userId } }) : null;
+};
+
+// Second login step when 2FA is enabled: exchange the challenge token and a code for tokens.
+// Used by both /doctors/login/2fa and /patients/login/2fa; the challenge says which role logged in.
+export const completeTwoFactorLogin = async (req: Request, res: Response) => {
+    try {
+        const { challengeToken, code, recoveryCode } = req.body;
+
+        if (!challengeToken || (!code && !recoveryCode)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Challenge token and either an authenticator code or a recovery code are required',
+                error: 'MISSING_FIELDS'
+            });
+        }
+
+        const subject = verifyTwoFactorChallenge(challengeToken);
+        if (!subject || subject.type === 'admin' || !subject.userId) {
+            return res.status(401).json({
+                success: false,
+                message: 'Login challenge is invalid or has expired. Please log in again.',
+                error: 'INVALID_CHALLENGE'
+            });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { id: subject.userId },
+            include: { doctor: true, patient: true }
+        });
+        // A challenge for a role the account has no profile for yet names the account instead
+        const existingProfile = subject.type === 'doctor' ? user?.doctor : user?.patient;
+        if (!user || !user.totpEnabled || (existingProfile ? existingProfile.id : user.id) !== subject.id) {
+            return res.status(401).json({
+                success: false,
+                message: 'Login challenge is invalid or has expired. Please log in again.',
+                error: 'INVALID_CHALLENGE'
+            });
+        }
+
+        const lockedFor = await getAccountLockRemaining('user', accountIdentifier(user));
+        if (lockedFor > 0) {
+            return accountLocked(res, lockedFor);
+        }
+
+        const check = await consumeSecondFactor(user, code, recoveryCode);
+        if (!check.valid) {
+            const lockedNow = await recordLoginFailure('user', accountIdentifier(user));
+            if (lockedNow > 0) {
+                return accountLocked(res, lockedNow);
+            }
+            return res.status(401).json({
+                success: false,
+                message: 'Invalid authentication code',
+                error: 'INVALID_TWO_FACTOR_CODE'
+            });
+        }
+
+        await clearLoginFailures('user', accountIdentifier(user));
+
+        // Logging in under a new role adds its profile only now that both factors passed
+        let profile = existingProfile;
+        if (!profile) {
+            profile = await ensureProfile(subject.type, user);
+            await syncVerifiedPhone(user.id);
+        }
+
+        const { token, refreshToken, refreshTokenExpiresAt } = await issueTokens({ type: subject.type, id: profile.id, email: user.email, userId: user.id }, sessionMetaFromRequest(req));
+
+        return res.status(200).json({
+            success: true,
+            message: 'Login successful',
+            data: {
+                [subject.type === 'doctor' ? 'doctorId' : 'patientId']: profile.id,
+                token,
+                refreshToken,
+                refreshTokenExpiresAt,
+                email: user.email,
+                name: profile.name,
+                onboardingStep: profile.onboardingStep,
+                roles: rolesOf({ ...user, [subject.type]: profile }),
+                recoveryCodesRemaining: check.usedRecoveryCode ? user.totpRecoveryCodes.length - 1 : undefined
+            }
+        });
+    } catch (error) {
+        console.error('Two-factor login error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred during login',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Start 2FA enrollment: create a secret and return it as an otpauth URI for the authenticator app.
+// 2FA stays off until the user proves the app works via enableTwoFactor. It covers every role of the account.
+export const setupTwoFactor = async (req: Request, res: Response) => {
+    try {
+        const user = await findPrincipalUser(req);
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: 'Account not found',
+                error: 'USER_NOT_FOUND'
+            });
+        }
+
+        if (user.totpEnabled) {
+            return res.status(409).json({
+                success: false,
+                message: 'Two-factor authentication is already enabled',
+                error: 'TWO_FACTOR_ALREADY_ENABLED'
+            });
+        }
+
+        const secret = generateTotpSecret();
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { totpSecret: encryptTotpSecret(secret), totpLastUsedStep: null }
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: 'Scan the QR code with your authenticator app, then confirm with a code to enable two-factor authentication',
+            data: {
+                secret,
+                otpauthUri: buildOtpauthUri(secret, accountIdentifier(user))
+            }
+        });
+    } catch (error) {
+        console.error('Two-factor setup error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while setting up two-factor authentication',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Finish enrollment with a code from the app. Recovery codes are returned once, here only.
+export const enableTwoFactor = async (req: Request, res: Response) => {
+    try {
+        const { code } = req.body;
+
+        if (!code) {
+            return res.status(400).json({
+                success: false,
+                message: 'Authenticator code is required',
+                error: 'MISSING_FIELDS'
+            });
+        }
+
+        const user = await findPrincipalUser(req);
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: 'Account not found',
+                error: 'USER_NOT_FOUND'
+            });
+        }
+
+        if (user.totpEnabled) {
+            return res.status(409).json({
+                success: false,
+                message: 'Two-factor authentication is already enabled',
+                error: 'TWO_FACTOR_ALREADY_ENABLED'
+            });
+        }
+
+        if (!user.totpSecret) {
+            return res.status(400).json({
+                success: false,
+                message: 'Start two-factor setup first',
+                error: 'TWO_FACTOR_NOT_SET_UP'
+            });
+        }
+
+        const step = verifyTotp(decryptTotpSecret(user.totpSecret), String(code).trim());
+        if (step === null) {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid authentication code',
+                error: 'INVALID_TWO_FACTOR_CODE'
+            });
+        }
+
+        const { codes, hashes } = generateRecoveryCodes();
+        await prisma.user.update({
+            where: { id: user.id },
+            data: {
+                totpEnabled: true,
+                totpLastUsedStep: step,
+                totpRecoveryCodes: hashes
+            }
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: 'Two-factor authentication enabled. Store these recovery codes somewhere safe; they will not be shown again.',
+            data: {
+                recoveryCodes: codes
+            }
+        });
+    } catch (error) {
+        console.error('Two-factor enable error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while enabling two-factor authentication',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Turn 2FA off. Requires a current code or a recovery code, not just a session.
+export const disableTwoFactor = async (req: Request, res: Response) => {
+    try {
+        const { code, recoveryCode } = req.body;
+
+        if (!code && !recoveryCode) {
+            return res.status(400).json({
+                success: false,
+                message: 'An authenticator code or a recovery code is required',
+                error: 'MISSING_FIELDS'
+            });
+        }
+
+        const user = await findPrincipalUser(req);
+        if (!user || !user.totpEnabled) {
+            return res.status(400).json({
+                success: false,
+                message: 'Two-factor authentication is not enabled',
+                error: 'TWO_FACTOR_NOT_ENABLED'
+            });
+        }
+
+        const lockedFor = await getAccountLockRemaining('user', accountIdentifier(user));
+        if (lockedFor > 0) {
+            return accountLocked(res, lockedFor);
+        }
+
+        // Wrong codes count towards the same lockout as login, so a stolen session can't guess its way in
+        const check = await consumeSecondFactor(user, code, recoveryCode);
+        if (!check.valid) {
+            const lockedNow = await recordLoginFailure('user', accountIdentifier(user));
+            if (lockedNow > 0) {
+                return accountLocked(res, lockedNow);
+            }
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid authentication code',
+                error: 'INVALID_TWO_FACTOR_CODE'
+            });
+        }
+
+        await clearLoginFailures('user', accountIdentifier(user));
+        await prisma.user.update({
+            where: { id: user.id },
+            data: {
+                totpEnabled: false,
+                totpSecret: null,
+                totpLastUsedStep: null,
+                totpRecoveryCodes: []
+            }
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: 'Two-factor authentication disabled'
+        });
+    } catch (error) {
+        console.error('Two-factor disable error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while disabling two-factor authentication',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Replace all recovery codes, e.g. after running low. Requires a current authenticator code.
+export const regenerateRecoveryCodes = async (req: Request, res: Response) => {
+    try {
+        const { code } = req.body;
+
+        if (!code) {
+            return res.status(400).json({
+                success: false,
+                message: 'Authenticator code is required',
+                error: 'MISSING_FIELDS'
+            });
+        }
+
+        const user = await findPrincipalUser(req);
+        if (!user || !user.totpEnabled) {
+            return res.status(400).json({
+                success: false,
+                message: 'Two-factor authentication is not enabled',
+                error: 'TWO_FACTOR_NOT_ENABLED'
+            });
+        }
+
+        const lockedFor = await getAccountLockRemaining('user', accountIdentifier(user));
+        if (lockedFor > 0) {
+            return accountLocked(res, lockedFor);
+        }
+
+        const check = await consumeSecondFactor(user, code);
+        if (!check.valid) {
+            const lockedNow = await recordLoginFailure('user', accountIdentifier(user));
+            if (lockedNow > 0) {
+                return accountLocked(res, lockedNow);
+            }
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid authentication code',
+                error: 'INVALID_TWO_FACTOR_CODE'
+            });
+        }
+
+        await clearLoginFailures('user', accountIdentifier(user));
+        const { codes, hashes } = generateRecoveryCodes();
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { totpRecoveryCodes: hashes }
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: 'New recovery codes generated. Previous codes no longer work.',
+            data: {
+                recoveryCodes: codes
+            }
+        });
+    } catch (error) {
+        console.error('Recovery code regeneration error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while generating recovery codes',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Switch the current login to the account's other role, e.g. a doctor booking as a patient.
+// The profile is created on first switch; the new tokens start a separate session.
+export const switchRole = async (req: Request, res: Response) => {
+    try {
+        const { role } = req.body;
+
+        if (role !== 'doctor' && role !== 'patient') {
+            return res.status(400).json({
+                success: false,
+                message: 'Role must be either "doctor" or "patient"',
+                error: 'INVALID_ROLE'
+            });
+        }
+
+        const user = await findPrincipalUser(req);
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: 'Account not found',
+                error: 'USER_NOT_FOUND'
+            });
+        }
+
+        const profile = await ensureProfile(role as Role, user);
+        const { token, refreshToken, refreshTokenExpiresAt } = await issueTokens({ type: role, id: profile.id, email: user.email, userId: user.id }, sessionMetaFromRequest(req));
+
+        const profiles = await prisma.user.findUnique({
+            where: { id: user.id },
+            select: { doctor: { select: { id: true } }, patient: { select: { id: true } } }
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: `Switched to ${role} account`,
+            data: {
+                [role === 'doctor' ? 'doctorId' : 'patientId']: profile.id,
+                token,
+                refreshToken,
+                refreshTokenExpiresAt,
+                email: user.email,
+                name: profile.name,
+                userType: role,
+                onboardingStep: profile.onboardingStep,
+                roles: rolesOf(profiles ?? {})
+            }
+        });
+    } catch (error) {
+        console.error('Switch role error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while switching roles',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
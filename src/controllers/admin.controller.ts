@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import bcrypt from 'bcrypt';
+import { issueTokens, sessionMetaFromRequest } from '../services/token.service';
+import { getAccountLockRemaining, recordLoginFailure, clearLoginFailures } from '../services/rateLimit.service';
+
+const prisma = new PrismaClient();
+
+// Login: Email + Password
+export const login = async (req: Request, res: Response) => {
+    try {
+        const { email, password } = req.body;
+
+        if (!email || !password) {
+            return res.status(400).json({
+                success: false,
+                message: 'Email and password are required',
+                error: 'MISSING_FIELDS'
+            });
+        }
+
+        const lockedFor = await getAccountLockRemaining('admin', email);
+        if (lockedFor > 0) {
+            res.set('Retry-After', String(lockedFor));
+            return res.status(423).json({
+                success: false,
+                message: 'Too many failed login attempts. Please try again later.',
+                error: 'ACCOUNT_LOCKED',
+                data: { retryAfterSeconds: lockedFor }
+            });
+        }
+
+        const admin = await prisma.admin.findUnique({ where: { email } });
+        const isPasswordValid = !!admin?.password && await bcrypt.compare(password, admin.password);
+        if (!admin || !isPasswordValid) {
+            const lockedNow = await recordLoginFailure('admin', email);
+            if (lockedNow > 0) {
+                res.set('Retry-After', String(lockedNow));
+                return res.status(423).json({
+                    success: false,
+                    message: 'Too many failed login attempts. Please try again later.',
+                    error: 'ACCOUNT_LOCKED',
+                    data: { retryAfterSeconds: lockedNow }
+                });
+            }
+            return res.status(401).json({
+                success: false,
+                message: 'Invalid email or password',
+                error: 'INVALID_CREDENTIALS'
+            });
+        }
+
+        await clearLoginFailures('admin', email);
+
+        const { token, refreshToken, refreshTokenExpiresAt } = await issueTokens({ type: 'admin', id: admin.id, email: admin.email }, sessionMetaFromRequest(req));
+
+        return res.status(200).json({
+            success: true,
+            message: 'Login successful',
+            data: {
+                adminId: admin.id,
+                token,
+                refreshToken,
+                refreshTokenExpiresAt,
+                email: admin.email,
+                name: admin.name
+            }
+        });
+    } catch (error) {
+        console.error('Admin login error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred during login',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
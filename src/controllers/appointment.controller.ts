@@ -0,0 +1,426 @@
+import { Request, Response } from 'express';
+import { PrismaClient, Prisma, AppointmentStatus, OnboardingStep, VerificationStatus } from '@prisma/client';
+import { Principal } from '../middleware/auth.middleware';
+import { isBookable, getScheduleWindows } from '../services/availability.service';
+import { notifyAppointmentRequested, notifyAppointmentResponded, notifyAppointmentCancelled } from '../services/notification.service';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_DURATION_MINUTES = 30;
+const MIN_DURATION_MINUTES = 5;
+const MAX_DURATION_MINUTES = 240;
+
+// Statuses that occupy a doctor's time
+const ACTIVE_STATUSES: AppointmentStatus[] = [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED];
+
+const isParticipant = (principal: Principal, appointment: { doctorId: string; patientId: string }): boolean => {
+    return principal.type === 'doctor'
+        ? appointment.doctorId === principal.id
+        : appointment.patientId === principal.id;
+};
+
+const appointmentInclude = {
+    doctor: {
+        select: {
+            id: true,
+            name: true,
+            specialty: true,
+            address: true,
+            city: true,
+            locality: true
+        }
+    },
+    patient: {
+        select: {
+            id: true,
+            name: true,
+            phone: true,
+            gender: true,
+            age: true
+        }
+    }
+};
+
+// Book an appointment (patient)
+export const bookAppointment = async (req: Request, res: Response) => {
+    try {
+        const principal = req.principal!;
+
+        const { doctorId, startTime, durationMinutes, reason } = req.body;
+
+        if (!doctorId || !startTime) {
+            return res.status(400).json({
+                success: false,
+                message: 'Doctor ID and start time are required',
+                error: 'MISSING_FIELDS'
+            });
+        }
+
+        const start = new Date(startTime);
+        if (isNaN(start.getTime())) {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid start time. Use an ISO 8601 date-time (e.g., 2026-01-15T10:30:00+05:30)',
+                error: 'INVALID_START_TIME'
+            });
+        }
+
+        if (start.getTime() <= Date.now()) {
+            return res.status(400).json({
+                success: false,
+                message: 'Appointments must be booked in the future',
+                error: 'START_TIME_IN_PAST'
+            });
+        }
+
+        const duration = durationMinutes === undefined ? DEFAULT_DURATION_MINUTES : Number(durationMinutes);
+        if (!Number.isInteger(duration) || duration < MIN_DURATION_MINUTES || duration > MAX_DURATION_MINUTES) {
+            return res.status(400).json({
+                success: false,
+                message: `Duration must be a whole number of minutes between ${MIN_DURATION_MINUTES} and ${MAX_DURATION_MINUTES}`,
+                error: 'INVALID_DURATION'
+            });
+        }
+
+        if (reason !== undefined && (typeof reason !== 'string' || reason.length > 500)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Reason must be text of at most 500 characters',
+                error: 'INVALID_REASON'
+            });
+        }
+
+        const end = new Date(start.getTime() + duration * 60 * 1000);
+
+        const doctor = await prisma.doctor.findUnique({
+            where: { id: doctorId },
+            select: {
+                id: true,
+                onboardingStep: true,
+                verificationStatus: true,
+                availableDays: true,
+                availableTiming: true,
+                scheduleWindows: true,
+                availabilityExceptions: {
+                    where: { startTime: { lt: end }, endTime: { gt: start } }
+                }
+            }
+        });
+        // Only doctors the public listing shows can be booked; unverified ones look like missing ones
+        if (!doctor || doctor.onboardingStep !== OnboardingStep.COMPLETE || doctor.verificationStatus !== VerificationStatus.APPROVED) {
+            return res.status(404).json({
+                success: false,
+                message: 'Doctor not found',
+                error: 'DOCTOR_NOT_FOUND'
+            });
+        }
+
+        const patient = await prisma.patient.findUnique({ where: { id: principal.id }, select: { id: true } });
+        if (!patient) {
+            return res.status(404).json({
+                success: false,
+                message: 'Patient not found',
+                error: 'PATIENT_NOT_FOUND'
+            });
+        }
+
+        if (!isBookable(getScheduleWindows(doctor), doctor.availabilityExceptions, start, end)) {
+            return res.status(400).json({
+                success: false,
+                message: 'The requested time is outside the doctor\'s available hours',
+                error: 'OUTSIDE_AVAILABILITY'
+            });
+        }
+
+        // Check for overlaps and insert in one serializable transaction so concurrent
+        // bookings of the same slot cannot both succeed
+        let appointment;
+        try {
+            appointment = await prisma.$transaction(async (tx) => {
+                const overlapping = await tx.appointment.findFirst({
+                    where: {
+                        status: { in: ACTIVE_STATUSES },
+                        OR: [{ doctorId }, { patientId: principal.id }],
+                        startTime: { lt: end },
+                        endTime: { gt: start }
+                    },
+                    select: { doctorId: true }
+                });
+
+                if (overlapping) {
+                    return overlapping.doctorId === doctorId ? 'SLOT_UNAVAILABLE' as const : 'PATIENT_BUSY' as const;
+                }
+
+                return tx.appointment.create({
+                    data: {
+                        doctorId,
+                        patientId: principal.id,
+                        startTime: start,
+                        endTime: end,
+                        reason: reason?.trim() || null
+                    },
+                    include: appointmentInclude
+                });
+            }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+        } catch (txError: any) {
+            // Serialization failure: another booking for an overlapping slot won the race
+            if (txError.code === 'P2034') {
+                appointment = 'SLOT_UNAVAILABLE' as const;
+            } else {
+                throw txError;
+            }
+        }
+
+        if (appointment === 'SLOT_UNAVAILABLE') {
+            return res.status(409).json({
+                success: false,
+                message: 'This time slot is no longer available. Please choose another slot.',
+                error: 'SLOT_UNAVAILABLE'
+            });
+        }
+
+        if (appointment === 'PATIENT_BUSY') {
+            return res.status(409).json({
+                success: false,
+                message: 'You already have an appointment at this time',
+                error: 'PATIENT_HAS_OVERLAPPING_APPOINTMENT'
+            });
+        }
+
+        void notifyAppointmentRequested(appointment);
+
+        return res.status(201).json({
+            success: true,
+            message: 'Appointment requested successfully. Waiting for doctor confirmation.',
+            data: appointment
+        });
+    } catch (error) {
+        console.error('Book appointment error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while booking the appointment',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// List appointments for the authenticated doctor or patient
+export const getMyAppointments = async (req: Request, res: Response) => {
+    try {
+        const principal = req.principal!;
+
+        const { status, from, to } = req.query;
+
+        const where: Prisma.AppointmentWhereInput = principal.type === 'doctor'
+            ? { doctorId: principal.id }
+            : { patientId: principal.id };
+
+        if (status !== undefined) {
+            if (typeof status !== 'string' || !Object.values(AppointmentStatus).includes(status as AppointmentStatus)) {
+                return res.status(400).json({
+                    success: false,
+                    message: `Status must be one of: ${Object.values(AppointmentStatus).join(', ')}`,
+                    error: 'INVALID_STATUS'
+                });
+            }
+            where.status = status as AppointmentStatus;
+        }
+
+        const startTimeFilter: Prisma.DateTimeFilter = {};
+        if (from !== undefined) {
+            const fromDate = new Date(String(from));
+            if (isNaN(fromDate.getTime())) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Invalid "from" date',
+                    error: 'INVALID_DATE'
+                });
+            }
+            startTimeFilter.gte = fromDate;
+        }
+        if (to !== undefined) {
+            const toDate = new Date(String(to));
+            if (isNaN(toDate.getTime())) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Invalid "to" date',
+                    error: 'INVALID_DATE'
+                });
+            }
+            startTimeFilter.lt = toDate;
+        }
+        if (from !== undefined || to !== undefined) {
+            where.startTime = startTimeFilter;
+        }
+
+        const appointments = await prisma.appointment.findMany({
+            where,
+            include: appointmentInclude,
+            orderBy: { startTime: 'asc' }
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: 'Appointments fetched successfully',
+            data: appointments,
+            count: appointments.length
+        });
+    } catch (error) {
+        console.error('Get appointments error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while fetching appointments',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Fetch a single appointment (participants only)
+export const getAppointmentById = async (req: Request, res: Response) => {
+    try {
+        const principal = req.principal!;
+
+        const { id } = req.params;
+
+        const appointment = await prisma.appointment.findUnique({
+            where: { id },
+            include: appointmentInclude
+        });
+
+        if (!appointment || !isParticipant(principal, appointment)) {
+            return res.status(404).json({
+                success: false,
+                message: 'Appointment not found',
+                error: 'APPOINTMENT_NOT_FOUND'
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: 'Appointment fetched successfully',
+            data: appointment
+        });
+    } catch (error) {
+        console.error('Get appointment error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while fetching the appointment',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Move a PENDING appointment to CONFIRMED or DECLINED (doctor)
+const respondToAppointment = (newStatus: 'CONFIRMED' | 'DECLINED') => async (req: Request, res: Response) => {
+    try {
+        const principal = req.principal!;
+
+        const { id } = req.params;
+
+        const appointment = await prisma.appointment.findUnique({ where: { id } });
+        if (!appointment || appointment.doctorId !== principal.id) {
+            return res.status(404).json({
+                success: false,
+                message: 'Appointment not found',
+                error: 'APPOINTMENT_NOT_FOUND'
+            });
+        }
+
+        // Conditional update so a concurrent cancel/confirm can't be overwritten
+        const result = await prisma.appointment.updateMany({
+            where: { id, status: AppointmentStatus.PENDING },
+            data: { status: newStatus }
+        });
+
+        if (result.count === 0) {
+            return res.status(409).json({
+                success: false,
+                message: `Only pending appointments can be ${newStatus === 'CONFIRMED' ? 'confirmed' : 'declined'}`,
+                error: 'INVALID_APPOINTMENT_STATUS'
+            });
+        }
+
+        const updated = await prisma.appointment.findUnique({ where: { id }, include: appointmentInclude });
+        if (updated) {
+            void notifyAppointmentResponded(updated, newStatus);
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: newStatus === 'CONFIRMED' ? 'Appointment confirmed' : 'Appointment declined',
+            data: updated
+        });
+    } catch (error) {
+        console.error('Respond to appointment error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while updating the appointment',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+export const confirmAppointment = respondToAppointment(AppointmentStatus.CONFIRMED);
+export const declineAppointment = respondToAppointment(AppointmentStatus.DECLINED);
+
+// Cancel an appointment (doctor or patient)
+export const cancelAppointment = async (req: Request, res: Response) => {
+    try {
+        const principal = req.principal!;
+
+        const { id } = req.params;
+        const { reason } = req.body ?? {};
+
+        if (reason !== undefined && (typeof reason !== 'string' || reason.length > 500)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Reason must be text of at most 500 characters',
+                error: 'INVALID_REASON'
+            });
+        }
+
+        const appointment = await prisma.appointment.findUnique({ where: { id } });
+        if (!appointment || !isParticipant(principal, appointment)) {
+            return res.status(404).json({
+                success: false,
+                message: 'Appointment not found',
+                error: 'APPOINTMENT_NOT_FOUND'
+            });
+        }
+
+        const result = await prisma.appointment.updateMany({
+            where: { id, status: { in: ACTIVE_STATUSES } },
+            data: {
+                status: AppointmentStatus.CANCELLED,
+                cancelledBy: principal.type,
+                cancellationReason: reason?.trim() || null
+            }
+        });
+
+        if (result.count === 0) {
+            return res.status(409).json({
+                success: false,
+                message: 'Only pending or confirmed appointments can be cancelled',
+                error: 'INVALID_APPOINTMENT_STATUS'
+            });
+        }
+
+        const updated = await prisma.appointment.findUnique({ where: { id }, include: appointmentInclude });
+        if (updated && principal.type !== 'admin') {
+            void notifyAppointmentCancelled(updated, principal.type);
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: 'Appointment cancelled',
+            data: updated
+        });
+    } catch (error) {
+        console.error('Cancel appointment error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while cancelling the appointment',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
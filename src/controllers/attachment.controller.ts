@@ -0,0 +1,259 @@
+import { Request, Response } from 'express';
+import { PrismaClient, AttachmentKind } from '@prisma/client';
+import { Role, resolveUserId } from '../services/account.service';
+import { matchesFileSignature } from '../services/validation.service';
+import {
+    newStorageKey, putObject, readObject, removeObject, storageDriverName, checkDownloadSignature, presentAttachment
+} from '../services/storage.service';
+
+const prisma = new PrismaClient();
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const DOCUMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+
+// Accepted file types per attachment kind
+const KIND_MIME_TYPES: Record<AttachmentKind, string[]> = {
+    PROFILE_PHOTO: IMAGE_TYPES,
+    DEGREE_CERTIFICATE: DOCUMENT_TYPES,
+    REGISTRATION_CERTIFICATE: DOCUMENT_TYPES,
+    MEDICAL_REPORT: DOCUMENT_TYPES,
+    OTHER: DOCUMENT_TYPES
+};
+
+// Kinds each role may upload to their own profile
+const ROLE_KINDS: Record<Role, AttachmentKind[]> = {
+    doctor: [AttachmentKind.PROFILE_PHOTO, AttachmentKind.DEGREE_CERTIFICATE, AttachmentKind.REGISTRATION_CERTIFICATE, AttachmentKind.OTHER],
+    patient: [AttachmentKind.PROFILE_PHOTO, AttachmentKind.MEDICAL_REPORT, AttachmentKind.OTHER]
+};
+
+const MAX_ATTACHMENTS_PER_PROFILE = 50;
+
+const ownerColumn = (role: Role) => role === 'doctor' ? 'doctorId' : 'patientId';
+
+// Keep the name readable in a Content-Disposition header and on any filesystem
+const sanitizeFileName = (fileName: string): string => {
+    const cleaned = fileName.normalize('NFKC').replace(/[^\p{L}\p{N}._ -]/gu, '_').replace(/^\.+/, '').trim();
+    return (cleaned || 'file').slice(-120);
+};
+
+const profileNotFound = (res: Response, role: Role) => res.status(404).json({
+    success: false,
+    message: role === 'doctor' ? 'Doctor not found' : 'Patient not found',
+    error: role === 'doctor' ? 'DOCTOR_NOT_FOUND' : 'PATIENT_NOT_FOUND'
+});
+
+// Upload, list and delete handlers for one role's attachments, mounted under /:id/attachments.
+// Ownership is checked by the routes.
+export const createAttachmentHandlers = (role: Role) => ({
+    // multipart/form-data with `file` and `kind`
+    upload: async (req: Request, res: Response) => {
+        try {
+            const id = req.params.id as string;
+            const file = req.file;
+            const kind = req.body?.kind as AttachmentKind;
+
+            if (!file) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'A file is required in the "file" field',
+                    error: 'MISSING_FILE'
+                });
+            }
+
+            if (!ROLE_KINDS[role].includes(kind)) {
+                return res.status(400).json({
+                    success: false,
+                    message: `Kind must be one of: ${ROLE_KINDS[role].join(', ')}`,
+                    error: 'INVALID_KIND'
+                });
+            }
+
+            const allowedTypes = KIND_MIME_TYPES[kind];
+            if (!allowedTypes.includes(file.mimetype) || !matchesFileSignature(file.buffer, file.mimetype)) {
+                return res.status(415).json({
+                    success: false,
+                    message: `${kind} uploads must be one of: ${allowedTypes.join(', ')}`,
+                    error: 'UNSUPPORTED_FILE_TYPE'
+                });
+            }
+
+            const owner = { [ownerColumn(role)]: id };
+            const profileExists = role === 'doctor'
+                ? await prisma.doctor.count({ where: { id } })
+                : await prisma.patient.count({ where: { id } });
+            if (!profileExists) {
+                return profileNotFound(res, role);
+            }
+
+            const existing = await prisma.attachment.count({ where: owner });
+            if (existing >= MAX_ATTACHMENTS_PER_PROFILE) {
+                return res.status(409).json({
+                    success: false,
+                    message: `You can keep at most ${MAX_ATTACHMENTS_PER_PROFILE} files. Delete some to upload more.`,
+                    error: 'ATTACHMENT_LIMIT_REACHED'
+                });
+            }
+
+            const fileName = sanitizeFileName(file.originalname);
+            const storageKey = newStorageKey(`${role}s/${id}`, fileName);
+            await putObject(storageKey, file.buffer, file.mimetype);
+
+            const attachment = await prisma.attachment.create({
+                data: {
+                    ...owner,
+                    kind,
+                    fileName,
+                    mimeType: file.mimetype,
+                    size: file.size,
+                    storageKey,
+                    driver: storageDriverName(),
+                    uploadedById: await resolveUserId(req.principal!)
+                }
+            });
+
+            // A profile has one photo; the new one replaces the old
+            if (kind === AttachmentKind.PROFILE_PHOTO) {
+                const previous = await prisma.attachment.findMany({
+                    where: { ...owner, kind, id: { not: attachment.id } }
+                });
+                await prisma.attachment.deleteMany({ where: { id: { in: previous.map(photo => photo.id) } } });
+                await Promise.all(previous.map(photo => removeObject(photo.storageKey).catch(error =>
+                    console.error('Error removing replaced photo:', error))));
+            }
+
+            return res.status(201).json({
+                success: true,
+                message: 'File uploaded successfully',
+                data: presentAttachment(attachment)
+            });
+        } catch (error) {
+            console.error('Upload attachment error:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'An error occurred while uploading the file',
+                error: 'INTERNAL_SERVER_ERROR'
+            });
+        }
+    },
+
+    // ?kind=MEDICAL_REPORT to filter
+    list: async (req: Request, res: Response) => {
+        try {
+            const id = req.params.id as string;
+            const { kind } = req.query;
+
+            if (kind !== undefined && !Object.values(AttachmentKind).includes(kind as AttachmentKind)) {
+                return res.status(400).json({
+                    success: false,
+                    message: `Kind must be one of: ${Object.values(AttachmentKind).join(', ')}`,
+                    error: 'INVALID_KIND'
+                });
+            }
+
+            const attachments = await prisma.attachment.findMany({
+                where: { [ownerColumn(role)]: id, ...(kind ? { kind: kind as AttachmentKind } : {}) },
+                orderBy: { createdAt: 'desc' }
+            });
+
+            return res.status(200).json({
+                success: true,
+                message: 'Files fetched successfully',
+                data: attachments.map(presentAttachment),
+                count: attachments.length
+            });
+        } catch (error) {
+            console.error('List attachments error:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'An error occurred while fetching files',
+                error: 'INTERNAL_SERVER_ERROR'
+            });
+        }
+    },
+
+    remove: async (req: Request, res: Response) => {
+        try {
+            const id = req.params.id as string;
+            const attachmentId = req.params.attachmentId as string;
+
+            const attachment = await prisma.attachment.findFirst({
+                where: { id: attachmentId, [ownerColumn(role)]: id }
+            });
+            if (!attachment) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'File not found',
+                    error: 'ATTACHMENT_NOT_FOUND'
+                });
+            }
+
+            await prisma.attachment.delete({ where: { id: attachment.id } });
+            try {
+                await removeObject(attachment.storageKey);
+            } catch (storageError) {
+                // The record is gone, so the file can no longer be downloaded either way
+                console.error('Error removing stored file:', storageError);
+            }
+
+            return res.status(200).json({
+                success: true,
+                message: 'File deleted successfully'
+            });
+        } catch (error) {
+            console.error('Delete attachment error:', error);
+            return res.status(500).json({
+                success: false,
+                message: 'An error occurred while deleting the file',
+                error: 'INTERNAL_SERVER_ERROR'
+            });
+        }
+    }
+});
+
+// Serve a file through a signed link: /files/:id?expires=&signature=
+export const downloadFile = async (req: Request, res: Response) => {
+    try {
+        const id = req.params.id as string;
+
+        const check = checkDownloadSignature(id, req.query.expires, req.query.signature);
+        if (check !== 'valid') {
+            return res.status(403).json({
+                success: false,
+                message: check === 'expired' ? 'This download link has expired' : 'Invalid download link',
+                error: check === 'expired' ? 'LINK_EXPIRED' : 'INVALID_SIGNATURE'
+            });
+        }
+
+        const attachment = await prisma.attachment.findUnique({ where: { id } });
+        const stream = attachment ? await readObject(attachment.storageKey) : null;
+        if (!attachment || !stream) {
+            return res.status(404).json({
+                success: false,
+                message: 'File not found',
+                error: 'ATTACHMENT_NOT_FOUND'
+            });
+        }
+
+        res.set({
+            'Content-Type': attachment.mimeType,
+            'Content-Length': String(attachment.size),
+            // Images display inline; everything else downloads rather than rendering in our origin
+            'Content-Disposition': `${attachment.mimeType.startsWith('image/') ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+            'X-Content-Type-Options': 'nosniff',
+            'Cache-Control': 'private, max-age=300'
+        });
+
+        stream.on('error', error => {
+            console.error('Download stream error:', error);
+            res.destroy(error);
+        });
+        stream.pipe(res);
+    } catch (error) {
+        console.error('Download file error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while downloading the file',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
@@ -0,0 +1,68 @@
+import { Request, Response } from 'express';
+import { sessionMetaFromRequest } from '../services/token.service';
+import { resolveUserId, Role } from '../services/account.service';
+import {
+    AuthResult, signUp, verifyEmail, resendVerification, logIn, requestPasswordReset, resetPassword, changePassword,
+    requestPhoneCode, verifyPhoneCode, requestPhoneVerification, confirmPhoneVerification
+} from '../services/auth.service';
+
+const sendResult = (res: Response, result: AuthResult) => {
+    if (result.retryAfterSeconds) {
+        res.set('Retry-After', String(result.retryAfterSeconds));
+    }
+    return res.status(result.status).json(result.body);
+};
+
+// Wrap an auth service call as a route handler with the usual 500 fallback
+const handle = (label: string, failureMessage: string, run: (req: Request) => Promise<AuthResult>) =>
+    async (req: Request, res: Response) => {
+        try {
+            return sendResult(res, await run(req));
+        } catch (error) {
+            console.error(`${label} error:`, error);
+            return res.status(500).json({
+                success: false,
+                message: failureMessage,
+                error: 'INTERNAL_SERVER_ERROR'
+            });
+        }
+    };
+
+// Credential endpoints for one role; the doctor and patient routers mount the same handlers
+export const createAuthHandlers = (role: Role) => ({
+    // Email + Password -> Signup, then OTP is sent
+    onboardingAuth: handle('Authentication', 'An error occurred during account creation',
+        req => signUp(role, req.body.email, req.body.password)),
+
+    verifyOtp: handle('Verify OTP', 'An error occurred during verification',
+        req => verifyEmail(role, req.body.email, req.body.otp, sessionMetaFromRequest(req))),
+
+    resendOtp: handle('Resend OTP', 'An error occurred while resending the verification code',
+        req => resendVerification(role, req.body.email)),
+
+    login: handle('Login', 'An error occurred during login',
+        req => logIn(role, req.body.email, req.body.password, sessionMetaFromRequest(req))),
+
+    forgotPassword: handle('Forgot password', 'An error occurred while requesting a password reset',
+        req => requestPasswordReset(req.body.email)),
+
+    resetPassword: handle('Reset password', 'An error occurred while resetting the password',
+        req => resetPassword(req.body.email, req.body.otp, req.body.newPassword)),
+
+    changePassword: handle('Change password', 'An error occurred while changing the password',
+        async req => changePassword(role, await resolveUserId(req.principal!), req.principal!.sessionId, req.body.currentPassword, req.body.newPassword)),
+
+    // Phone number -> code by SMS or WhatsApp, then sign up or log in with it
+    phoneOtp: handle('Phone OTP', 'An error occurred while sending the verification code',
+        req => requestPhoneCode(role, req.body.phone, req.body.channel)),
+
+    verifyPhoneOtp: handle('Verify phone OTP', 'An error occurred during verification',
+        req => verifyPhoneCode(role, req.body.phone, req.body.otp, sessionMetaFromRequest(req)))
+});
+
+// Verify a phone number on the signed-in account, for either role
+export const sendPhoneVerification = handle('Phone verification', 'An error occurred while sending the verification code',
+    async req => requestPhoneVerification(await resolveUserId(req.principal!), req.body.phone, req.body.channel));
+
+export const confirmPhone = handle('Confirm phone', 'An error occurred while verifying the phone number',
+    async req => confirmPhoneVerification(await resolveUserId(req.principal!), req.body.otp));
@@ -0,0 +1,330 @@
+import { Request, Response } from 'express';
+import { PrismaClient, QualificationLevel } from '@prisma/client';
+import {
+    getSpecialtyTree, normalizeSpecialtyTerm, normalizeQualificationTerm, slugify, findConflictingSpecialty,
+    findConflictingQualification, refreshPrimarySpecialtyName, refreshLatestQualifications
+} from '../services/specialty.service';
+
+const prisma = new PrismaClient();
+
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const CODE_PATTERN = /^[A-Za-z][A-Za-z0-9]{0,11}$/;
+const MAX_SYNONYMS = 30;
+
+type InputError = { status: number; message: string; code: string };
+
+const sendError = (res: Response, { status, message, code }: InputError) => res.status(status).json({
+    success: false,
+    message,
+    error: code
+});
+
+// Synonyms as stored: normalised, without blanks or duplicates. Null when the input isn't a list of strings.
+const parseSynonyms = (value: unknown, normalize: (term: string) => string): string[] | null => {
+    if (!Array.isArray(value) || value.length > MAX_SYNONYMS || value.some(term => typeof term !== 'string')) {
+        return null;
+    }
+    return [...new Set(value.map(normalize).filter(Boolean))];
+};
+
+// Public catalogue: top-level specialties with their sub-specialties and synonyms
+export const listSpecialties = async (req: Request, res: Response) => {
+    try {
+        const specialties = await getSpecialtyTree();
+
+        res.set('Cache-Control', 'public, max-age=300');
+        return res.status(200).json({
+            success: true,
+            message: 'Specialties fetched successfully',
+            data: specialties,
+            count: specialties.length
+        });
+    } catch (error) {
+        console.error('List specialties error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while fetching specialties',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Public catalogue of qualifications, highest level first
+export const listQualifications = async (req: Request, res: Response) => {
+    try {
+        const qualifications = await prisma.qualification.findMany({
+            select: { id: true, code: true, name: true, level: true, synonyms: true },
+            orderBy: [{ level: 'desc' }, { code: 'asc' }]
+        });
+
+        res.set('Cache-Control', 'public, max-age=300');
+        return res.status(200).json({
+            success: true,
+            message: 'Qualifications fetched successfully',
+            data: qualifications,
+            count: qualifications.length
+        });
+    } catch (error) {
+        console.error('List qualifications error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while fetching qualifications',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Check a specialty create/update body against the catalogue. `existing` is the specialty being edited.
+const parseSpecialtyInput = async (body: any, existing?: { id: string; name: string; slug: string; synonyms: string[]; parentId: string | null }) => {
+    const { name, slug, synonyms, parentId } = body;
+    const data: { name?: string; slug?: string; synonyms?: string[]; parentId?: string | null } = {};
+
+    if (name !== undefined) {
+        if (typeof name !== 'string' || name.trim().length < 2) {
+            return { error: { status: 400, message: 'Name must be at least 2 characters long', code: 'INVALID_NAME' } };
+        }
+        data.name = name.trim().replace(/\s+/g, ' ');
+    }
+
+    if (slug !== undefined || (!existing && data.name)) {
+        const value = slug === undefined ? slugify(data.name!) : slug;
+        if (typeof value !== 'string' || !SLUG_PATTERN.test(value)) {
+            return { error: { status: 400, message: 'Slug may only contain lowercase letters, numbers and single hyphens', code: 'INVALID_SLUG' } };
+        }
+        data.slug = value;
+    }
+
+    if (synonyms !== undefined) {
+        const parsed = parseSynonyms(synonyms, normalizeSpecialtyTerm);
+        if (!parsed) {
+            return { error: { status: 400, message: `Synonyms must be a list of at most ${MAX_SYNONYMS} strings`, code: 'INVALID_SYNONYMS' } };
+        }
+        data.synonyms = parsed;
+    }
+
+    if (parentId !== undefined) {
+        if (parentId !== null && typeof parentId !== 'string') {
+            return { error: { status: 400, message: 'parentId must be a specialty id or null', code: 'INVALID_PARENT' } };
+        }
+        // The tree is two levels deep: a parent must be top-level, and a specialty with
+        // sub-specialties can't become one itself
+        if (parentId !== null) {
+            const parent = await prisma.specialty.findUnique({ where: { id: parentId } });
+            if (!parent || parent.parentId || parent.id === existing?.id) {
+                return { error: { status: 400, message: 'The parent must be an existing top-level specialty', code: 'INVALID_PARENT' } };
+            }
+            if (existing && await prisma.specialty.count({ where: { parentId: existing.id } }) > 0) {
+                return { error: { status: 400, message: 'A specialty with sub-specialties cannot be moved under another', code: 'INVALID_PARENT' } };
+            }
+        }
+        data.parentId = parentId;
+    }
+
+    // Every name a specialty answers to must point at it alone
+    const terms = [data.name ?? existing?.name, data.slug ?? existing?.slug, ...(data.synonyms ?? existing?.synonyms ?? [])]
+        .filter((term): term is string => Boolean(term));
+    const conflict = await findConflictingSpecialty(terms, existing?.id);
+    if (conflict) {
+        return { error: { status: 409, message: `"${conflict.term}" already refers to ${conflict.specialty.name}`, code: 'SPECIALTY_TERM_IN_USE' } };
+    }
+
+    return { data };
+};
+
+// Add a specialty or sub-specialty: { name, slug?, synonyms?, parentId? }
+export const createSpecialty = async (req: Request, res: Response) => {
+    try {
+        if (!req.body?.name) {
+            return res.status(400).json({
+                success: false,
+                message: 'Name is required',
+                error: 'MISSING_FIELDS'
+            });
+        }
+
+        const { data, error } = await parseSpecialtyInput(req.body);
+        if (error) {
+            return sendError(res, error);
+        }
+
+        const specialty = await prisma.specialty.create({
+            data: { name: data.name!, slug: data.slug!, synonyms: data.synonyms ?? [], parentId: data.parentId ?? null }
+        });
+
+        return res.status(201).json({
+            success: true,
+            message: 'Specialty created successfully',
+            data: specialty
+        });
+    } catch (error) {
+        console.error('Create specialty error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while creating the specialty',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Rename, re-slug, replace synonyms or move under another parent (parentId: null for top-level)
+export const updateSpecialty = async (req: Request, res: Response) => {
+    try {
+        const id = req.params.id as string;
+
+        const existing = await prisma.specialty.findUnique({ where: { id } });
+        if (!existing) {
+            return res.status(404).json({
+                success: false,
+                message: 'Specialty not found',
+                error: 'SPECIALTY_NOT_FOUND'
+            });
+        }
+
+        const { data, error } = await parseSpecialtyInput(req.body ?? {}, existing);
+        if (error) {
+            return sendError(res, error);
+        }
+
+        const specialty = await prisma.specialty.update({ where: { id }, data });
+        // Doctors whose primary specialty this is show the new name
+        if (specialty.name !== existing.name) {
+            await refreshPrimarySpecialtyName(id, specialty.name);
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: 'Specialty updated successfully',
+            data: specialty
+        });
+    } catch (error) {
+        console.error('Update specialty error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while updating the specialty',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Check a qualification create/update body. The code can only be set on create: it's what
+// profiles display.
+const parseQualificationInput = async (body: any, existing?: { id: string; code: string; name: string; synonyms: string[] }) => {
+    const { code, name, level, synonyms } = body;
+    const data: { code?: string; name?: string; level?: QualificationLevel; synonyms?: string[] } = {};
+
+    if (!existing) {
+        if (typeof code !== 'string' || !CODE_PATTERN.test(code.trim())) {
+            return { error: { status: 400, message: 'Code must be 1-12 letters or digits, starting with a letter', code: 'INVALID_CODE' } };
+        }
+        data.code = code.trim();
+    } else if (code !== undefined && code !== existing.code) {
+        return { error: { status: 400, message: 'The code of an existing qualification cannot be changed', code: 'INVALID_CODE' } };
+    }
+
+    if (name !== undefined) {
+        if (typeof name !== 'string' || name.trim().length < 2) {
+            return { error: { status: 400, message: 'Name must be at least 2 characters long', code: 'INVALID_NAME' } };
+        }
+        data.name = name.trim().replace(/\s+/g, ' ');
+    }
+
+    if (level !== undefined) {
+        if (!Object.values(QualificationLevel).includes(level)) {
+            return { error: { status: 400, message: `Level must be one of: ${Object.values(QualificationLevel).join(', ')}`, code: 'INVALID_LEVEL' } };
+        }
+        data.level = level;
+    }
+
+    if (synonyms !== undefined) {
+        const parsed = parseSynonyms(synonyms, normalizeQualificationTerm);
+        if (!parsed) {
+            return { error: { status: 400, message: `Synonyms must be a list of at most ${MAX_SYNONYMS} strings`, code: 'INVALID_SYNONYMS' } };
+        }
+        data.synonyms = parsed;
+    }
+
+    const terms = [data.code ?? existing?.code, data.name ?? existing?.name, ...(data.synonyms ?? existing?.synonyms ?? [])]
+        .filter((term): term is string => Boolean(term));
+    const conflict = await findConflictingQualification(terms, existing?.id);
+    if (conflict) {
+        return { error: { status: 409, message: `"${conflict.term}" already refers to ${conflict.qualification.code}`, code: 'QUALIFICATION_TERM_IN_USE' } };
+    }
+
+    return { data };
+};
+
+// Add a qualification: { code, name, level, synonyms? }
+export const createQualification = async (req: Request, res: Response) => {
+    try {
+        const { code, name, level } = req.body ?? {};
+        if (!code || !name || !level) {
+            return res.status(400).json({
+                success: false,
+                message: 'All fields are required: code, name, level',
+                error: 'MISSING_FIELDS'
+            });
+        }
+
+        const { data, error } = await parseQualificationInput(req.body);
+        if (error) {
+            return sendError(res, error);
+        }
+
+        const qualification = await prisma.qualification.create({
+            data: { code: data.code!, name: data.name!, level: data.level!, synonyms: data.synonyms ?? [] }
+        });
+
+        return res.status(201).json({
+            success: true,
+            message: 'Qualification created successfully',
+            data: qualification
+        });
+    } catch (error) {
+        console.error('Create qualification error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while creating the qualification',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Change a qualification's name, level or synonyms
+export const updateQualification = async (req: Request, res: Response) => {
+    try {
+        const id = req.params.id as string;
+
+        const existing = await prisma.qualification.findUnique({ where: { id } });
+        if (!existing) {
+            return res.status(404).json({
+                success: false,
+                message: 'Qualification not found',
+                error: 'QUALIFICATION_NOT_FOUND'
+            });
+        }
+
+        const { data, error } = await parseQualificationInput(req.body ?? {}, existing);
+        if (error) {
+            return sendError(res, error);
+        }
+
+        const qualification = await prisma.qualification.update({ where: { id }, data });
+        // A new level can change which qualification holders show as their latest
+        if (qualification.level !== existing.level) {
+            await refreshLatestQualifications(id);
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: 'Qualification updated successfully',
+            data: qualification
+        });
+    } catch (error) {
+        console.error('Update qualification error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while updating the qualification',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
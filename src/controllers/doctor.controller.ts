@@ -1,463 +1,275 @@
 import { Request, Response } from 'express';
-import { PrismaClient, Gender, OnboardingStep, DayOfWeek } from '@prisma/client';
-import * as brevo from '@getbrevo/brevo';
-import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
+import { PrismaClient, Prisma, Gender, OnboardingStep, DayOfWeek, AppointmentStatus, AvailabilityExceptionType, VerificationStatus, AttachmentKind, Attachment } from '@prisma/client';
+import { withEmail, syncVerifiedPhone } from '../services/account.service';
+import { notifyOnboardingCompleted } from '../services/notification.service';
+import { enqueueJob } from '../services/jobQueue.service';
+import { presentAttachment } from '../services/storage.service';
+import { DOCTOR_PROFILE_FIELDS, parseProfileFields, diffProfile, withLegacyDoctorFields } from '../services/profileFields.service';
+import {
+    resolveDoctorCatalogue, catalogueColumns, catalogueRelationWrites, catalogueLabels, currentCatalogue, specialtyFilterIds,
+    DOCTOR_CATALOGUE_INCLUDE, doctorCatalogueSelect, withCatalogue
+} from '../services/specialty.service';
+import { ONBOARDING_INCLUDE, doctorStateFor, doctorStepBlockedBy } from '../services/onboarding.service';
+import { EARTH_RADIUS_KM, isValidLatitude, isValidLongitude, boundingBox, resolveCoordinates } from '../services/geo.service';
+import { parseTiming, parseLocalDate, generateSlots, getScheduleWindows, summarizeSchedule, validateSchedule, ScheduleWindowLike } from '../services/availability.service';
+import { Principal, hasPermission } from '../middleware/auth.middleware';
 
 const prisma = new PrismaClient();
 
-// JWT Secret (should be in .env)
-const JWT_SECRET: string = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-const JWT_EXPIRES_IN: string = process.env.JWT_EXPIRES_IN || '7d';
-
-// Brevo API client setup (using HTTP API instead of SMTP to avoid Render blocking)
-let brevoApiInstance: brevo.TransactionalEmailsApi | null = null;
-
-const initializeBrevo = () => {
-    const brevoApiKey = process.env.BREVO_API_KEY;
-
-    if (!brevoApiKey) {
-        console.warn('⚠️  BREVO_API_KEY not configured. Email sending will be disabled.');
-        return null;
-    }
-
-    try {
-        brevoApiInstance = new brevo.TransactionalEmailsApi();
-        // Set API key using the enum for apiKey type
-        brevoApiInstance.setApiKey(brevo.TransactionalEmailsApiApiKeys.apiKey, brevoApiKey);
-        console.log('✅ Brevo API client initialized successfully');
-        return brevoApiInstance;
-    } catch (error) {
-        console.error('❌ Failed to initialize Brevo API:', error);
-        return null;
-    }
-};
-
-initializeBrevo();
-
-// Helper functions
-const generateOTP = () => Math.floor(100000 + Math.random() * 900000).toString();
-
-const generateJWT = (doctorId: string, email: string): string => {
-    return jwt.sign(
-        { doctorId, email, type: 'doctor' },
-        JWT_SECRET,
-        { expiresIn: JWT_EXPIRES_IN } as jwt.SignOptions
-    );
-};
-
-// Validation helpers
-const validateEmail = (email: string): boolean => {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
-};
-
-const validatePassword = (password: string): { valid: boolean; error?: string } => {
-    if (password.length < 8) {
-        return { valid: false, error: 'Password must be at least 8 characters long' };
-    }
-    if (!/[A-Z]/.test(password)) {
-        return { valid: false, error: 'Password must contain at least one uppercase letter' };
-    }
-    if (!/[a-z]/.test(password)) {
-        return { valid: false, error: 'Password must contain at least one lowercase letter' };
-    }
-    if (!/[0-9]/.test(password)) {
-        return { valid: false, error: 'Password must contain at least one number' };
-    }
-    return { valid: true };
-};
-
-const validatePhoneNumber = (phone: string): boolean => {
-    const phoneRegex = /^[+]?[(]?[0-9]{1,4}[)]?[-\s.]?[(]?[0-9]{1,4}[)]?[-\s.]?[0-9]{1,9}$/;
-    return phoneRegex.test(phone.replace(/\s/g, ''));
-};
-
-const validateAge = (age: number): boolean => {
-    return age >= 18 && age <= 100;
-};
-
+// Same parser the slot generator uses, so every stored timing can be expanded into slots
 const validateTiming = (timing: string): boolean => {
-    const timingRegex = /^([0-1][0-9]|2[0-3]):[0-5][0-9]-([0-1][0-9]|2[0-3]):[0-5][0-9]$/;
-    return timingRegex.test(timing);
+    return parseTiming(timing) !== null;
 };
 
-// Authentication: Email + Password (Required) -> Signup, then OTP is sent
-export const onboardingAuth = async (req: Request, res: Response) => {
+// Personal Info: Name, Age, Gender, Language, Phone Number
+export const onboardingPersonalInfo = async (req: Request, res: Response) => {
     try {
-        const { email, password } = req.body;
+        const { doctorId, name, age, gender, languages, contactNumber, whatsappNumber } = req.body;
 
         // Validation
-        if (!email || !password) {
+        if (!doctorId || !name || !age || !gender || !languages || !contactNumber || !whatsappNumber) {
             return res.status(400).json({
                 success: false,
-                message: 'Email and password are required',
+                message: 'All fields are required: name, age, gender, languages, contactNumber, whatsappNumber',
                 error: 'MISSING_FIELDS'
             });
         }
 
-        if (!validateEmail(email)) {
+        const { data: fields, error: fieldError } = parseProfileFields(DOCTOR_PROFILE_FIELDS, req.body, ['name', 'age', 'gender', 'languages', 'contactNumber', 'whatsappNumber']);
+        if (fieldError) {
             return res.status(400).json({
                 success: false,
-                message: 'Invalid email format',
-                error: 'INVALID_EMAIL'
+                message: fieldError.message,
+                error: fieldError.code
             });
         }
 
-        const passwordValidation = validatePassword(password);
-        if (!passwordValidation.valid) {
-            return res.status(400).json({
+        // Check if doctor exists and has finished the earlier steps
+        const doctor = await prisma.doctor.findUnique({ where: { id: doctorId }, include: ONBOARDING_INCLUDE });
+        if (!doctor) {
+            return res.status(404).json({
                 success: false,
-                message: passwordValidation.error,
-                error: 'INVALID_PASSWORD'
+                message: 'Doctor account not found',
+                error: 'DOCTOR_NOT_FOUND'
             });
         }
 
-        // Check if doctor already exists
-        const existingDoctor = await prisma.doctor.findUnique({ where: { email } });
-        if (existingDoctor) {
-            // Check if onboarding is incomplete - allow re-registration
-            if (existingDoctor.onboardingStep !== OnboardingStep.COMPLETE) {
-                // Generate new OTP for incomplete user
-                const otp = generateOTP();
-                const otpExpiry = new Date(Date.now() + 10 * 60 * 1000); // 10 mins expiry
-                const hashedPassword = await bcrypt.hash(password, 10);
-
-                // Update existing incomplete account with new password and OTP
-                const updatedDoctor = await prisma.doctor.update({
-                    where: { email },
-                    data: {
-                        password: hashedPassword,
-                        otp,
-                        otpExpiry,
-                        onboardingStep: OnboardingStep.EMAIL_VERIFIED // Reset to email verification step
-                    }
-                });
-
-                // Send Email using Brevo API
-                if (!brevoApiInstance) {
-                    const isDev = process.env.NODE_ENV !== 'production';
-                    return res.status(200).json({
-                        success: true,
-                        message: 'Welcome back! Account updated successfully. OTP generated for verification.',
-                        data: {
-                            doctorId: updatedDoctor.id,
-                            mockOtp: isDev ? otp : undefined,
-                            isReturningIncompleteUser: true
-                        },
-                        note: 'Set BREVO_API_KEY environment variable to enable email sending'
-                    });
-                }
-
-                try {
-                    const sendSmtpEmail = new brevo.SendSmtpEmail();
-                    sendSmtpEmail.subject = 'Welcome Back to ECare+ - Verification Code';
-                    sendSmtpEmail.htmlContent = `
-                        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-                            <h2 style="color: #4CAF50;">Welcome Back to ECare+!</h2>
-                            <p>We noticed you didn't complete your registration. Let's finish setting up your profile.</p>
-                            <p>Your verification code is:</p>
-                            <h1 style="color: #2196F3; font-size: 32px; letter-spacing: 5px;">${otp}</h1>
-                            <p>This code will expire in 10 minutes.</p>
-                            <p>If you didn't request this code, please ignore this email.</p>
-                        </div>
-                    `;
-                    sendSmtpEmail.sender = { 
-                        name: 'ECare+', 
-                        email: process.env.EMAIL_USER || 'noreply@ecareplus.com' 
-                    };
-                    sendSmtpEmail.to = [{ email }];
-
-                    await brevoApiInstance.sendTransacEmail(sendSmtpEmail);
-                    console.log(`✅ Welcome back OTP email sent successfully to ${email}`);
-                } catch (emailError: any) {
-                    console.error('❌ Email send error:', emailError);
-                    const isDev = process.env.NODE_ENV !== 'production' || process.env.ALLOW_MOCK_OTP === 'true';
-                    if (isDev) {
-                        return res.status(200).json({
-                            success: true,
-                            message: 'Welcome back! Account updated. OTP generated (email failed)',
-                            data: {
-                                doctorId: updatedDoctor.id,
-                                mockOtp: otp,
-                                isReturningIncompleteUser: true
-                            },
-                            warning: 'Email service is not configured properly. Please set up BREVO_API_KEY environment variable.'
-                        });
-                    }
-                    return res.status(500).json({
-                        success: false,
-                        message: 'Failed to send verification email. Please try again later.',
-                        error: 'EMAIL_SEND_FAILED'
-                    });
-                }
-
-                return res.status(200).json({
-                    success: true,
-                    message: 'Welcome back! Account updated successfully. Verification code sent to your email.',
-                    data: {
-                        doctorId: updatedDoctor.id,
-                        isReturningIncompleteUser: true
-                    }
-                });
-            } else {
-                // Complete account exists
-                return res.status(409).json({
-                    success: false,
-                    message: 'An account with this email already exists and is fully registered. Please use the login option.',
-                    error: 'EMAIL_ALREADY_EXISTS_COMPLETE'
-                });
-            }
+        const blocked = doctorStepBlockedBy(doctor, 'PERSONAL_INFO');
+        if (blocked) {
+            return res.status(400).json({
+                success: false,
+                message: blocked,
+                error: 'INVALID_ONBOARDING_STEP'
+            });
         }
 
-        // Generate OTP
-        const otp = generateOTP();
-        const otpExpiry = new Date(Date.now() + 10 * 60 * 1000); // 10 mins expiry
-        const hashedPassword = await bcrypt.hash(password, 10);
-
-        // Create new doctor account
-        const doctor = await prisma.doctor.create({
+        const updatedDoctor = await prisma.doctor.update({
+            where: { id: doctorId },
+            // Moves on to the first step still missing data; revisiting keeps later progress
             data: {
-                email,
-                password: hashedPassword,
-                otp,
-                otpExpiry,
-                onboardingStep: OnboardingStep.EMAIL_VERIFIED
+                ...fields,
+                onboardingStep: doctorStateFor({ ...doctor, ...fields })
             },
         });
+        await syncVerifiedPhone(updatedDoctor.userId);
 
-        // Send Email using Brevo API
-        if (!brevoApiInstance) {
-            const isDev = process.env.NODE_ENV !== 'production';
-            return res.status(200).json({
-                success: true,
-                message: 'Account created successfully. OTP generated for verification.',
-                data: {
-                    doctorId: doctor.id,
-                    mockOtp: isDev ? otp : undefined
-                },
-                note: 'Set BREVO_API_KEY environment variable to enable email sending'
-            });
-        }
-
-        try {
-            const sendSmtpEmail = new brevo.SendSmtpEmail();
-            sendSmtpEmail.subject = 'Your ECare+ Verification Code';
-            sendSmtpEmail.htmlContent = `
-                <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-                    <h2 style="color: #4CAF50;">ECare+ Verification Code</h2>
-                    <p>Your verification code is:</p>
-                    <h1 style="color: #2196F3; font-size: 32px; letter-spacing: 5px;">${otp}</h1>
-                    <p>This code will expire in 10 minutes.</p>
-                    <p>If you didn't request this code, please ignore this email.</p>
-                </div>
-            `;
-            sendSmtpEmail.sender = { 
-                name: 'ECare+', 
-                email: process.env.EMAIL_USER || 'noreply@ecareplus.com' 
-            };
-            sendSmtpEmail.to = [{ email }];
-
-            await brevoApiInstance.sendTransacEmail(sendSmtpEmail);
-            console.log(`✅ OTP email sent successfully to ${email}`);
-        } catch (emailError: any) {
-            console.error('❌ Email send error:', emailError);
-            // Return OTP in response if email fails (for development/testing)
-            const isDev = process.env.NODE_ENV !== 'production' || process.env.ALLOW_MOCK_OTP === 'true';
-            if (isDev) {
-                return res.status(200).json({
-                    success: true,
-                    message: 'Account created. OTP generated (email failed)',
-                    data: {
-                        doctorId: doctor.id,
-                        mockOtp: otp
-                    },
-                    warning: 'Email service is not configured properly. Please set up BREVO_API_KEY environment variable.'
-                });
-            }
-            return res.status(500).json({
-                success: false,
-                message: 'Failed to send verification email. Please try again later.',
-                error: 'EMAIL_SEND_FAILED'
-            });
-        }
-
-        return res.status(201).json({
+        return res.status(200).json({
             success: true,
-            message: 'Account created successfully. Verification code sent to your email.',
+            message: 'Personal information saved successfully',
             data: {
-                doctorId: doctor.id
+                doctorId: updatedDoctor.id,
+                onboardingStep: updatedDoctor.onboardingStep
             }
         });
     } catch (error) {
-        console.error('Authentication error:', error);
+        console.error('Personal info error:', error);
         return res.status(500).json({
             success: false,
-            message: 'An error occurred during account creation',
+            message: 'An error occurred while saving personal information',
             error: 'INTERNAL_SERVER_ERROR'
         });
     }
 };
 
-// Verify OTP
-export const verifyOtp = async (req: Request, res: Response) => {
+// Professional Info: Specialties, Years of Experience, Qualifications. Specialties and
+// qualifications come from the catalogues (GET /specialties, GET /qualifications); the older
+// single specialty/latestQualification strings are still accepted.
+export const onboardingProfessionalInfo = async (req: Request, res: Response) => {
     try {
-        const { email, otp } = req.body;
+        const body = withLegacyDoctorFields(req.body ?? {});
+        const { doctorId, specialties, yearsOfExperience, qualifications } = body;
 
-        if (!email || !otp) {
+        // Validation
+        if (!doctorId || !specialties || yearsOfExperience === undefined || !qualifications) {
             return res.status(400).json({
                 success: false,
-                message: 'Email and OTP are required',
+                message: 'All fields are required: specialties, yearsOfExperience, qualifications',
                 error: 'MISSING_FIELDS'
             });
         }
 
-        if (!validateEmail(email)) {
+        const { data: fields, error: fieldError } = parseProfileFields(DOCTOR_PROFILE_FIELDS, body, ['specialties', 'yearsOfExperience', 'qualifications']);
+        if (fieldError) {
             return res.status(400).json({
                 success: false,
-                message: 'Invalid email format',
-                error: 'INVALID_EMAIL'
+                message: fieldError.message,
+                error: fieldError.code
             });
         }
 
-        if (!/^\d{6}$/.test(otp)) {
+        const { selection, error: catalogueError } = await resolveDoctorCatalogue({ specialties: fields.specialties, qualifications: fields.qualifications });
+        if (catalogueError) {
             return res.status(400).json({
                 success: false,
-                message: 'OTP must be a 6-digit number',
-                error: 'INVALID_OTP_FORMAT'
+                message: catalogueError.message,
+                error: catalogueError.code
             });
         }
 
-        const doctor = await prisma.doctor.findUnique({ where: { email } });
+        // Check if doctor exists and has finished the earlier steps
+        const doctor = await prisma.doctor.findUnique({ where: { id: doctorId }, include: ONBOARDING_INCLUDE });
         if (!doctor) {
             return res.status(404).json({
                 success: false,
-                message: 'Account not found. Please sign up first.',
+                message: 'Doctor account not found',
                 error: 'DOCTOR_NOT_FOUND'
             });
         }
 
-        if (!doctor.otp) {
+        const blocked = doctorStepBlockedBy(doctor, 'PROFESSIONAL_INFO');
+        if (blocked) {
             return res.status(400).json({
                 success: false,
-                message: 'No OTP found. Please request a new verification code.',
-                error: 'OTP_NOT_FOUND'
-            });
-        }
-
-        if (doctor.otp !== otp) {
-            return res.status(400).json({
-                success: false,
-                message: 'Invalid verification code. Please check and try again.',
-                error: 'INVALID_OTP'
-            });
-        }
-
-        if (doctor.otpExpiry && new Date() > doctor.otpExpiry) {
-            return res.status(400).json({
-                success: false,
-                message: 'Verification code has expired. Please request a new code.',
-                error: 'OTP_EXPIRED'
+                message: blocked,
+                error: 'INVALID_ONBOARDING_STEP'
             });
         }
 
-        // OTP Verified - Update step and generate JWT
-        await prisma.doctor.update({
-            where: { email },
+        const columns = { yearsOfExperience: fields.yearsOfExperience, ...catalogueColumns(selection) };
+        const updatedDoctor = await prisma.doctor.update({
+            where: { id: doctorId },
             data: {
-                otp: null,
-                otpExpiry: null,
-                onboardingStep: OnboardingStep.PERSONAL_INFO_COMPLETE
-            }
+                ...columns,
+                ...catalogueRelationWrites(selection),
+                onboardingStep: doctorStateFor({ ...doctor, ...columns })
+            },
         });
 
-        const token = generateJWT(doctor.id, doctor.email);
-
         return res.status(200).json({
             success: true,
-            message: 'Email verified successfully. You can now proceed with onboarding.',
+            message: 'Professional information saved successfully',
             data: {
-                doctorId: doctor.id,
-                token,
-                onboardingStep: OnboardingStep.PERSONAL_INFO_COMPLETE
+                doctorId: updatedDoctor.id,
+                onboardingStep: updatedDoctor.onboardingStep
             }
         });
-
     } catch (error) {
-        console.error('Verify OTP error:', error);
+        console.error('Professional info error:', error);
         return res.status(500).json({
             success: false,
-            message: 'An error occurred during verification',
+            message: 'An error occurred while saving professional information',
             error: 'INTERNAL_SERVER_ERROR'
         });
     }
 };
 
-// Personal Info: Name, Age, Gender, Language, Phone Number
-export const onboardingPersonalInfo = async (req: Request, res: Response) => {
-    try {
-        const { doctorId, name, age, gender, languages, contactNumber, whatsappNumber } = req.body;
+// Normalize availability input into schedule windows. Accepts a structured `schedule`
+// or the original availableDays + availableTiming pair (applied to every listed day).
+const resolveScheduleInput = (body: unknown): { windows?: ScheduleWindowLike[]; error?: { message: string; code: string } } => {
+    const { schedule, availableDays, availableTiming } = (body ?? {}) as Record<string, unknown>;
 
-        // Validation
-        if (!doctorId || !name || !age || !gender || !languages || !contactNumber || !whatsappNumber) {
-            return res.status(400).json({
-                success: false,
-                message: 'All fields are required: name, age, gender, languages, contactNumber, whatsappNumber',
-                error: 'MISSING_FIELDS'
-            });
+    if (schedule !== undefined) {
+        const scheduleError = validateSchedule(schedule);
+        if (scheduleError) {
+            return { error: { message: scheduleError, code: 'INVALID_SCHEDULE' } };
         }
 
-        if (typeof name !== 'string' || name.trim().length < 2) {
-            return res.status(400).json({
-                success: false,
-                message: 'Name must be at least 2 characters long',
-                error: 'INVALID_NAME'
-            });
+        // validateSchedule has checked every window's fields
+        return {
+            windows: (schedule as ScheduleWindowLike[]).map(w => ({
+                dayOfWeek: w.dayOfWeek,
+                startTime: w.startTime.trim(),
+                endTime: w.endTime.trim(),
+                clinicAddress: typeof w.clinicAddress === 'string' ? w.clinicAddress.trim() : null
+            }))
+        };
+    }
+
+    if (!availableDays || !availableTiming) {
+        return { error: { message: 'Either schedule or availableDays and availableTiming are required', code: 'MISSING_FIELDS' } };
+    }
+
+    if (!Array.isArray(availableDays) || availableDays.length === 0) {
+        return { error: { message: 'At least one available day is required', code: 'INVALID_AVAILABLE_DAYS' } };
+    }
+
+    // Validate each day
+    const validDays = Object.values(DayOfWeek);
+    for (const day of availableDays) {
+        if (!validDays.includes(day)) {
+            return { error: { message: `Invalid day: ${day}. Must be one of: ${validDays.join(', ')}`, code: 'INVALID_DAY' } };
         }
+    }
+
+    if (typeof availableTiming !== 'string' || !validateTiming(availableTiming)) {
+        return { error: { message: 'Invalid timing format. Use format: HH:MM-HH:MM with end after start (e.g., 09:00-17:00)', code: 'INVALID_TIMING' } };
+    }
+
+    return {
+        windows: getScheduleWindows({ availableDays: Array.from(new Set(availableDays)) as DayOfWeek[], availableTiming })
+    };
+};
 
-        const ageNum = Number(age);
-        if (isNaN(ageNum) || !validateAge(ageNum)) {
+// Availability: Location (optionally with coordinates), weekly schedule (or Available Days + Timing)
+export const onboardingAvailability = async (req: Request, res: Response) => {
+    try {
+        const { doctorId, address, city, locality, latitude, longitude } = req.body;
+
+        // Validation
+        if (!doctorId || !address || !city || !locality) {
             return res.status(400).json({
                 success: false,
-                message: 'Age must be between 18 and 100',
-                error: 'INVALID_AGE'
+                message: 'All fields are required: address, city, locality, and schedule (or availableDays and availableTiming)',
+                error: 'MISSING_FIELDS'
             });
         }
 
-        if (!Object.values(Gender).includes(gender)) {
+        const { data: fields, error: fieldError } = parseProfileFields(DOCTOR_PROFILE_FIELDS, req.body, ['address', 'city', 'locality']);
+        if (fieldError) {
             return res.status(400).json({
                 success: false,
-                message: `Gender must be one of: ${Object.values(Gender).join(', ')}`,
-                error: 'INVALID_GENDER'
+                message: fieldError.message,
+                error: fieldError.code
             });
         }
 
-        if (!Array.isArray(languages) || languages.length === 0) {
+        if ((latitude === undefined) !== (longitude === undefined)) {
             return res.status(400).json({
                 success: false,
-                message: 'At least one language is required',
-                error: 'INVALID_LANGUAGES'
+                message: 'Latitude and longitude must be provided together',
+                error: 'INVALID_COORDINATES'
             });
         }
 
-        if (!validatePhoneNumber(contactNumber)) {
+        if (latitude !== undefined && (!isValidLatitude(Number(latitude)) || !isValidLongitude(Number(longitude)))) {
             return res.status(400).json({
                 success: false,
-                message: 'Invalid contact number format',
-                error: 'INVALID_CONTACT_NUMBER'
+                message: 'Latitude must be between -90 and 90 and longitude between -180 and 180',
+                error: 'INVALID_COORDINATES'
             });
         }
 
-        if (!validatePhoneNumber(whatsappNumber)) {
+        const { windows, error: scheduleError } = resolveScheduleInput(req.body);
+        if (scheduleError || !windows) {
             return res.status(400).json({
                 success: false,
-                message: 'Invalid WhatsApp number format',
-                error: 'INVALID_WHATSAPP_NUMBER'
+                message: scheduleError?.message,
+                error: scheduleError?.code
             });
         }
 
-        // Check if doctor exists and is at correct step
-        const doctor = await prisma.doctor.findUnique({ where: { id: doctorId } });
+        // Check if doctor exists and has finished the earlier steps
+        const doctor = await prisma.doctor.findUnique({ where: { id: doctorId }, include: ONBOARDING_INCLUDE });
         if (!doctor) {
             return res.status(404).json({
                 success: false,
@@ -466,352 +278,665 @@ export const onboardingPersonalInfo = async (req: Request, res: Response) => {
             });
         }
 
-        if (doctor.onboardingStep !== OnboardingStep.PERSONAL_INFO_COMPLETE) {
+        const blocked = doctorStepBlockedBy(doctor, 'AVAILABILITY');
+        if (blocked) {
             return res.status(400).json({
                 success: false,
-                message: 'Please complete email verification first',
+                message: blocked,
                 error: 'INVALID_ONBOARDING_STEP'
             });
         }
 
-        const updatedDoctor = await prisma.doctor.update({
-            where: { id: doctorId },
-            data: {
-                name: name.trim(),
-                age: ageNum,
-                gender: gender as Gender,
-                languages: languages.map((lang: string) => lang.trim()),
-                contactNumber: contactNumber.trim(),
-                whatsappNumber: whatsappNumber.trim(),
-                onboardingStep: OnboardingStep.PROFESSIONAL_INFO_COMPLETE
-            },
-        });
+        const coordinates = await resolveCoordinates({ latitude, longitude, city, locality });
+        const onboardingStep = doctorStateFor({ ...doctor, ...fields, _count: { scheduleWindows: windows.length } });
+
+        const [, , updatedDoctor] = await prisma.$transaction([
+            prisma.scheduleWindow.deleteMany({ where: { doctorId } }),
+            prisma.scheduleWindow.createMany({ data: windows.map(w => ({ ...w, doctorId })) }),
+            prisma.doctor.update({
+                where: { id: doctorId },
+                data: {
+                    ...fields,
+                    ...coordinates,
+                    ...summarizeSchedule(windows),
+                    onboardingStep
+                },
+                include: { user: { select: { email: true } } }
+            })
+        ]);
+        // Going back to edit availability later doesn't count as finishing again
+        if (doctor.onboardingStep !== OnboardingStep.COMPLETE && onboardingStep === OnboardingStep.COMPLETE) {
+            void notifyOnboardingCompleted('doctor', updatedDoctor.id);
+        }
 
+        // Saving availability only finishes onboarding once every other step is done too
         return res.status(200).json({
             success: true,
-            message: 'Personal information saved successfully',
+            message: onboardingStep === OnboardingStep.COMPLETE
+                ? 'Onboarding completed successfully! Welcome to ECare+.'
+                : 'Availability information saved successfully',
             data: {
                 doctorId: updatedDoctor.id,
-                onboardingStep: updatedDoctor.onboardingStep
+                onboardingStep: updatedDoctor.onboardingStep,
+                email: updatedDoctor.user.email,
+                name: updatedDoctor.name
             }
         });
     } catch (error) {
-        console.error('Personal info error:', error);
+        console.error('Availability error:', error);
         return res.status(500).json({
             success: false,
-            message: 'An error occurred while saving personal information',
+            message: 'An error occurred while saving availability information',
             error: 'INTERNAL_SERVER_ERROR'
         });
     }
 };
 
-// Professional Info: Specialty, Years of Experience, Recent Grad
-export const onboardingProfessionalInfo = async (req: Request, res: Response) => {
+// Location fields that move the practice on the map
+const LOCATION_FIELDS = ['city', 'locality', 'latitude', 'longitude'];
+
+// Edit the logged-in doctor's profile after onboarding. Any subset of the onboarding fields
+// (plus latitude/longitude) can be sent; each is checked like it was during onboarding and the
+// changes are recorded in the audit trail. Specialties and qualifications replace the whole
+// list when sent. The weekly schedule has its own endpoint.
+export const updateMyProfile = async (req: Request, res: Response) => {
     try {
-        const { doctorId, specialty, yearsOfExperience, latestQualification } = req.body;
+        const doctorId = req.principal!.id;
+        const body = withLegacyDoctorFields(req.body ?? {});
+        const { latitude, longitude } = body;
 
-        // Validation
-        if (!doctorId || !specialty || yearsOfExperience === undefined || !latestQualification) {
+        const editable = [...Object.keys(DOCTOR_PROFILE_FIELDS), 'latitude', 'longitude'];
+        if (Object.keys(body).length === 0) {
             return res.status(400).json({
                 success: false,
-                message: 'All fields are required: specialty, yearsOfExperience, latestQualification',
+                message: `Send at least one field to update: ${editable.join(', ')}`,
                 error: 'MISSING_FIELDS'
             });
         }
 
-        if (typeof specialty !== 'string' || specialty.trim().length < 2) {
+        const unknownFields = Object.keys(body).filter(field => !editable.includes(field));
+        if (unknownFields.length > 0) {
             return res.status(400).json({
                 success: false,
-                message: 'Specialty must be at least 2 characters long',
-                error: 'INVALID_SPECIALTY'
+                message: `These fields can't be edited here: ${unknownFields.join(', ')}. Editable fields: ${editable.join(', ')}`,
+                error: 'UNKNOWN_FIELDS'
             });
         }
 
-        const yoe = Number(yearsOfExperience);
-        if (isNaN(yoe) || yoe < 0 || yoe > 50) {
+        const { data: fields, error: fieldError } = parseProfileFields(DOCTOR_PROFILE_FIELDS, body);
+        if (fieldError) {
             return res.status(400).json({
                 success: false,
-                message: 'Years of experience must be between 0 and 50',
-                error: 'INVALID_YEARS_OF_EXPERIENCE'
+                message: fieldError.message,
+                error: fieldError.code
             });
         }
 
-        if (typeof latestQualification !== 'string' || latestQualification.trim().length < 2) {
+        if ((latitude === undefined) !== (longitude === undefined)) {
             return res.status(400).json({
                 success: false,
-                message: 'Latest qualification must be at least 2 characters long',
-                error: 'INVALID_QUALIFICATION'
+                message: 'Latitude and longitude must be provided together',
+                error: 'INVALID_COORDINATES'
             });
         }
 
-        // Check if doctor exists and is at correct step
-        const doctor = await prisma.doctor.findUnique({ where: { id: doctorId } });
-        if (!doctor) {
+        if (latitude !== undefined && (!isValidLatitude(Number(latitude)) || !isValidLongitude(Number(longitude)))) {
+            return res.status(400).json({
+                success: false,
+                message: 'Latitude must be between -90 and 90 and longitude between -180 and 180',
+                error: 'INVALID_COORDINATES'
+            });
+        }
+
+        const { specialties, qualifications, ...columnFields } = fields;
+        const { selection, error: catalogueError } = await resolveDoctorCatalogue({ specialties, qualifications });
+        if (catalogueError) {
+            return res.status(400).json({
+                success: false,
+                message: catalogueError.message,
+                error: catalogueError.code
+            });
+        }
+
+        const current = await prisma.doctor.findUnique({ where: { id: doctorId }, include: DOCTOR_CATALOGUE_INCLUDE });
+        if (!current) {
             return res.status(404).json({
                 success: false,
                 message: 'Doctor account not found',
                 error: 'DOCTOR_NOT_FOUND'
             });
         }
-
-        if (doctor.onboardingStep !== OnboardingStep.PROFESSIONAL_INFO_COMPLETE) {
+        // Until onboarding is done the wizard steps fill the profile, and keep onboardingStep in step
+        if (current.onboardingStep !== OnboardingStep.COMPLETE) {
             return res.status(400).json({
                 success: false,
-                message: 'Please complete personal information first',
-                error: 'INVALID_ONBOARDING_STEP'
+                message: 'Please complete onboarding before editing your profile',
+                error: 'ONBOARDING_INCOMPLETE'
             });
         }
+        const { specialties: _specialties, qualifications: _qualifications, ...doctor } = current;
 
-        const updatedDoctor = await prisma.doctor.update({
-            where: { id: doctorId },
-            data: {
-                specialty: specialty.trim(),
-                yearsOfExperience: yoe,
-                latestQualification: latestQualification.trim(),
-                onboardingStep: OnboardingStep.AVAILABILITY_COMPLETE
-            },
-        });
+        const update: Record<string, unknown> = { ...columnFields, ...catalogueColumns(selection) };
+
+        // A new city or locality without coordinates is looked up again, as in onboarding
+        if (Object.keys(body).some(field => LOCATION_FIELDS.includes(field))) {
+            const city = fields.city ?? doctor.city;
+            const locality = fields.locality ?? doctor.locality;
+            if (latitude !== undefined || (city && locality)) {
+                Object.assign(update, await resolveCoordinates({ latitude, longitude, city: city ?? '', locality: locality ?? '' }));
+            }
+        }
+
+        // Catalogue entries are compared and audited by name
+        const changes = diffProfile(
+            { ...doctor, ...catalogueLabels(currentCatalogue(current)) },
+            { ...update, ...catalogueLabels(selection) }
+        );
+        if (Object.keys(changes).length === 0) {
+            return res.status(200).json({
+                success: true,
+                message: 'No changes to save',
+                data: { doctorId, changedFields: [] }
+            });
+        }
+
+        await prisma.$transaction([
+            prisma.doctor.update({
+                where: { id: doctorId },
+                data: {
+                    ...Object.fromEntries(Object.keys(changes).filter(field => field in update).map(field => [field, update[field]])),
+                    ...catalogueRelationWrites({
+                        specialties: changes.specialties ? selection.specialties : undefined,
+                        qualifications: changes.qualifications ? selection.qualifications : undefined
+                    })
+                }
+            }),
+            prisma.profileChange.create({
+                data: {
+                    role: 'doctor',
+                    profileId: doctorId,
+                    actorType: req.principal!.type,
+                    actorId: req.principal!.id,
+                    changes: changes as Prisma.InputJsonObject,
+                    ipAddress: req.ip ?? null
+                }
+            })
+        ]);
+
+        // Edited numbers lose or gain their verified flag against the account phone
+        if (changes.contactNumber || changes.whatsappNumber) {
+            await syncVerifiedPhone(doctor.userId);
+        }
 
         return res.status(200).json({
             success: true,
-            message: 'Professional information saved successfully',
-            data: {
-                doctorId: updatedDoctor.id,
-                onboardingStep: updatedDoctor.onboardingStep
-            }
+            message: 'Profile updated successfully',
+            data: { doctorId, changedFields: Object.keys(changes) }
         });
     } catch (error) {
-        console.error('Professional info error:', error);
+        console.error('Update doctor profile error:', error);
         return res.status(500).json({
             success: false,
-            message: 'An error occurred while saving professional information',
+            message: 'An error occurred while updating the profile',
             error: 'INTERNAL_SERVER_ERROR'
         });
     }
 };
 
-// Availability: Location, Available Days, Timing
-export const onboardingAvailability = async (req: Request, res: Response) => {
+// Search filters and sorting for the doctor listing
+const DOCTOR_SORT_OPTIONS: Record<string, Prisma.DoctorOrderByWithRelationInput> = {
+    experience: { yearsOfExperience: 'desc' },
+    views: { viewCount: 'desc' },
+    newest: { createdAt: 'desc' }
+};
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Doctor listing: ?specialty=&city=&locality=&languages=Hindi,English&gender=&minExperience=
+// &availableOn=MONDAY&sort=experience|views|newest&limit=20&cursor=<last doctor id>
+// The public listing only shows verified doctors who finished onboarding; the admin listing shows everyone.
+const listDoctors = (options: { includeIncomplete: boolean }) => async (req: Request, res: Response) => {
     try {
-        const { doctorId, address, city, locality, availableDays, availableTiming } = req.body;
+        const { specialty, city, locality, languages, gender, minExperience, availableOn, sort, limit, cursor } = req.query;
 
-        // Validation
-        if (!doctorId || !address || !city || !locality || !availableDays || !availableTiming) {
-            return res.status(400).json({
-                success: false,
-                message: 'All fields are required: address, city, locality, availableDays, availableTiming',
-                error: 'MISSING_FIELDS'
-            });
+        const where: Prisma.DoctorWhereInput = options.includeIncomplete
+            ? {}
+            : { onboardingStep: OnboardingStep.COMPLETE, verificationStatus: VerificationStatus.APPROVED };
+
+        // Any catalogue name, synonym or slug; a specialty includes its sub-specialties
+        if (typeof specialty === 'string' && specialty.trim()) {
+            const specialtyIds = await specialtyFilterIds(specialty);
+            if (!specialtyIds) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Unknown specialty. See GET /specialties for the list',
+                    error: 'INVALID_SPECIALTY'
+                });
+            }
+            where.specialties = { some: { specialtyId: { in: specialtyIds } } };
         }
 
-        if (typeof address !== 'string' || address.trim().length < 5) {
-            return res.status(400).json({
-                success: false,
-                message: 'Address must be at least 5 characters long',
-                error: 'INVALID_ADDRESS'
-            });
+        if (typeof city === 'string' && city.trim()) {
+            where.city = { equals: city.trim(), mode: 'insensitive' };
         }
 
-        if (typeof city !== 'string' || city.trim().length < 2) {
-            return res.status(400).json({
-                success: false,
-                message: 'City must be at least 2 characters long',
-                error: 'INVALID_CITY'
-            });
+        if (typeof locality === 'string' && locality.trim()) {
+            where.locality = { equals: locality.trim(), mode: 'insensitive' };
         }
 
-        if (typeof locality !== 'string' || locality.trim().length < 2) {
-            return res.status(400).json({
-                success: false,
-                message: 'Locality must be at least 2 characters long',
-                error: 'INVALID_LOCALITY'
-            });
+        if (typeof languages === 'string' && languages.trim()) {
+            where.languages = { hasSome: languages.split(',').map(lang => lang.trim()).filter(Boolean) };
         }
 
-        if (!Array.isArray(availableDays) || availableDays.length === 0) {
-            return res.status(400).json({
-                success: false,
-                message: 'At least one available day is required',
-                error: 'INVALID_AVAILABLE_DAYS'
-            });
+        if (gender !== undefined) {
+            if (!Object.values(Gender).includes(gender as Gender)) {
+                return res.status(400).json({
+                    success: false,
+                    message: `Gender must be one of: ${Object.values(Gender).join(', ')}`,
+                    error: 'INVALID_GENDER'
+                });
+            }
+            where.gender = gender as Gender;
+        }
+
+        if (minExperience !== undefined) {
+            const yoe = Number(minExperience);
+            if (isNaN(yoe) || yoe < 0 || yoe > 50) {
+                return res.status(400).json({
+                    success: false,
+                    message: 'minExperience must be between 0 and 50',
+                    error: 'INVALID_YEARS_OF_EXPERIENCE'
+                });
+            }
+            where.yearsOfExperience = { gte: yoe };
         }
 
-        // Validate each day
-        const validDays = Object.values(DayOfWeek);
-        for (const day of availableDays) {
-            if (!validDays.includes(day)) {
+        if (availableOn !== undefined) {
+            if (!Object.values(DayOfWeek).includes(availableOn as DayOfWeek)) {
                 return res.status(400).json({
                     success: false,
-                    message: `Invalid day: ${day}. Must be one of: ${validDays.join(', ')}`,
+                    message: `availableOn must be one of: ${Object.values(DayOfWeek).join(', ')}`,
                     error: 'INVALID_DAY'
                 });
             }
+            where.availableDays = { has: availableOn as DayOfWeek };
         }
 
-        if (!validateTiming(availableTiming)) {
+        const sortKey = sort === undefined ? 'newest' : String(sort);
+        const orderBy = DOCTOR_SORT_OPTIONS[sortKey];
+        if (!orderBy) {
             return res.status(400).json({
                 success: false,
-                message: 'Invalid timing format. Use format: HH:MM-HH:MM (e.g., 09:00-17:00)',
-                error: 'INVALID_TIMING'
+                message: `Sort must be one of: ${Object.keys(DOCTOR_SORT_OPTIONS).join(', ')}`,
+                error: 'INVALID_SORT'
             });
         }
 
-        // Check if doctor exists and is at correct step
-        const doctor = await prisma.doctor.findUnique({ where: { id: doctorId } });
-        if (!doctor) {
-            return res.status(404).json({
+        const pageSize = limit === undefined ? DEFAULT_PAGE_SIZE : Number(limit);
+        if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+            return res.status(400).json({
                 success: false,
-                message: 'Doctor account not found',
-                error: 'DOCTOR_NOT_FOUND'
+                message: `Limit must be between 1 and ${MAX_PAGE_SIZE}`,
+                error: 'INVALID_LIMIT'
             });
         }
 
-        if (doctor.onboardingStep !== OnboardingStep.AVAILABILITY_COMPLETE) {
+        if (cursor !== undefined && typeof cursor !== 'string') {
             return res.status(400).json({
                 success: false,
-                message: 'Please complete professional information first',
-                error: 'INVALID_ONBOARDING_STEP'
+                message: 'Invalid cursor',
+                error: 'INVALID_CURSOR'
             });
         }
 
-        const updatedDoctor = await prisma.doctor.update({
-            where: { id: doctorId },
-            data: {
-                address: address.trim(),
-                city: city.trim(),
-                locality: locality.trim(),
-                availableDays: availableDays as DayOfWeek[],
-                availableTiming: availableTiming.trim(),
-                onboardingStep: OnboardingStep.COMPLETE
-            },
-        });
+        const [total, doctors] = await Promise.all([
+            prisma.doctor.count({ where }),
+            prisma.doctor.findMany({
+                where,
+                // id breaks ties so the cursor position is stable
+                orderBy: [orderBy, { id: 'asc' }],
+                take: pageSize + 1,
+                ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+                select: {
+                    id: true,
+                    user: options.includeIncomplete ? { select: { email: true } } : false,
+                    name: true,
+                    age: true,
+                    gender: true,
+                    languages: true,
+                    specialty: true,
+                    yearsOfExperience: true,
+                    city: true,
+                    locality: true,
+                    availableDays: true,
+                    viewCount: true,
+                    onboardingStep: true,
+                    verificationStatus: true,
+                    createdAt: true
+                }
+            })
+        ]);
+
+        // One extra row tells us whether another page exists
+        const hasMore = doctors.length > pageSize;
+        const page = hasMore ? doctors.slice(0, pageSize) : doctors;
 
         return res.status(200).json({
             success: true,
-            message: 'Onboarding completed successfully! Welcome to ECare+.',
-            data: {
-                doctorId: updatedDoctor.id,
-                onboardingStep: updatedDoctor.onboardingStep,
-                email: updatedDoctor.email,
-                name: updatedDoctor.name
-            }
+            message: 'Doctors fetched successfully',
+            data: page.map(withEmail),
+            count: page.length,
+            total,
+            nextCursor: hasMore ? page[page.length - 1].id : null
         });
-    } catch (error) {
-        console.error('Availability error:', error);
+    } catch (error: any) {
+        // Unknown cursor id
+        if (error.code === 'P2025') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid cursor',
+                error: 'INVALID_CURSOR'
+            });
+        }
+        console.error('Fetch all doctors error:', error);
         return res.status(500).json({
             success: false,
-            message: 'An error occurred while saving availability information',
+            message: 'An error occurred while fetching doctors',
             error: 'INTERNAL_SERVER_ERROR'
         });
     }
 };
 
-// Login: Email + Password
-export const login = async (req: Request, res: Response) => {
+export const fetchAll = listDoctors({ includeIncomplete: false });
+export const fetchAllForAdmin = listDoctors({ includeIncomplete: true });
+
+// Fuzzy search: ?q=dermatolgist&limit=20&offset=0
+// Each query word is matched against name, specialty, qualification, locality and city with
+// pg_trgm word similarity (tolerates typos); a doctor's score is the average best match per word.
+// Specialties also match on their catalogue synonyms, so "heart" finds cardiologists.
+const SEARCH_MIN_SCORE = 0.3;
+const SEARCH_STOPWORDS = ['dr', 'doctor', 'in', 'near', 'at', 'the', 'a', 'of'];
+
+export const searchDoctors = async (req: Request, res: Response) => {
     try {
-        const { email, password } = req.body;
+        const { q, limit, offset } = req.query;
 
-        if (!email || !password) {
+        if (typeof q !== 'string' || q.trim().length < 2) {
             return res.status(400).json({
                 success: false,
-                message: 'Email and password are required',
-                error: 'MISSING_FIELDS'
+                message: 'Search query must be at least 2 characters long',
+                error: 'INVALID_QUERY'
             });
         }
 
-        if (!validateEmail(email)) {
+        const pageSize = limit === undefined ? DEFAULT_PAGE_SIZE : Number(limit);
+        if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
             return res.status(400).json({
                 success: false,
-                message: 'Invalid email format',
-                error: 'INVALID_EMAIL'
+                message: `Limit must be between 1 and ${MAX_PAGE_SIZE}`,
+                error: 'INVALID_LIMIT'
             });
         }
 
-        const doctor = await prisma.doctor.findUnique({ where: { email } });
-        if (!doctor) {
-            return res.status(401).json({
+        const skip = offset === undefined ? 0 : Number(offset);
+        if (!Number.isInteger(skip) || skip < 0) {
+            return res.status(400).json({
                 success: false,
-                message: 'Invalid email or password',
-                error: 'INVALID_CREDENTIALS'
+                message: 'Offset must be a non-negative integer',
+                error: 'INVALID_OFFSET'
             });
         }
 
-        if (!doctor.password) {
-            return res.status(401).json({
-                success: false,
-                message: 'Invalid email or password',
-                error: 'INVALID_CREDENTIALS'
-            });
-        }
+        const words = q.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+        // "Dr Sharma" should match on "sharma"; keep stopwords only if nothing else is left
+        const meaningful = words.filter(word => !SEARCH_STOPWORDS.includes(word));
+        const tokens = (meaningful.length > 0 ? meaningful : words).slice(0, 8);
 
-        const isPasswordValid = await bcrypt.compare(password, doctor.password);
-        if (!isPasswordValid) {
-            return res.status(401).json({
+        if (tokens.length === 0) {
+            return res.status(400).json({
                 success: false,
-                message: 'Invalid email or password',
-                error: 'INVALID_CREDENTIALS'
+                message: 'Search query must contain letters or numbers',
+                error: 'INVALID_QUERY'
             });
         }
 
-        const token = generateJWT(doctor.id, doctor.email);
+        const ranked = await prisma.$queryRaw<Array<{ id: string; score: number; total: bigint }>>`
+            WITH tokens AS (SELECT unnest(${tokens}::text[]) AS token),
+            scored AS (
+                SELECT d."id", d."viewCount", AVG(GREATEST(
+                    word_similarity(t.token, lower(coalesce(d."name", ''))),
+                    word_similarity(t.token, lower(coalesce(d."specialty", ''))),
+                    word_similarity(t.token, coalesce(c."terms", '')),
+                    word_similarity(t.token, lower(coalesce(d."latestQualification", ''))) * 0.9,
+                    word_similarity(t.token, lower(coalesce(d."locality", ''))) * 0.8,
+                    word_similarity(t.token, lower(coalesce(d."city", ''))) * 0.8
+                ))::float AS score
+                FROM "Doctor" d
+                LEFT JOIN LATERAL (
+                    SELECT string_agg(lower(s."name") || ' ' || array_to_string(s."synonyms", ' '), ' ') AS "terms"
+                    FROM "DoctorSpecialty" ds JOIN "Specialty" s ON s."id" = ds."specialtyId"
+                    WHERE ds."doctorId" = d."id"
+                ) c ON true
+                CROSS JOIN tokens t
+                WHERE d."onboardingStep" = 'COMPLETE' AND d."verificationStatus" = 'APPROVED'
+                GROUP BY d."id", d."viewCount"
+            )
+            SELECT "id", "score", COUNT(*) OVER() AS total
+            FROM scored
+            WHERE "score" >= ${SEARCH_MIN_SCORE}
+            ORDER BY "score" DESC, "viewCount" DESC, "id" ASC
+            LIMIT ${pageSize} OFFSET ${skip}
+        `;
+
+        const doctors = await prisma.doctor.findMany({
+            where: { id: { in: ranked.map(row => row.id) } },
+            select: {
+                id: true,
+                name: true,
+                gender: true,
+                languages: true,
+                specialty: true,
+                yearsOfExperience: true,
+                latestQualification: true,
+                city: true,
+                locality: true,
+                availableDays: true,
+                viewCount: true
+            }
+        });
+
+        // Restore ranking order and attach the match score
+        const doctorsById = new Map(doctors.map(doctor => [doctor.id, doctor]));
+        const results = ranked
+            .filter(row => doctorsById.has(row.id))
+            .map(row => ({ ...doctorsById.get(row.id), score: Math.round(row.score * 1000) / 1000 }));
 
         return res.status(200).json({
             success: true,
-            message: 'Login successful',
-            data: {
-                doctorId: doctor.id,
-                token,
-                email: doctor.email,
-                name: doctor.name,
-                onboardingStep: doctor.onboardingStep
-            }
+            message: 'Search completed successfully',
+            data: results,
+            count: results.length,
+            total: ranked.length > 0 ? Number(ranked[0].total) : 0
         });
     } catch (error) {
-        console.error('Login error:', error);
+        console.error('Search doctors error:', error);
         return res.status(500).json({
             success: false,
-            message: 'An error occurred during login',
+            message: 'An error occurred while searching doctors',
             error: 'INTERNAL_SERVER_ERROR'
         });
     }
 };
 
-// Fetch all doctors
-export const fetchAll = async (req: Request, res: Response) => {
+// Doctors near a point: ?lat=&lng=&radiusKm=10&limit=20, sorted by great-circle distance
+const DEFAULT_RADIUS_KM = 10;
+const MAX_RADIUS_KM = 100;
+
+export const fetchNearby = async (req: Request, res: Response) => {
     try {
+        const { lat, lng, radiusKm, limit } = req.query;
+
+        if (lat === undefined || lng === undefined) {
+            return res.status(400).json({
+                success: false,
+                message: 'lat and lng are required',
+                error: 'MISSING_FIELDS'
+            });
+        }
+
+        const latitude = Number(lat);
+        const longitude = Number(lng);
+        if (!isValidLatitude(latitude) || !isValidLongitude(longitude)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Latitude must be between -90 and 90 and longitude between -180 and 180',
+                error: 'INVALID_COORDINATES'
+            });
+        }
+
+        const radius = radiusKm === undefined ? DEFAULT_RADIUS_KM : Number(radiusKm);
+        if (isNaN(radius) || radius <= 0 || radius > MAX_RADIUS_KM) {
+            return res.status(400).json({
+                success: false,
+                message: `radiusKm must be greater than 0 and at most ${MAX_RADIUS_KM}`,
+                error: 'INVALID_RADIUS'
+            });
+        }
+
+        const pageSize = limit === undefined ? DEFAULT_PAGE_SIZE : Number(limit);
+        if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+            return res.status(400).json({
+                success: false,
+                message: `Limit must be between 1 and ${MAX_PAGE_SIZE}`,
+                error: 'INVALID_LIMIT'
+            });
+        }
+
+        const box = boundingBox(latitude, longitude, radius);
+
+        // Haversine distance; the bounding box pre-filter keeps this on the lat/lng index
+        const nearby = await prisma.$queryRaw<Array<{ id: string; distanceKm: number }>>`
+            SELECT "id", "distanceKm" FROM (
+                SELECT d."id", (${EARTH_RADIUS_KM} * 2 * asin(sqrt(
+                    power(sin(radians(d."latitude" - ${latitude}) / 2), 2) +
+                    cos(radians(${latitude})) * cos(radians(d."latitude")) *
+                    power(sin(radians(d."longitude" - ${longitude}) / 2), 2)
+                )))::float AS "distanceKm"
+                FROM "Doctor" d
+                WHERE d."onboardingStep" = 'COMPLETE' AND d."verificationStatus" = 'APPROVED'
+                  AND d."latitude" BETWEEN ${box.minLat} AND ${box.maxLat}
+                  AND d."longitude" BETWEEN ${box.minLng} AND ${box.maxLng}
+            ) candidates
+            WHERE "distanceKm" <= ${radius}
+            ORDER BY "distanceKm" ASC, "id" ASC
+            LIMIT ${pageSize}
+        `;
+
         const doctors = await prisma.doctor.findMany({
+            where: { id: { in: nearby.map(row => row.id) } },
             select: {
                 id: true,
-                email: true,
                 name: true,
-                age: true,
                 gender: true,
+                languages: true,
                 specialty: true,
                 yearsOfExperience: true,
+                address: true,
                 city: true,
                 locality: true,
-                viewCount: true,
-                onboardingStep: true,
-                createdAt: true
+                latitude: true,
+                longitude: true,
+                availableDays: true,
+                viewCount: true
             }
         });
 
+        // Restore distance order and attach the distance
+        const doctorsById = new Map(doctors.map(doctor => [doctor.id, doctor]));
+        const results = nearby
+            .filter(row => doctorsById.has(row.id))
+            .map(row => ({ ...doctorsById.get(row.id), distanceKm: Math.round(row.distanceKm * 100) / 100 }));
+
         return res.status(200).json({
             success: true,
-            message: 'Doctors fetched successfully',
-            data: doctors,
-            count: doctors.length
+            message: 'Nearby doctors fetched successfully',
+            data: results,
+            count: results.length
         });
     } catch (error) {
-        console.error('Fetch all doctors error:', error);
+        console.error('Fetch nearby doctors error:', error);
         return res.status(500).json({
             success: false,
-            message: 'An error occurred while fetching doctors',
+            message: 'An error occurred while fetching nearby doctors',
             error: 'INTERNAL_SERVER_ERROR'
         });
     }
 };
 
+const scheduleWindowSelect = {
+    id: true,
+    dayOfWeek: true,
+    startTime: true,
+    endTime: true,
+    clinicAddress: true
+};
+
+const availabilityExceptionSelect = {
+    id: true,
+    type: true,
+    startTime: true,
+    endTime: true,
+    reason: true,
+    clinicAddress: true
+};
+
+const verificationBadgeSelect = {
+    registrationNumber: true,
+    medicalCouncil: true,
+    verificationStatus: true,
+    verifiedAt: true
+};
+
+const profilePhotoSelect = {
+    where: { kind: AttachmentKind.PROFILE_PHOTO },
+    orderBy: { createdAt: 'desc' as const },
+    take: 1
+};
+
+// Swap the photo attachment for a signed link clients can show directly
+const withProfilePhoto = <T extends { attachments: Attachment[] }>({ attachments, ...profile }: T) => ({
+    ...profile,
+    profilePhoto: attachments.length > 0 ? presentAttachment(attachments[0]) : null
+});
+
+type VerificationBadgeFields = {
+    registrationNumber: string | null;
+    medicalCouncil: string | null;
+    verificationStatus: VerificationStatus;
+    verifiedAt: Date | null;
+};
+
+// Public profile view: a "verified" badge, with the registration shown only once it's approved
+const withVerificationBadge = <T extends VerificationBadgeFields>({ registrationNumber, medicalCouncil, verificationStatus, verifiedAt, ...profile }: T) => {
+    const verified = verificationStatus === VerificationStatus.APPROVED;
+    return {
+        ...profile,
+        verified,
+        registration: verified ? { registrationNumber, medicalCouncil, verifiedAt } : null
+    };
+};
+
+// Profiles the public listing leaves out (unfinished or unverified) look missing, contact details
+// included, to everyone but the doctor themselves and staff who can list every doctor
+const isHiddenProfile = (
+    doctor: { id: string; onboardingStep: OnboardingStep; verificationStatus: VerificationStatus },
+    principal: Principal | undefined
+): boolean => {
+    const listed = doctor.onboardingStep === OnboardingStep.COMPLETE && doctor.verificationStatus === VerificationStatus.APPROVED;
+    const isSelf = principal?.type === 'doctor' && principal.id === doctor.id;
+    return !listed && !isSelf && !hasPermission(principal, 'doctors:list:all');
+};
+
 // Fetch doctor by ID
 export const fetchById = async (req: Request, res: Response) => {
     try {
@@ -829,29 +954,45 @@ export const fetchById = async (req: Request, res: Response) => {
             where: { id },
             select: {
                 id: true,
-                email: true,
+                user: { select: { email: true } },
                 name: true,
                 age: true,
                 gender: true,
                 languages: true,
                 contactNumber: true,
                 whatsappNumber: true,
+                contactNumberVerified: true,
+                whatsappNumberVerified: true,
                 specialty: true,
                 yearsOfExperience: true,
                 latestQualification: true,
                 address: true,
                 city: true,
                 locality: true,
+                latitude: true,
+                longitude: true,
                 availableDays: true,
                 availableTiming: true,
+                scheduleWindows: {
+                    select: scheduleWindowSelect,
+                    orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }]
+                },
+                availabilityExceptions: {
+                    where: { endTime: { gt: new Date() } },
+                    select: availabilityExceptionSelect,
+                    orderBy: { startTime: 'asc' }
+                },
                 viewCount: true,
                 onboardingStep: true,
+                ...doctorCatalogueSelect,
+                ...verificationBadgeSelect,
+                attachments: profilePhotoSelect,
                 createdAt: true,
                 updatedAt: true
             }
         });
 
-        if (!doctor) {
+        if (!doctor || isHiddenProfile(doctor, req.principal)) {
             return res.status(404).json({
                 success: false,
                 message: 'Doctor not found',
@@ -862,7 +1003,7 @@ export const fetchById = async (req: Request, res: Response) => {
         return res.status(200).json({
             success: true,
             message: 'Doctor fetched successfully',
-            data: doctor
+            data: withCatalogue(withProfilePhoto(withVerificationBadge(withEmail(doctor))))
         });
     } catch (error) {
         console.error('Fetch doctor by ID error:', error);
@@ -874,48 +1015,80 @@ export const fetchById = async (req: Request, res: Response) => {
     }
 };
 
-// View doctor profile (increments view count)
-export const viewDoctorProfile = async (req: Request, res: Response) => {
+// Bookable slots for a date range: ?from=YYYY-MM-DD&to=YYYY-MM-DD&duration=30 (to is inclusive)
+const DEFAULT_SLOT_RANGE_DAYS = 7;
+const MAX_SLOT_RANGE_DAYS = 31;
+
+export const getAvailableSlots = async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
-        const { patientId } = req.body; // Optional: track which patient viewed
+        const { from, to, duration } = req.query;
 
-        if (!id) {
+        const durationMinutes = duration === undefined ? 30 : Number(duration);
+        if (!Number.isInteger(durationMinutes) || durationMinutes < 5 || durationMinutes > 240) {
             return res.status(400).json({
                 success: false,
-                message: 'Doctor ID is required',
-                error: 'MISSING_ID'
+                message: 'Duration must be a whole number of minutes between 5 and 240',
+                error: 'INVALID_DURATION'
+            });
+        }
+
+        const fromDate = from === undefined ? new Date() : parseLocalDate(String(from));
+        if (!fromDate) {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid "from" date. Use format: YYYY-MM-DD',
+                error: 'INVALID_DATE'
+            });
+        }
+
+        let toDate: Date | null;
+        if (to === undefined) {
+            toDate = new Date(fromDate.getTime() + DEFAULT_SLOT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+        } else {
+            const lastDay = parseLocalDate(String(to));
+            toDate = lastDay ? new Date(lastDay.getTime() + 24 * 60 * 60 * 1000) : null;
+        }
+        if (!toDate) {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid "to" date. Use format: YYYY-MM-DD',
+                error: 'INVALID_DATE'
+            });
+        }
+
+        if (toDate <= fromDate) {
+            return res.status(400).json({
+                success: false,
+                message: '"to" must not be before "from"',
+                error: 'INVALID_DATE_RANGE'
+            });
+        }
+
+        if (toDate.getTime() - fromDate.getTime() > MAX_SLOT_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+            return res.status(400).json({
+                success: false,
+                message: `Date range cannot exceed ${MAX_SLOT_RANGE_DAYS} days`,
+                error: 'DATE_RANGE_TOO_LARGE'
             });
         }
 
-        // Check if doctor exists
         const doctor = await prisma.doctor.findUnique({
             where: { id },
             select: {
                 id: true,
-                email: true,
-                name: true,
-                age: true,
-                gender: true,
-                languages: true,
-                contactNumber: true,
-                whatsappNumber: true,
-                specialty: true,
-                yearsOfExperience: true,
-                latestQualification: true,
-                address: true,
-                city: true,
-                locality: true,
+                onboardingStep: true,
+                verificationStatus: true,
                 availableDays: true,
                 availableTiming: true,
-                viewCount: true,
-                onboardingStep: true,
-                createdAt: true,
-                updatedAt: true
+                scheduleWindows: true,
+                availabilityExceptions: {
+                    where: { startTime: { lt: toDate }, endTime: { gt: fromDate } }
+                }
             }
         });
-
-        if (!doctor) {
+        // Only doctors the public listing shows can be booked; unverified ones look like missing ones
+        if (!doctor || doctor.onboardingStep !== OnboardingStep.COMPLETE || doctor.verificationStatus !== VerificationStatus.APPROVED) {
             return res.status(404).json({
                 success: false,
                 message: 'Doctor not found',
@@ -923,74 +1096,126 @@ export const viewDoctorProfile = async (req: Request, res: Response) => {
             });
         }
 
-        // Increment view count
-        const updatedDoctor = await prisma.doctor.update({
-            where: { id },
+        const booked = await prisma.appointment.findMany({
+            where: {
+                doctorId: id,
+                status: { in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED] },
+                startTime: { lt: toDate },
+                endTime: { gt: fromDate }
+            },
+            select: { startTime: true, endTime: true }
+        });
+
+        // Leave/holidays block time like bookings do; extra sessions add bookable time
+        const blocked = doctor.availabilityExceptions.filter(e => e.type === AvailabilityExceptionType.UNAVAILABLE);
+        const extraSessions = doctor.availabilityExceptions.filter(e => e.type === AvailabilityExceptionType.EXTRA_SESSION);
+
+        const slots = generateSlots(getScheduleWindows(doctor), fromDate, toDate, durationMinutes, [...booked, ...blocked], extraSessions);
+
+        return res.status(200).json({
+            success: true,
+            message: 'Available slots fetched successfully',
             data: {
-                viewCount: {
-                    increment: 1
-                }
+                doctorId: doctor.id,
+                from: fromDate,
+                to: toDate,
+                durationMinutes,
+                slots
             },
+            count: slots.length
+        });
+    } catch (error) {
+        console.error('Get available slots error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while fetching available slots',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// View doctor profile (increments view count)
+export const viewDoctorProfile = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        // Track which patient viewed, from their token (anonymous views only count)
+        const patientId = req.principal?.type === 'patient' ? req.principal.id : undefined;
+
+        if (!id) {
+            return res.status(400).json({
+                success: false,
+                message: 'Doctor ID is required',
+                error: 'MISSING_ID'
+            });
+        }
+
+        // Check if doctor exists
+        const doctor = await prisma.doctor.findUnique({
+            where: { id },
             select: {
                 id: true,
-                email: true,
+                user: { select: { email: true } },
                 name: true,
                 age: true,
                 gender: true,
                 languages: true,
                 contactNumber: true,
                 whatsappNumber: true,
+                contactNumberVerified: true,
+                whatsappNumberVerified: true,
                 specialty: true,
                 yearsOfExperience: true,
                 latestQualification: true,
                 address: true,
                 city: true,
                 locality: true,
+                latitude: true,
+                longitude: true,
                 availableDays: true,
                 availableTiming: true,
+                scheduleWindows: {
+                    select: scheduleWindowSelect,
+                    orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }]
+                },
+                availabilityExceptions: {
+                    where: { endTime: { gt: new Date() } },
+                    select: availabilityExceptionSelect,
+                    orderBy: { startTime: 'asc' }
+                },
                 viewCount: true,
                 onboardingStep: true,
+                ...doctorCatalogueSelect,
+                ...verificationBadgeSelect,
+                attachments: profilePhotoSelect,
                 createdAt: true,
                 updatedAt: true
             }
         });
 
-        // Create lead record if patientId is provided
-        if (patientId) {
-            try {
-                // Check if patient exists
-                const patient = await prisma.patient.findUnique({
-                    where: { id: patientId }
-                });
+        if (!doctor || isHiddenProfile(doctor, req.principal)) {
+            return res.status(404).json({
+                success: false,
+                message: 'Doctor not found',
+                error: 'DOCTOR_NOT_FOUND'
+            });
+        }
 
-                if (patient) {
-                    // Create or update lead (upsert to handle duplicate views)
-                    await prisma.lead.upsert({
-                        where: {
-                            doctorId_patientId: {
-                                doctorId: id,
-                                patientId: patientId
-                            }
-                        },
-                        update: {
-                            viewedAt: new Date() // Update the viewed timestamp
-                        },
-                        create: {
-                            doctorId: id,
-                            patientId: patientId
-                        }
-                    });
-                }
-            } catch (leadError) {
-                // Log error but don't fail the request if lead creation fails
-                console.error('Error creating lead record:', leadError);
-            }
+        // View count, lead record and the doctor's notification are written by the job worker
+        try {
+            await enqueueJob('record-profile-view', {
+                doctorId: id,
+                patientId,
+                viewedAt: new Date().toISOString()
+            });
+        } catch (jobError) {
+            // Log error but don't fail the request if the view can't be recorded
+            console.error('Error queueing profile view:', jobError);
         }
 
         return res.status(200).json({
             success: true,
             message: 'Doctor profile viewed successfully',
-            data: updatedDoctor
+            data: withCatalogue(withProfilePhoto(withVerificationBadge(withEmail({ ...doctor, viewCount: doctor.viewCount + 1 }))))
         });
     } catch (error) {
         console.error('View doctor profile error:', error);
@@ -1002,28 +1227,6 @@ export const viewDoctorProfile = async (req: Request, res: Response) => {
     }
 };
 
-// Helper function to verify JWT token
-const verifyToken = (req: Request): { doctorId: string; email: string } | null => {
-    try {
-        const authHeader = req.headers.authorization;
-        if (!authHeader || !authHeader.startsWith('Bearer ')) {
-            return null;
-        }
-
-        const token = authHeader.substring(7);
-        const decoded = jwt.verify(token, JWT_SECRET) as { doctorId: string; email: string; type?: string };
-        
-        // Verify it's a doctor token
-        if (decoded.type && decoded.type !== 'doctor') {
-            return null;
-        }
-
-        return { doctorId: decoded.doctorId, email: decoded.email };
-    } catch (error) {
-        return null;
-    }
-};
-
 // Get all leads (patients who viewed doctor's profile)
 export const getLeads = async (req: Request, res: Response) => {
     try {
@@ -1037,25 +1240,6 @@ export const getLeads = async (req: Request, res: Response) => {
             });
         }
 
-        // Verify authentication
-        const tokenData = verifyToken(req);
-        if (!tokenData) {
-            return res.status(401).json({
-                success: false,
-                message: 'Authentication required. Please provide a valid JWT token.',
-                error: 'UNAUTHORIZED'
-            });
-        }
-
-        // Verify that the authenticated doctor is requesting their own leads
-        if (tokenData.doctorId !== id) {
-            return res.status(403).json({
-                success: false,
-                message: 'You can only view your own leads',
-                error: 'FORBIDDEN'
-            });
-        }
-
         // Check if doctor exists
         const doctor = await prisma.doctor.findUnique({
             where: { id },
@@ -1079,9 +1263,10 @@ export const getLeads = async (req: Request, res: Response) => {
                 patient: {
                     select: {
                         id: true,
-                        email: true,
+                        user: { select: { email: true } },
                         name: true,
                         phone: true,
+                        phoneVerified: true,
                         gender: true,
                         age: true,
                         city: true,
@@ -1097,7 +1282,7 @@ export const getLeads = async (req: Request, res: Response) => {
         // Format the response
         const formattedLeads = leads.map(lead => ({
             id: lead.id,
-            patient: lead.patient,
+            patient: withEmail(lead.patient),
             viewedAt: lead.viewedAt,
             createdAt: lead.createdAt
         }));
@@ -1117,3 +1302,362 @@ export const getLeads = async (req: Request, res: Response) => {
         });
     }
 };
+
+// Get a doctor's weekly schedule
+export const getSchedule = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const doctor = await prisma.doctor.findUnique({
+            where: { id },
+            select: {
+                id: true,
+                availableDays: true,
+                availableTiming: true,
+                scheduleWindows: {
+                    select: scheduleWindowSelect,
+                    orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }]
+                }
+            }
+        });
+
+        if (!doctor) {
+            return res.status(404).json({
+                success: false,
+                message: 'Doctor not found',
+                error: 'DOCTOR_NOT_FOUND'
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: 'Schedule fetched successfully',
+            data: {
+                doctorId: doctor.id,
+                schedule: getScheduleWindows(doctor),
+                availableDays: doctor.availableDays,
+                availableTiming: doctor.availableTiming
+            }
+        });
+    } catch (error) {
+        console.error('Get schedule error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while fetching schedule',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Replace a doctor's weekly schedule (after onboarding)
+export const updateSchedule = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const { windows, error: scheduleError } = resolveScheduleInput(req.body);
+        if (scheduleError || !windows) {
+            return res.status(400).json({
+                success: false,
+                message: scheduleError?.message,
+                error: scheduleError?.code
+            });
+        }
+
+        const doctor = await prisma.doctor.findUnique({ where: { id }, select: { id: true, onboardingStep: true } });
+        if (!doctor) {
+            return res.status(404).json({
+                success: false,
+                message: 'Doctor not found',
+                error: 'DOCTOR_NOT_FOUND'
+            });
+        }
+
+        if (doctor.onboardingStep !== OnboardingStep.COMPLETE) {
+            return res.status(400).json({
+                success: false,
+                message: 'Please complete onboarding first',
+                error: 'INVALID_ONBOARDING_STEP'
+            });
+        }
+
+        const summary = summarizeSchedule(windows);
+        await prisma.$transaction([
+            prisma.scheduleWindow.deleteMany({ where: { doctorId: id } }),
+            prisma.scheduleWindow.createMany({ data: windows.map(w => ({ ...w, doctorId: id })) }),
+            prisma.doctor.update({ where: { id }, data: summary })
+        ]);
+
+        const schedule = await prisma.scheduleWindow.findMany({
+            where: { doctorId: id },
+            select: scheduleWindowSelect,
+            orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }]
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: 'Schedule updated successfully',
+            data: {
+                doctorId: id,
+                schedule,
+                ...summary
+            }
+        });
+    } catch (error) {
+        console.error('Update schedule error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while updating schedule',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Normalize exception input. Accepts whole days (startDate/endDate as YYYY-MM-DD, endDate
+// inclusive) or an exact range (startTime/endTime as ISO 8601 date-times).
+const MAX_EXCEPTION_DAYS = 366;
+
+const resolveExceptionInput = (body: any): {
+    data?: { type: AvailabilityExceptionType; startTime: Date; endTime: Date; reason: string | null; clinicAddress: string | null };
+    error?: { message: string; code: string };
+} => {
+    const { type, startDate, endDate, startTime, endTime, reason, clinicAddress } = body;
+
+    if (!Object.values(AvailabilityExceptionType).includes(type)) {
+        return { error: { message: `Type must be one of: ${Object.values(AvailabilityExceptionType).join(', ')}`, code: 'INVALID_EXCEPTION_TYPE' } };
+    }
+
+    let start: Date | null = null;
+    let end: Date | null = null;
+
+    if (startDate !== undefined) {
+        start = parseLocalDate(String(startDate));
+        const lastDay = parseLocalDate(String(endDate ?? startDate));
+        end = lastDay ? new Date(lastDay.getTime() + 24 * 60 * 60 * 1000) : null;
+        if (!start || !end) {
+            return { error: { message: 'Invalid date. Use format: YYYY-MM-DD', code: 'INVALID_DATE' } };
+        }
+    } else if (startTime !== undefined && endTime !== undefined) {
+        start = new Date(startTime);
+        end = new Date(endTime);
+        if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+            return { error: { message: 'Invalid startTime or endTime. Use ISO 8601 date-times', code: 'INVALID_DATE' } };
+        }
+    } else {
+        return { error: { message: 'Either startDate (and optional endDate) or startTime and endTime are required', code: 'MISSING_FIELDS' } };
+    }
+
+    if (end <= start) {
+        return { error: { message: 'End must be after start', code: 'INVALID_DATE_RANGE' } };
+    }
+
+    if (end.getTime() - start.getTime() > MAX_EXCEPTION_DAYS * 24 * 60 * 60 * 1000) {
+        return { error: { message: `An exception cannot span more than ${MAX_EXCEPTION_DAYS} days`, code: 'DATE_RANGE_TOO_LARGE' } };
+    }
+
+    if (type === AvailabilityExceptionType.EXTRA_SESSION && end.getTime() - start.getTime() > 24 * 60 * 60 * 1000) {
+        return { error: { message: 'An extra session cannot be longer than 24 hours', code: 'INVALID_DATE_RANGE' } };
+    }
+
+    if (end.getTime() <= Date.now()) {
+        return { error: { message: 'Exceptions must end in the future', code: 'DATE_IN_PAST' } };
+    }
+
+    if (reason !== undefined && reason !== null && (typeof reason !== 'string' || reason.length > 200)) {
+        return { error: { message: 'Reason must be text of at most 200 characters', code: 'INVALID_REASON' } };
+    }
+
+    if (clinicAddress !== undefined && clinicAddress !== null) {
+        if (type !== AvailabilityExceptionType.EXTRA_SESSION) {
+            return { error: { message: 'Clinic address can only be set for extra sessions', code: 'INVALID_CLINIC_ADDRESS' } };
+        }
+        if (typeof clinicAddress !== 'string' || clinicAddress.trim().length < 5) {
+            return { error: { message: 'Clinic address must be at least 5 characters long', code: 'INVALID_CLINIC_ADDRESS' } };
+        }
+    }
+
+    return {
+        data: {
+            type,
+            startTime: start,
+            endTime: end,
+            reason: reason?.trim() || null,
+            clinicAddress: clinicAddress?.trim() || null
+        }
+    };
+};
+
+// Active appointments that fall inside a new blocked range, so the doctor can reschedule them
+const countConflictingAppointments = async (doctorId: string, exception: { type: AvailabilityExceptionType; startTime: Date; endTime: Date }) => {
+    if (exception.type !== AvailabilityExceptionType.UNAVAILABLE) {
+        return 0;
+    }
+
+    return prisma.appointment.count({
+        where: {
+            doctorId,
+            status: { in: [AppointmentStatus.PENDING, AppointmentStatus.CONFIRMED] },
+            startTime: { lt: exception.endTime },
+            endTime: { gt: exception.startTime }
+        }
+    });
+};
+
+// List upcoming availability exceptions for a doctor
+export const getAvailabilityExceptions = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const doctor = await prisma.doctor.findUnique({ where: { id }, select: { id: true } });
+        if (!doctor) {
+            return res.status(404).json({
+                success: false,
+                message: 'Doctor not found',
+                error: 'DOCTOR_NOT_FOUND'
+            });
+        }
+
+        const exceptions = await prisma.availabilityException.findMany({
+            where: { doctorId: id, endTime: { gt: new Date() } },
+            select: availabilityExceptionSelect,
+            orderBy: { startTime: 'asc' }
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: 'Availability exceptions fetched successfully',
+            data: exceptions,
+            count: exceptions.length
+        });
+    } catch (error) {
+        console.error('Get availability exceptions error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while fetching availability exceptions',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Add leave/holiday or an extra session
+export const createAvailabilityException = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const { data, error: inputError } = resolveExceptionInput(req.body);
+        if (inputError || !data) {
+            return res.status(400).json({
+                success: false,
+                message: inputError?.message,
+                error: inputError?.code
+            });
+        }
+
+        const doctor = await prisma.doctor.findUnique({ where: { id }, select: { id: true } });
+        if (!doctor) {
+            return res.status(404).json({
+                success: false,
+                message: 'Doctor not found',
+                error: 'DOCTOR_NOT_FOUND'
+            });
+        }
+
+        const exception = await prisma.availabilityException.create({
+            data: { ...data, doctorId: id },
+            select: availabilityExceptionSelect
+        });
+
+        return res.status(201).json({
+            success: true,
+            message: 'Availability exception created successfully',
+            data: {
+                ...exception,
+                conflictingAppointments: await countConflictingAppointments(id, exception)
+            }
+        });
+    } catch (error) {
+        console.error('Create availability exception error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while creating availability exception',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Replace an existing exception
+export const updateAvailabilityException = async (req: Request, res: Response) => {
+    try {
+        const { id, exceptionId } = req.params;
+
+        const { data, error: inputError } = resolveExceptionInput(req.body);
+        if (inputError || !data) {
+            return res.status(400).json({
+                success: false,
+                message: inputError?.message,
+                error: inputError?.code
+            });
+        }
+
+        const existing = await prisma.availabilityException.findUnique({ where: { id: exceptionId } });
+        if (!existing || existing.doctorId !== id) {
+            return res.status(404).json({
+                success: false,
+                message: 'Availability exception not found',
+                error: 'EXCEPTION_NOT_FOUND'
+            });
+        }
+
+        const exception = await prisma.availabilityException.update({
+            where: { id: exceptionId },
+            data,
+            select: availabilityExceptionSelect
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: 'Availability exception updated successfully',
+            data: {
+                ...exception,
+                conflictingAppointments: await countConflictingAppointments(id, exception)
+            }
+        });
+    } catch (error) {
+        console.error('Update availability exception error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while updating availability exception',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Remove an exception
+export const deleteAvailabilityException = async (req: Request, res: Response) => {
+    try {
+        const { id, exceptionId } = req.params;
+
+        const result = await prisma.availabilityException.deleteMany({ where: { id: exceptionId, doctorId: id } });
+        if (result.count === 0) {
+            return res.status(404).json({
+                success: false,
+                message: 'Availability exception not found',
+                error: 'EXCEPTION_NOT_FOUND'
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: 'Availability exception deleted successfully',
+            data: {
+                id: exceptionId
+            }
+        });
+    } catch (error) {
+        console.error('Delete availability exception error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while deleting availability exception',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
@@ -0,0 +1,136 @@
+import { Request, Response } from 'express';
+import { PrismaClient, JobStatus } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Payloads are left out: pending and dead jobs can still hold one-time codes
+const jobSelect = {
+    id: true,
+    type: true,
+    status: true,
+    attempts: true,
+    maxAttempts: true,
+    runAt: true,
+    lockedAt: true,
+    lockedBy: true,
+    lastError: true,
+    completedAt: true,
+    createdAt: true,
+    updatedAt: true
+};
+
+// Job queue contents, newest first: ?status=DEAD&type=send-email&limit=20&cursor=<last job id>
+export const listJobs = async (req: Request, res: Response) => {
+    try {
+        const { status, type, limit, cursor } = req.query;
+
+        if (status !== undefined && !Object.values(JobStatus).includes(status as JobStatus)) {
+            return res.status(400).json({
+                success: false,
+                message: `Status must be one of: ${Object.values(JobStatus).join(', ')}`,
+                error: 'INVALID_STATUS'
+            });
+        }
+
+        const pageSize = limit === undefined ? DEFAULT_PAGE_SIZE : Number(limit);
+        if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+            return res.status(400).json({
+                success: false,
+                message: `Limit must be between 1 and ${MAX_PAGE_SIZE}`,
+                error: 'INVALID_LIMIT'
+            });
+        }
+
+        if ((cursor !== undefined && typeof cursor !== 'string') || (type !== undefined && typeof type !== 'string')) {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid query parameters',
+                error: 'INVALID_QUERY'
+            });
+        }
+
+        const jobs = await prisma.job.findMany({
+            where: {
+                ...(status ? { status: status as JobStatus } : {}),
+                ...(type ? { type } : {})
+            },
+            // id breaks ties so the cursor position is stable
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+            take: pageSize + 1,
+            ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+            select: jobSelect
+        });
+
+        // One extra row tells us whether another page exists
+        const hasMore = jobs.length > pageSize;
+        const page = hasMore ? jobs.slice(0, pageSize) : jobs;
+
+        return res.status(200).json({
+            success: true,
+            message: 'Jobs fetched successfully',
+            data: page,
+            count: page.length,
+            nextCursor: hasMore ? page[page.length - 1].id : null
+        });
+    } catch (error: any) {
+        // Unknown cursor id
+        if (error.code === 'P2025') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid cursor',
+                error: 'INVALID_CURSOR'
+            });
+        }
+        console.error('List jobs error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while fetching jobs',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Put a dead-lettered job back on the queue with a fresh set of attempts
+export const retryJob = async (req: Request, res: Response) => {
+    try {
+        const id = req.params.id as string;
+
+        const result = await prisma.job.updateMany({
+            where: { id, status: JobStatus.DEAD },
+            data: { status: JobStatus.PENDING, attempts: 0, runAt: new Date(), lastError: null }
+        });
+
+        if (result.count === 0) {
+            const exists = await prisma.job.count({ where: { id } });
+            return exists
+                ? res.status(409).json({
+                    success: false,
+                    message: 'Only dead jobs can be retried',
+                    error: 'JOB_NOT_DEAD'
+                })
+                : res.status(404).json({
+                    success: false,
+                    message: 'Job not found',
+                    error: 'JOB_NOT_FOUND'
+                });
+        }
+
+        const job = await prisma.job.findUnique({ where: { id }, select: jobSelect });
+
+        return res.status(200).json({
+            success: true,
+            message: 'Job queued for retry',
+            data: job
+        });
+    } catch (error) {
+        console.error('Retry job error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while retrying the job',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
@@ -0,0 +1,334 @@
+import { Request, Response } from 'express';
+import { PrismaClient, NotificationType, NotificationChannel } from '@prisma/client';
+import { resolveUserId } from '../services/account.service';
+import { getNotificationPreferenceMatrix } from '../services/notification.service';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const PUSH_PLATFORMS = ['ios', 'android', 'web'];
+
+const accountNotFound = (res: Response) => res.status(404).json({
+    success: false,
+    message: 'Account not found',
+    error: 'USER_NOT_FOUND'
+});
+
+// Inbox of the caller's current role: ?unread=true&limit=20&cursor=<last notification id>
+export const listNotifications = async (req: Request, res: Response) => {
+    try {
+        const principal = req.principal!;
+        const userId = await resolveUserId(principal);
+        if (!userId) {
+            return accountNotFound(res);
+        }
+
+        const { unread, limit, cursor } = req.query;
+
+        const pageSize = limit === undefined ? DEFAULT_PAGE_SIZE : Number(limit);
+        if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+            return res.status(400).json({
+                success: false,
+                message: `Limit must be between 1 and ${MAX_PAGE_SIZE}`,
+                error: 'INVALID_LIMIT'
+            });
+        }
+
+        if (cursor !== undefined && typeof cursor !== 'string') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid cursor',
+                error: 'INVALID_CURSOR'
+            });
+        }
+
+        const inbox = { userId, role: principal.type };
+        const where = unread === 'true' ? { ...inbox, readAt: null } : inbox;
+
+        const [unreadCount, notifications] = await Promise.all([
+            prisma.notification.count({ where: { ...inbox, readAt: null } }),
+            prisma.notification.findMany({
+                where,
+                // id breaks ties so the cursor position is stable
+                orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+                take: pageSize + 1,
+                ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+                select: {
+                    id: true,
+                    type: true,
+                    title: true,
+                    body: true,
+                    data: true,
+                    readAt: true,
+                    createdAt: true
+                }
+            })
+        ]);
+
+        // One extra row tells us whether another page exists
+        const hasMore = notifications.length > pageSize;
+        const page = hasMore ? notifications.slice(0, pageSize) : notifications;
+
+        return res.status(200).json({
+            success: true,
+            message: 'Notifications fetched successfully',
+            data: page,
+            count: page.length,
+            unreadCount,
+            nextCursor: hasMore ? page[page.length - 1].id : null
+        });
+    } catch (error: any) {
+        // Unknown cursor id
+        if (error.code === 'P2025') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid cursor',
+                error: 'INVALID_CURSOR'
+            });
+        }
+        console.error('List notifications error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while fetching notifications',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+export const markNotificationRead = async (req: Request, res: Response) => {
+    try {
+        const principal = req.principal!;
+        const userId = await resolveUserId(principal);
+        if (!userId) {
+            return accountNotFound(res);
+        }
+
+        const { id } = req.params;
+
+        const notification = await prisma.notification.findUnique({ where: { id } });
+        if (!notification || notification.userId !== userId || notification.role !== principal.type) {
+            return res.status(404).json({
+                success: false,
+                message: 'Notification not found',
+                error: 'NOTIFICATION_NOT_FOUND'
+            });
+        }
+
+        // Keep the first read time when marked twice
+        const updated = notification.readAt
+            ? notification
+            : await prisma.notification.update({ where: { id }, data: { readAt: new Date() } });
+
+        return res.status(200).json({
+            success: true,
+            message: 'Notification marked as read',
+            data: { id: updated.id, readAt: updated.readAt }
+        });
+    } catch (error) {
+        console.error('Mark notification read error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while updating the notification',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+export const markAllNotificationsRead = async (req: Request, res: Response) => {
+    try {
+        const principal = req.principal!;
+        const userId = await resolveUserId(principal);
+        if (!userId) {
+            return accountNotFound(res);
+        }
+
+        const result = await prisma.notification.updateMany({
+            where: { userId, role: principal.type, readAt: null },
+            data: { readAt: new Date() }
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: 'All notifications marked as read',
+            data: { updated: result.count }
+        });
+    } catch (error) {
+        console.error('Mark all notifications read error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while updating notifications',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+export const getNotificationPreferences = async (req: Request, res: Response) => {
+    try {
+        const userId = await resolveUserId(req.principal!);
+        if (!userId) {
+            return accountNotFound(res);
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: 'Notification preferences fetched successfully',
+            data: await getNotificationPreferenceMatrix(userId)
+        });
+    } catch (error) {
+        console.error('Get notification preferences error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while fetching notification preferences',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Body: { preferences: [{ type: 'APPOINTMENT_CONFIRMED', channel: 'SMS', enabled: false }, ...] }.
+// Types and channels left out keep their current setting.
+export const updateNotificationPreferences = async (req: Request, res: Response) => {
+    try {
+        const userId = await resolveUserId(req.principal!);
+        if (!userId) {
+            return accountNotFound(res);
+        }
+
+        const { preferences } = req.body;
+
+        if (!Array.isArray(preferences) || preferences.length === 0) {
+            return res.status(400).json({
+                success: false,
+                message: 'Preferences must be a non-empty array of { type, channel, enabled }',
+                error: 'INVALID_PREFERENCES'
+            });
+        }
+
+        for (const preference of preferences) {
+            if (!Object.values(NotificationType).includes(preference?.type)) {
+                return res.status(400).json({
+                    success: false,
+                    message: `Type must be one of: ${Object.values(NotificationType).join(', ')}`,
+                    error: 'INVALID_NOTIFICATION_TYPE'
+                });
+            }
+            if (!Object.values(NotificationChannel).includes(preference.channel)) {
+                return res.status(400).json({
+                    success: false,
+                    message: `Channel must be one of: ${Object.values(NotificationChannel).join(', ')}`,
+                    error: 'INVALID_CHANNEL'
+                });
+            }
+            if (typeof preference.enabled !== 'boolean') {
+                return res.status(400).json({
+                    success: false,
+                    message: 'Enabled must be true or false',
+                    error: 'INVALID_PREFERENCES'
+                });
+            }
+        }
+
+        await prisma.$transaction(preferences.map((preference: { type: NotificationType; channel: NotificationChannel; enabled: boolean }) =>
+            prisma.notificationPreference.upsert({
+                where: { userId_type_channel: { userId, type: preference.type, channel: preference.channel } },
+                update: { enabled: preference.enabled },
+                create: { userId, type: preference.type, channel: preference.channel, enabled: preference.enabled }
+            })
+        ));
+
+        return res.status(200).json({
+            success: true,
+            message: 'Notification preferences updated successfully',
+            data: await getNotificationPreferenceMatrix(userId)
+        });
+    } catch (error) {
+        console.error('Update notification preferences error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while updating notification preferences',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Register this app install for push notifications. A token moves to the caller's account
+// if another account registered it before (shared device).
+export const registerPushDevice = async (req: Request, res: Response) => {
+    try {
+        const userId = await resolveUserId(req.principal!);
+        if (!userId) {
+            return accountNotFound(res);
+        }
+
+        const { token, platform } = req.body;
+
+        if (typeof token !== 'string' || !token.trim() || token.length > 4096) {
+            return res.status(400).json({
+                success: false,
+                message: 'A device token is required',
+                error: 'INVALID_DEVICE_TOKEN'
+            });
+        }
+
+        if (!PUSH_PLATFORMS.includes(platform)) {
+            return res.status(400).json({
+                success: false,
+                message: `Platform must be one of: ${PUSH_PLATFORMS.join(', ')}`,
+                error: 'INVALID_PLATFORM'
+            });
+        }
+
+        const device = await prisma.pushDevice.upsert({
+            where: { token: token.trim() },
+            update: { userId, platform },
+            create: { userId, token: token.trim(), platform }
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: 'Device registered for push notifications',
+            data: { id: device.id, platform: device.platform }
+        });
+    } catch (error) {
+        console.error('Register push device error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while registering the device',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+export const unregisterPushDevice = async (req: Request, res: Response) => {
+    try {
+        const userId = await resolveUserId(req.principal!);
+        if (!userId) {
+            return accountNotFound(res);
+        }
+
+        const { token } = req.body ?? {};
+
+        if (typeof token !== 'string' || !token.trim()) {
+            return res.status(400).json({
+                success: false,
+                message: 'A device token is required',
+                error: 'INVALID_DEVICE_TOKEN'
+            });
+        }
+
+        const result = await prisma.pushDevice.deleteMany({ where: { userId, token: token.trim() } });
+
+        return res.status(200).json({
+            success: true,
+            message: result.count > 0 ? 'Device unregistered' : 'Device was not registered',
+            data: { removed: result.count }
+        });
+    } catch (error) {
+        console.error('Unregister push device error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while unregistering the device',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
@@ -0,0 +1,30 @@
+import { Request, Response } from 'express';
+import { Role } from '../services/account.service';
+import { getOnboardingProgress } from '../services/onboarding.service';
+
+// Wizard progress for the signed-in doctor or patient: every step, its status and what's missing
+export const getMyOnboarding = (role: Role) => async (req: Request, res: Response) => {
+    try {
+        const progress = await getOnboardingProgress(role, req.principal!.id);
+        if (!progress) {
+            return res.status(404).json({
+                success: false,
+                message: role === 'doctor' ? 'Doctor not found' : 'Patient not found',
+                error: role === 'doctor' ? 'DOCTOR_NOT_FOUND' : 'PATIENT_NOT_FOUND'
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: 'Onboarding progress fetched successfully',
+            data: progress
+        });
+    } catch (error) {
+        console.error('Get onboarding progress error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while fetching onboarding progress',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
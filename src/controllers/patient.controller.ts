@@ -1,395 +1,12 @@
 import { Request, Response } from 'express';
-import { PrismaClient, Gender, PatientOnboardingStep } from '@prisma/client';
-import * as brevo from '@getbrevo/brevo';
-import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
+import { PrismaClient, Prisma, PatientOnboardingStep } from '@prisma/client';
+import { withEmail, syncVerifiedPhone, isPatientProfileComplete } from '../services/account.service';
+import { notifyDoctorSaved, notifyOnboardingCompleted } from '../services/notification.service';
+import { PATIENT_PROFILE_FIELDS, parseProfileFields, diffProfile } from '../services/profileFields.service';
+import { PATIENT_ONBOARDING_INCLUDE, patientStateFor, patientStepBlockedBy, currentOnboardingStep } from '../services/onboarding.service';
 
 const prisma = new PrismaClient();
 
-// JWT Secret (should be in .env)
-const JWT_SECRET: string = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-const JWT_EXPIRES_IN: string = process.env.JWT_EXPIRES_IN || '7d';
-
-// Brevo API client setup (using HTTP API instead of SMTP to avoid Render blocking)
-let brevoApiInstance: brevo.TransactionalEmailsApi | null = null;
-
-const initializeBrevo = () => {
-    const brevoApiKey = process.env.BREVO_API_KEY;
-
-    if (!brevoApiKey) {
-        console.warn('⚠️  BREVO_API_KEY not configured. Email sending will be disabled.');
-        return null;
-    }
-
-    try {
-        brevoApiInstance = new brevo.TransactionalEmailsApi();
-        // Set API key using the enum for apiKey type
-        brevoApiInstance.setApiKey(brevo.TransactionalEmailsApiApiKeys.apiKey, brevoApiKey);
-        console.log('✅ Brevo API client initialized successfully');
-        return brevoApiInstance;
-    } catch (error) {
-        console.error('❌ Failed to initialize Brevo API:', error);
-        return null;
-    }
-};
-
-initializeBrevo();
-
-// Helper functions
-const generateOTP = () => Math.floor(100000 + Math.random() * 900000).toString();
-
-const generateJWT = (patientId: string, email: string): string => {
-    return jwt.sign(
-        { patientId, email, type: 'patient' },
-        JWT_SECRET,
-        { expiresIn: JWT_EXPIRES_IN } as jwt.SignOptions
-    );
-};
-
-// Validation helpers
-const validateEmail = (email: string): boolean => {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
-};
-
-const validatePassword = (password: string): { valid: boolean; error?: string } => {
-    if (password.length < 8) {
-        return { valid: false, error: 'Password must be at least 8 characters long' };
-    }
-    if (!/[A-Z]/.test(password)) {
-        return { valid: false, error: 'Password must contain at least one uppercase letter' };
-    }
-    if (!/[a-z]/.test(password)) {
-        return { valid: false, error: 'Password must contain at least one lowercase letter' };
-    }
-    if (!/[0-9]/.test(password)) {
-        return { valid: false, error: 'Password must contain at least one number' };
-    }
-    return { valid: true };
-};
-
-const validatePhoneNumber = (phone: string): boolean => {
-    const phoneRegex = /^[+]?[(]?[0-9]{1,4}[)]?[-\s.]?[(]?[0-9]{1,4}[)]?[-\s.]?[0-9]{1,9}$/;
-    return phoneRegex.test(phone.replace(/\s/g, ''));
-};
-
-const validateAge = (age: number): boolean => {
-    return age >= 1 && age <= 120;
-};
-
-// Authentication: Email + Password (Required) -> Signup, then OTP is sent
-export const onboardingAuth = async (req: Request, res: Response) => {
-    try {
-        const { email, password } = req.body;
-
-        // Validation
-        if (!email || !password) {
-            return res.status(400).json({
-                success: false,
-                message: 'Email and password are required',
-                error: 'MISSING_FIELDS'
-            });
-        }
-
-        if (!validateEmail(email)) {
-            return res.status(400).json({
-                success: false,
-                message: 'Invalid email format',
-                error: 'INVALID_EMAIL'
-            });
-        }
-
-        const passwordValidation = validatePassword(password);
-        if (!passwordValidation.valid) {
-            return res.status(400).json({
-                success: false,
-                message: passwordValidation.error,
-                error: 'INVALID_PASSWORD'
-            });
-        }
-
-        // Check if patient already exists
-        const existingPatient = await prisma.patient.findUnique({ where: { email } });
-        if (existingPatient) {
-            // Check if patient profile is incomplete - allow re-registration
-            const isIncomplete = !existingPatient.name || !existingPatient.phone || !existingPatient.city;
-            
-            if (isIncomplete) {
-                // Generate new OTP for incomplete user
-                const otp = generateOTP();
-                const otpExpiry = new Date(Date.now() + 10 * 60 * 1000); // 10 mins expiry
-                const hashedPassword = await bcrypt.hash(password, 10);
-
-                // Update existing incomplete account with new password and OTP
-                const updatedPatient = await prisma.patient.update({
-                    where: { email },
-                    data: {
-                        password: hashedPassword,
-                        otp,
-                        otpExpiry,
-                        onboardingStep: PatientOnboardingStep.EMAIL_VERIFIED // Reset to email verification step
-                    }
-                });
-
-                // Send Email using Brevo API
-                if (!brevoApiInstance) {
-                    const isDev = process.env.NODE_ENV !== 'production';
-                    return res.status(200).json({
-                        success: true,
-                        message: 'Welcome back! Account updated successfully. OTP generated for verification.',
-                        data: {
-                            patientId: updatedPatient.id,
-                            mockOtp: isDev ? otp : undefined,
-                            isReturningIncompleteUser: true
-                        },
-                        note: 'Set BREVO_API_KEY environment variable to enable email sending'
-                    });
-                }
-
-                try {
-                    const sendSmtpEmail = new brevo.SendSmtpEmail();
-                    sendSmtpEmail.subject = 'Welcome Back to ECare+ - Verification Code';
-                    sendSmtpEmail.htmlContent = `
-                        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-                            <h2 style="color: #4CAF50;">Welcome Back to ECare+!</h2>
-                            <p>We noticed you didn't complete your registration. Let's finish setting up your profile.</p>
-                            <p>Your verification code is:</p>
-                            <h1 style="color: #2196F3; font-size: 32px; letter-spacing: 5px;">${otp}</h1>
-                            <p>This code will expire in 10 minutes.</p>
-                            <p>If you didn't request this code, please ignore this email.</p>
-                        </div>
-                    `;
-                    sendSmtpEmail.sender = { 
-                        name: 'ECare+', 
-                        email: process.env.EMAIL_USER || 'noreply@ecareplus.com' 
-                    };
-                    sendSmtpEmail.to = [{ email }];
-
-                    await brevoApiInstance.sendTransacEmail(sendSmtpEmail);
-                    console.log(`✅ Welcome back OTP email sent successfully to ${email}`);
-                } catch (emailError: any) {
-                    console.error('❌ Email send error:', emailError);
-                    const isDev = process.env.NODE_ENV !== 'production' || process.env.ALLOW_MOCK_OTP === 'true';
-                    if (isDev) {
-                        return res.status(200).json({
-                            success: true,
-                            message: 'Welcome back! Account updated. OTP generated (email failed)',
-                            data: {
-                                patientId: updatedPatient.id,
-                                mockOtp: otp,
-                                isReturningIncompleteUser: true
-                            },
-                            warning: 'Email service is not configured properly. Please set up BREVO_API_KEY environment variable.'
-                        });
-                    }
-                    return res.status(500).json({
-                        success: false,
-                        message: 'Failed to send verification email. Please try again later.',
-                        error: 'EMAIL_SEND_FAILED'
-                    });
-                }
-
-                return res.status(200).json({
-                    success: true,
-                    message: 'Welcome back! Account updated successfully. Verification code sent to your email.',
-                    data: {
-                        patientId: updatedPatient.id,
-                        isReturningIncompleteUser: true
-                    }
-                });
-            } else {
-                // Complete account exists
-                return res.status(409).json({
-                    success: false,
-                    message: 'An account with this email already exists and is fully registered. Please use the login option.',
-                    error: 'EMAIL_ALREADY_EXISTS_COMPLETE'
-                });
-            }
-        }
-
-        // Generate OTP
-        const otp = generateOTP();
-        const otpExpiry = new Date(Date.now() + 10 * 60 * 1000); // 10 mins expiry
-        const hashedPassword = await bcrypt.hash(password, 10);
-
-        // Create new patient account
-        const patient = await prisma.patient.create({
-            data: {
-                email,
-                password: hashedPassword,
-                otp,
-                otpExpiry,
-                onboardingStep: PatientOnboardingStep.EMAIL_VERIFIED
-            },
-        });
-
-        // Send Email using Brevo API
-        if (!brevoApiInstance) {
-            const isDev = process.env.NODE_ENV !== 'production';
-            return res.status(200).json({
-                success: true,
-                message: 'Account created successfully. OTP generated for verification.',
-                data: {
-                    patientId: patient.id,
-                    mockOtp: isDev ? otp : undefined
-                },
-                note: 'Set BREVO_API_KEY environment variable to enable email sending'
-            });
-        }
-
-        try {
-            const sendSmtpEmail = new brevo.SendSmtpEmail();
-            sendSmtpEmail.subject = 'Your ECare+ Verification Code';
-            sendSmtpEmail.htmlContent = `
-                <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-                    <h2 style="color: #4CAF50;">ECare+ Verification Code</h2>
-                    <p>Your verification code is:</p>
-                    <h1 style="color: #2196F3; font-size: 32px; letter-spacing: 5px;">${otp}</h1>
-                    <p>This code will expire in 10 minutes.</p>
-                    <p>If you didn't request this code, please ignore this email.</p>
-                </div>
-            `;
-            sendSmtpEmail.sender = { 
-                name: 'ECare+', 
-                email: process.env.EMAIL_USER || 'noreply@ecareplus.com' 
-            };
-            sendSmtpEmail.to = [{ email }];
-
-            await brevoApiInstance.sendTransacEmail(sendSmtpEmail);
-            console.log(`✅ OTP email sent successfully to ${email}`);
-        } catch (emailError: any) {
-            console.error('❌ Email send error:', emailError);
-            // Return OTP in response if email fails (for development/testing)
-            const isDev = process.env.NODE_ENV !== 'production' || process.env.ALLOW_MOCK_OTP === 'true';
-            if (isDev) {
-                return res.status(200).json({
-                    success: true,
-                    message: 'Account created. OTP generated (email failed)',
-                    data: {
-                        patientId: patient.id,
-                        mockOtp: otp
-                    },
-                    warning: 'Email service is not configured properly. Please set up BREVO_API_KEY environment variable.'
-                });
-            }
-            return res.status(500).json({
-                success: false,
-                message: 'Failed to send verification email. Please try again later.',
-                error: 'EMAIL_SEND_FAILED'
-            });
-        }
-
-        return res.status(201).json({
-            success: true,
-            message: 'Account created successfully. Verification code sent to your email.',
-            data: {
-                patientId: patient.id
-            }
-        });
-    } catch (error) {
-        console.error('Authentication error:', error);
-        return res.status(500).json({
-            success: false,
-            message: 'An error occurred during account creation',
-            error: 'INTERNAL_SERVER_ERROR'
-        });
-    }
-};
-
-// Verify OTP
-export const verifyOtp = async (req: Request, res: Response) => {
-    try {
-        const { email, otp } = req.body;
-
-        if (!email || !otp) {
-            return res.status(400).json({
-                success: false,
-                message: 'Email and OTP are required',
-                error: 'MISSING_FIELDS'
-            });
-        }
-
-        if (!validateEmail(email)) {
-            return res.status(400).json({
-                success: false,
-                message: 'Invalid email format',
-                error: 'INVALID_EMAIL'
-            });
-        }
-
-        if (!/^\d{6}$/.test(otp)) {
-            return res.status(400).json({
-                success: false,
-                message: 'OTP must be a 6-digit number',
-                error: 'INVALID_OTP_FORMAT'
-            });
-        }
-
-        const patient = await prisma.patient.findUnique({ where: { email } });
-        if (!patient) {
-            return res.status(404).json({
-                success: false,
-                message: 'Account not found. Please sign up first.',
-                error: 'PATIENT_NOT_FOUND'
-            });
-        }
-
-        if (!patient.otp) {
-            return res.status(400).json({
-                success: false,
-                message: 'No OTP found. Please request a new verification code.',
-                error: 'OTP_NOT_FOUND'
-            });
-        }
-
-        if (patient.otp !== otp) {
-            return res.status(400).json({
-                success: false,
-                message: 'Invalid verification code. Please check and try again.',
-                error: 'INVALID_OTP'
-            });
-        }
-
-        if (patient.otpExpiry && new Date() > patient.otpExpiry) {
-            return res.status(400).json({
-                success: false,
-                message: 'Verification code has expired. Please request a new code.',
-                error: 'OTP_EXPIRED'
-            });
-        }
-
-        // OTP Verified - Update step and generate JWT
-        await prisma.patient.update({
-            where: { email },
-            data: {
-                otp: null,
-                otpExpiry: null,
-                onboardingStep: PatientOnboardingStep.PERSONAL_INFO_COMPLETE
-            }
-        });
-
-        const token = generateJWT(patient.id, patient.email);
-
-        return res.status(200).json({
-            success: true,
-            message: 'Email verified successfully. You can now proceed with onboarding.',
-            data: {
-                patientId: patient.id,
-                token,
-                onboardingStep: PatientOnboardingStep.PERSONAL_INFO_COMPLETE
-            }
-        });
-
-    } catch (error) {
-        console.error('Verify OTP error:', error);
-        return res.status(500).json({
-            success: false,
-            message: 'An error occurred during verification',
-            error: 'INTERNAL_SERVER_ERROR'
-        });
-    }
-};
-
 // Personal Info: Name, Phone, Gender, Age, City
 export const onboardingPersonalInfo = async (req: Request, res: Response) => {
     try {
@@ -404,49 +21,17 @@ export const onboardingPersonalInfo = async (req: Request, res: Response) => {
             });
         }
 
-        if (typeof name !== 'string' || name.trim().length < 2) {
+        const { data: fields, error: fieldError } = parseProfileFields(PATIENT_PROFILE_FIELDS, req.body, ['name', 'phone', 'gender', 'age', 'city']);
+        if (fieldError) {
             return res.status(400).json({
                 success: false,
-                message: 'Name must be at least 2 characters long',
-                error: 'INVALID_NAME'
+                message: fieldError.message,
+                error: fieldError.code
             });
         }
 
-        if (!validatePhoneNumber(phone)) {
-            return res.status(400).json({
-                success: false,
-                message: 'Invalid phone number format',
-                error: 'INVALID_PHONE'
-            });
-        }
-
-        if (!Object.values(Gender).includes(gender)) {
-            return res.status(400).json({
-                success: false,
-                message: `Gender must be one of: ${Object.values(Gender).join(', ')}`,
-                error: 'INVALID_GENDER'
-            });
-        }
-
-        const ageNum = Number(age);
-        if (isNaN(ageNum) || !validateAge(ageNum)) {
-            return res.status(400).json({
-                success: false,
-                message: 'Age must be between 1 and 120',
-                error: 'INVALID_AGE'
-            });
-        }
-
-        if (typeof city !== 'string' || city.trim().length < 2) {
-            return res.status(400).json({
-                success: false,
-                message: 'City must be at least 2 characters long',
-                error: 'INVALID_CITY'
-            });
-        }
-
-        // Check if patient exists and is at correct step
-        const patient = await prisma.patient.findUnique({ where: { id: patientId } });
+        // Check if patient exists and has verified their email or phone
+        const patient = await prisma.patient.findUnique({ where: { id: patientId }, include: PATIENT_ONBOARDING_INCLUDE });
         if (!patient) {
             return res.status(404).json({
                 success: false,
@@ -455,31 +40,31 @@ export const onboardingPersonalInfo = async (req: Request, res: Response) => {
             });
         }
 
-        if (patient.onboardingStep !== PatientOnboardingStep.PERSONAL_INFO_COMPLETE) {
+        const blocked = patientStepBlockedBy(patient, 'PERSONAL_INFO');
+        if (blocked) {
             return res.status(400).json({
                 success: false,
-                message: 'Please complete email verification first',
+                message: blocked,
                 error: 'INVALID_ONBOARDING_STEP'
             });
         }
 
         const updatedPatient = await prisma.patient.update({
             where: { id: patientId },
-            data: {
-                name: name.trim(),
-                phone: phone.trim(),
-                gender: gender as Gender,
-                age: ageNum,
-                city: city.trim()
-            },
+            data: { ...fields, onboardingStep: patientStateFor({ ...patient, ...fields }) },
+            include: { user: { select: { email: true } } }
         });
+        await syncVerifiedPhone(updatedPatient.userId);
+        if (!isPatientProfileComplete(patient)) {
+            void notifyOnboardingCompleted('patient', updatedPatient.id);
+        }
 
         return res.status(200).json({
             success: true,
             message: 'Personal information saved successfully. Onboarding complete!',
             data: {
                 patientId: updatedPatient.id,
-                email: updatedPatient.email,
+                email: updatedPatient.user.email,
                 name: updatedPatient.name
             }
         });
@@ -493,71 +78,101 @@ export const onboardingPersonalInfo = async (req: Request, res: Response) => {
     }
 };
 
-// Login: Email + Password
-export const login = async (req: Request, res: Response) => {
+// Edit the logged-in patient's personal info once onboarding is done. Any subset of the
+// onboarding fields can be sent; each is checked like it was during onboarding and the changes
+// are recorded in the audit trail.
+export const updateMyProfile = async (req: Request, res: Response) => {
     try {
-        const { email, password } = req.body;
+        const patientId = req.principal!.id;
+        const body = req.body ?? {};
 
-        if (!email || !password) {
+        const editable = Object.keys(PATIENT_PROFILE_FIELDS);
+        if (Object.keys(body).length === 0) {
             return res.status(400).json({
                 success: false,
-                message: 'Email and password are required',
+                message: `Send at least one field to update: ${editable.join(', ')}`,
                 error: 'MISSING_FIELDS'
             });
         }
 
-        if (!validateEmail(email)) {
+        const unknownFields = Object.keys(body).filter(field => !editable.includes(field));
+        if (unknownFields.length > 0) {
             return res.status(400).json({
                 success: false,
-                message: 'Invalid email format',
-                error: 'INVALID_EMAIL'
+                message: `These fields can't be edited here: ${unknownFields.join(', ')}. Editable fields: ${editable.join(', ')}`,
+                error: 'UNKNOWN_FIELDS'
             });
         }
 
-        const patient = await prisma.patient.findUnique({ where: { email } });
-        if (!patient) {
-            return res.status(401).json({
+        const { data: fields, error: fieldError } = parseProfileFields(PATIENT_PROFILE_FIELDS, body);
+        if (fieldError) {
+            return res.status(400).json({
                 success: false,
-                message: 'Invalid email or password',
-                error: 'INVALID_CREDENTIALS'
+                message: fieldError.message,
+                error: fieldError.code
             });
         }
 
-        if (!patient.password) {
-            return res.status(401).json({
+        const current = await prisma.patient.findUnique({ where: { id: patientId }, include: PATIENT_ONBOARDING_INCLUDE });
+        if (!current) {
+            return res.status(404).json({
                 success: false,
-                message: 'Invalid email or password',
-                error: 'INVALID_CREDENTIALS'
+                message: 'Patient account not found',
+                error: 'PATIENT_NOT_FOUND'
             });
         }
 
-        const isPasswordValid = await bcrypt.compare(password, patient.password);
-        if (!isPasswordValid) {
-            return res.status(401).json({
+        // Until onboarding is done the personal info step fills the profile, and keeps onboardingStep in step
+        if (currentOnboardingStep('patient', current) !== null) {
+            return res.status(400).json({
                 success: false,
-                message: 'Invalid email or password',
-                error: 'INVALID_CREDENTIALS'
+                message: 'Please complete onboarding before editing your profile',
+                error: 'ONBOARDING_INCOMPLETE'
+            });
+        }
+        const { user: _user, ...patient } = current;
+
+        const changes = diffProfile(patient, fields);
+        if (Object.keys(changes).length === 0) {
+            return res.status(200).json({
+                success: true,
+                message: 'No changes to save',
+                data: { patientId, changedFields: [] }
             });
         }
 
-        const token = generateJWT(patient.id, patient.email);
+        await prisma.$transaction([
+            prisma.patient.update({
+                where: { id: patientId },
+                data: Object.fromEntries(Object.keys(changes).map(field => [field, fields[field as keyof typeof fields]]))
+            }),
+            prisma.profileChange.create({
+                data: {
+                    role: 'patient',
+                    profileId: patientId,
+                    actorType: req.principal!.type,
+                    actorId: req.principal!.id,
+                    changes: changes as Prisma.InputJsonObject,
+                    ipAddress: req.ip ?? null
+                }
+            })
+        ]);
+
+        // An edited number loses or gains its verified flag against the account phone
+        if (changes.phone) {
+            await syncVerifiedPhone(patient.userId);
+        }
 
         return res.status(200).json({
             success: true,
-            message: 'Login successful',
-            data: {
-                patientId: patient.id,
-                token,
-                email: patient.email,
-                name: patient.name,
-                onboardingStep: patient.onboardingStep
-            }
+            message: 'Profile updated successfully',
+            data: { patientId, changedFields: Object.keys(changes) }
         });
     } catch (error) {
-        console.error('Login error:', error);
+        console.error('Update patient profile error:', error);
         return res.status(500).json({
             success: false,
-            message: 'An error occurred during login',
+            message: 'An error occurred while updating the profile',
             error: 'INTERNAL_SERVER_ERROR'
         });
     }
@@ -569,9 +184,10 @@ export const fetchAll = async (req: Request, res: Response) => {
         const patients = await prisma.patient.findMany({
             select: {
                 id: true,
-                email: true,
+                user: { select: { email: true } },
                 name: true,
                 phone: true,
+                phoneVerified: true,
                 gender: true,
                 age: true,
                 city: true,
@@ -583,7 +199,7 @@ export const fetchAll = async (req: Request, res: Response) => {
         return res.status(200).json({
             success: true,
             message: 'Patients fetched successfully',
-            data: patients,
+            data: patients.map(withEmail),
             count: patients.length
         });
     } catch (error) {
@@ -613,9 +229,10 @@ export const fetchById = async (req: Request, res: Response) => {
             where: { id },
             select: {
                 id: true,
-                email: true,
+                user: { select: { email: true } },
                 name: true,
                 phone: true,
+                phoneVerified: true,
                 gender: true,
                 age: true,
                 city: true,
@@ -636,7 +253,7 @@ export const fetchById = async (req: Request, res: Response) => {
         return res.status(200).json({
             success: true,
             message: 'Patient fetched successfully',
-            data: patient
+            data: withEmail(patient)
         });
     } catch (error) {
         console.error('Fetch patient by ID error:', error);
@@ -735,6 +352,10 @@ export const saveDoctor = async (req: Request, res: Response) => {
             if (!verifyRelation || verifyRelation.length === 0) {
                 console.warn('Warning: Insert may have failed silently. Relation not found after insert.');
             }
+
+            if (result > 0) {
+                void notifyDoctorSaved(doctorId, patient);
+            }
         } catch (prismaError: any) {
             // Handle Prisma foreign key constraint errors
             if (prismaError.code === 'P2003' || prismaError.code === '23503') {
@@ -877,7 +498,7 @@ export const getSavedDoctors = async (req: Request, res: Response) => {
         // First try Prisma relation, then fallback to raw query if needed
         type DoctorSelect = {
             id: string;
-            email: string;
+            user: { email: string | null };
             name: string | null;
             age: number | null;
             gender: string | null;
@@ -898,7 +519,7 @@ export const getSavedDoctors = async (req: Request, res: Response) => {
                     savedDoctors: {
                         select: {
                             id: true,
-                            email: true,
+                            user: { select: { email: true } },
                             name: true,
                             age: true,
                             gender: true,
@@ -928,7 +549,7 @@ export const getSavedDoctors = async (req: Request, res: Response) => {
                         where: { id: { in: doctorIds } },
                         select: {
                             id: true,
-                            email: true,
+                            user: { select: { email: true } },
                             name: true,
                             age: true,
                             gender: true,
@@ -957,7 +578,7 @@ export const getSavedDoctors = async (req: Request, res: Response) => {
                     where: { id: { in: doctorIds } },
                     select: {
                         id: true,
-                        email: true,
+                        user: { select: { email: true } },
                         name: true,
                         age: true,
                         gender: true,
@@ -976,7 +597,7 @@ export const getSavedDoctors = async (req: Request, res: Response) => {
         return res.status(200).json({
             success: true,
             message: 'Saved doctors fetched successfully',
-            data: savedDoctors,
+            data: savedDoctors.map(withEmail),
             count: savedDoctors.length
         });
     } catch (error) {
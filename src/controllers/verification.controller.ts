@@ -0,0 +1,342 @@
+import { Request, Response } from 'express';
+import { PrismaClient, VerificationStatus } from '@prisma/client';
+import { validateRegistrationNumber } from '../services/validation.service';
+import { notifyVerificationReviewed } from '../services/notification.service';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_COUNCIL_LENGTH = 100;
+const MAX_NOTES_LENGTH = 1000;
+
+const verificationSelect = {
+    registrationNumber: true,
+    medicalCouncil: true,
+    verificationStatus: true,
+    verificationSubmittedAt: true,
+    verifiedAt: true,
+    verificationNotes: true
+};
+
+const reviewSelect = {
+    id: true,
+    status: true,
+    notes: true,
+    registrationNumber: true,
+    medicalCouncil: true,
+    admin: { select: { id: true, name: true } },
+    createdAt: true
+};
+
+// Doctor submits (or resubmits after a rejection) their registration number and council
+export const submitVerification = async (req: Request, res: Response) => {
+    try {
+        const id = req.params.id as string;
+        const { registrationNumber, medicalCouncil } = req.body;
+
+        if (!registrationNumber || !medicalCouncil) {
+            return res.status(400).json({
+                success: false,
+                message: 'Registration number and medical council are required',
+                error: 'MISSING_FIELDS'
+            });
+        }
+
+        const number = String(registrationNumber).trim().toUpperCase();
+        if (!validateRegistrationNumber(number)) {
+            return res.status(400).json({
+                success: false,
+                message: 'Registration number must be 3-30 letters, digits, spaces or / . - characters',
+                error: 'INVALID_REGISTRATION_NUMBER'
+            });
+        }
+
+        const council = String(medicalCouncil).trim();
+        if (council.length < 2 || council.length > MAX_COUNCIL_LENGTH) {
+            return res.status(400).json({
+                success: false,
+                message: `Medical council must be between 2 and ${MAX_COUNCIL_LENGTH} characters`,
+                error: 'INVALID_MEDICAL_COUNCIL'
+            });
+        }
+
+        const doctor = await prisma.doctor.findUnique({ where: { id }, select: { verificationStatus: true } });
+        if (!doctor) {
+            return res.status(404).json({
+                success: false,
+                message: 'Doctor not found',
+                error: 'DOCTOR_NOT_FOUND'
+            });
+        }
+
+        if (doctor.verificationStatus === VerificationStatus.APPROVED) {
+            return res.status(409).json({
+                success: false,
+                message: 'Your registration is already verified',
+                error: 'ALREADY_VERIFIED'
+            });
+        }
+
+        // One registration belongs to one doctor
+        const claimedElsewhere = await prisma.doctor.count({
+            where: {
+                id: { not: id },
+                registrationNumber: number,
+                medicalCouncil: { equals: council, mode: 'insensitive' },
+                verificationStatus: { in: [VerificationStatus.PENDING, VerificationStatus.APPROVED] }
+            }
+        });
+        if (claimedElsewhere > 0) {
+            return res.status(409).json({
+                success: false,
+                message: 'This registration number is already registered to another doctor',
+                error: 'REGISTRATION_IN_USE'
+            });
+        }
+
+        const updatedDoctor = await prisma.doctor.update({
+            where: { id },
+            data: {
+                registrationNumber: number,
+                medicalCouncil: council,
+                verificationStatus: VerificationStatus.PENDING,
+                verificationSubmittedAt: new Date(),
+                verificationNotes: null
+            },
+            select: verificationSelect
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: 'Registration submitted for review',
+            data: updatedDoctor
+        });
+    } catch (error) {
+        console.error('Submit verification error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while submitting registration details',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Current verification state and review history for one doctor
+export const getVerification = async (req: Request, res: Response) => {
+    try {
+        const id = req.params.id as string;
+
+        const doctor = await prisma.doctor.findUnique({
+            where: { id },
+            select: {
+                ...verificationSelect,
+                verificationReviews: { select: reviewSelect, orderBy: { createdAt: 'desc' } }
+            }
+        });
+
+        if (!doctor) {
+            return res.status(404).json({
+                success: false,
+                message: 'Doctor not found',
+                error: 'DOCTOR_NOT_FOUND'
+            });
+        }
+
+        const { verificationReviews, ...verification } = doctor;
+
+        return res.status(200).json({
+            success: true,
+            message: 'Verification status fetched successfully',
+            data: { ...verification, reviews: verificationReviews }
+        });
+    } catch (error) {
+        console.error('Get verification error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while fetching verification status',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Moderation queue, oldest submission first: ?status=PENDING&limit=20&cursor=<last doctor id>
+export const listVerifications = async (req: Request, res: Response) => {
+    try {
+        const { status, limit, cursor } = req.query;
+
+        const statusFilter = status === undefined ? VerificationStatus.PENDING : status as VerificationStatus;
+        if (!Object.values(VerificationStatus).includes(statusFilter)) {
+            return res.status(400).json({
+                success: false,
+                message: `Status must be one of: ${Object.values(VerificationStatus).join(', ')}`,
+                error: 'INVALID_STATUS'
+            });
+        }
+
+        const pageSize = limit === undefined ? DEFAULT_PAGE_SIZE : Number(limit);
+        if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+            return res.status(400).json({
+                success: false,
+                message: `Limit must be between 1 and ${MAX_PAGE_SIZE}`,
+                error: 'INVALID_LIMIT'
+            });
+        }
+
+        if (cursor !== undefined && typeof cursor !== 'string') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid cursor',
+                error: 'INVALID_CURSOR'
+            });
+        }
+
+        const where = { verificationStatus: statusFilter };
+
+        const [total, doctors] = await Promise.all([
+            prisma.doctor.count({ where }),
+            prisma.doctor.findMany({
+                where,
+                // id breaks ties so the cursor position is stable
+                orderBy: [{ verificationSubmittedAt: 'asc' }, { id: 'asc' }],
+                take: pageSize + 1,
+                ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+                select: {
+                    id: true,
+                    name: true,
+                    specialty: true,
+                    latestQualification: true,
+                    yearsOfExperience: true,
+                    city: true,
+                    onboardingStep: true,
+                    ...verificationSelect
+                }
+            })
+        ]);
+
+        // One extra row tells us whether another page exists
+        const hasMore = doctors.length > pageSize;
+        const page = hasMore ? doctors.slice(0, pageSize) : doctors;
+
+        return res.status(200).json({
+            success: true,
+            message: 'Verification requests fetched successfully',
+            data: page,
+            count: page.length,
+            total,
+            nextCursor: hasMore ? page[page.length - 1].id : null
+        });
+    } catch (error: any) {
+        // Unknown cursor id
+        if (error.code === 'P2025') {
+            return res.status(400).json({
+                success: false,
+                message: 'Invalid cursor',
+                error: 'INVALID_CURSOR'
+            });
+        }
+        console.error('List verifications error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while fetching verification requests',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
+
+// Approve or reject a pending submission. Rejections need a note telling the doctor what to fix.
+export const reviewVerification = (decision: 'APPROVED' | 'REJECTED') => async (req: Request, res: Response) => {
+    try {
+        const doctorId = req.params.doctorId as string;
+        const notes = typeof req.body?.notes === 'string' && req.body.notes.trim() ? req.body.notes.trim() : null;
+
+        if (decision === VerificationStatus.REJECTED && !notes) {
+            return res.status(400).json({
+                success: false,
+                message: 'Notes are required when rejecting a registration',
+                error: 'MISSING_NOTES'
+            });
+        }
+
+        if (notes && notes.length > MAX_NOTES_LENGTH) {
+            return res.status(400).json({
+                success: false,
+                message: `Notes must be at most ${MAX_NOTES_LENGTH} characters`,
+                error: 'INVALID_NOTES'
+            });
+        }
+
+        const doctor = await prisma.doctor.findUnique({
+            where: { id: doctorId },
+            select: { verificationStatus: true, registrationNumber: true, medicalCouncil: true }
+        });
+
+        if (!doctor) {
+            return res.status(404).json({
+                success: false,
+                message: 'Doctor not found',
+                error: 'DOCTOR_NOT_FOUND'
+            });
+        }
+
+        if (doctor.verificationStatus !== VerificationStatus.PENDING || !doctor.registrationNumber || !doctor.medicalCouncil) {
+            return res.status(409).json({
+                success: false,
+                message: 'Only pending submissions can be reviewed',
+                error: 'NOT_PENDING'
+            });
+        }
+
+        // The status guard makes a second reviewer's concurrent decision a no-op
+        const reviewed = await prisma.$transaction(async tx => {
+            const updated = await tx.doctor.updateMany({
+                where: { id: doctorId, verificationStatus: VerificationStatus.PENDING },
+                data: {
+                    verificationStatus: decision,
+                    verifiedAt: decision === VerificationStatus.APPROVED ? new Date() : null,
+                    verificationNotes: notes
+                }
+            });
+            if (updated.count === 0) {
+                return false;
+            }
+
+            await tx.doctorVerificationReview.create({
+                data: {
+                    doctorId,
+                    adminId: req.principal!.id,
+                    status: decision,
+                    notes,
+                    registrationNumber: doctor.registrationNumber!,
+                    medicalCouncil: doctor.medicalCouncil!
+                }
+            });
+            return true;
+        });
+
+        if (!reviewed) {
+            return res.status(409).json({
+                success: false,
+                message: 'Only pending submissions can be reviewed',
+                error: 'NOT_PENDING'
+            });
+        }
+
+        void notifyVerificationReviewed(doctorId, decision, notes);
+
+        const updatedDoctor = await prisma.doctor.findUnique({ where: { id: doctorId }, select: { id: true, ...verificationSelect } });
+
+        return res.status(200).json({
+            success: true,
+            message: decision === VerificationStatus.APPROVED ? 'Doctor verified' : 'Verification rejected',
+            data: updatedDoctor
+        });
+    } catch (error) {
+        console.error('Review verification error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while reviewing the verification',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+};
@@ -1,19 +1,29 @@
+import 'dotenv/config'; // Before any other import: services read process.env as they load
 import express from 'express';
-import dotenv from 'dotenv';
 import cors from 'cors';
 import session from 'express-session';
 import passport from './services/googleAuth.service';
 import doctorRoutes from './routes/doctor.routes';
 import patientRoutes from './routes/patient.routes';
 import authRoutes from './routes/auth.routes';
-import { PrismaClient } from '@prisma/client';
-
-dotenv.config();
+import appointmentRoutes from './routes/appointment.routes';
+import adminRoutes from './routes/admin.routes';
+import notificationRoutes from './routes/notification.routes';
+import fileRoutes from './routes/file.routes';
+import specialtyRoutes from './routes/specialty.routes';
+import qualificationRoutes from './routes/qualification.routes';
+import { startWorker } from './services/jobQueue.service';
+import { jobHandlers } from './services/jobHandlers.service';
 
 const app = express();
-const prisma = new PrismaClient();
 const port = process.env.PORT || 3000;
 
+// Behind a load balancer (e.g. Render) req.ip is the proxy unless the hop count is trusted;
+// rate limits are keyed on req.ip
+if (process.env.TRUST_PROXY) {
+    app.set('trust proxy', Number.isNaN(Number(process.env.TRUST_PROXY)) ? process.env.TRUST_PROXY : Number(process.env.TRUST_PROXY));
+}
+
 // Session configuration (required for Passport)
 app.use(session({
     secret: process.env.SESSION_SECRET || 'your-session-secret-change-in-production',
@@ -43,22 +53,24 @@ app.use(express.json());
 app.use('/auth', authRoutes); // Google OAuth routes
 app.use('/doctors', doctorRoutes);
 app.use('/patients', patientRoutes);
+app.use('/appointments', appointmentRoutes);
+app.use('/admin', adminRoutes);
+app.use('/notifications', notificationRoutes);
+app.use('/files', fileRoutes);
+app.use('/specialties', specialtyRoutes);
+app.use('/qualifications', qualificationRoutes);
 
 app.get('/', (req, res) => {
     res.send('ECare+ Backend is running');
 });
 
-// Patient list stub
-app.get('/patients', async (req, res) => {
-    try {
-        const patients = await prisma.patient.findMany();
-        res.json(patients);
-    } catch (e) {
-        res.status(500).json({ error: 'Failed to fetch patients' });
-    }
-});
-
 
 app.listen(port, () => {
     console.log(`Server is running at http://localhost:${port}`);
 });
+
+// Single-process setups (local development, one small instance) can run the job worker
+// alongside the API instead of as a separate `npm run worker` process
+if (process.env.JOB_WORKER_IN_PROCESS === 'true') {
+    startWorker(jobHandlers);
+}
@@ -0,0 +1,174 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { isSessionActive } from '../services/token.service';
+
+// JWT Secret (should be in .env)
+const JWT_SECRET: string = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+export type PrincipalType = 'doctor' | 'patient' | 'admin';
+
+// Permissions beyond owning a resource. Ownership (a doctor editing their own profile)
+// is declared per route with requireSelf; permissions cover cross-account access.
+export type Permission =
+    | 'patients:list' // List every patient with contact details
+    | 'patients:read' // Read any patient profile
+    | 'doctors:list:all' // List doctors including incomplete onboarding and emails
+    | 'doctors:verify' // Review doctors' medical registrations
+    | 'jobs:manage' // Inspect the background job queue and retry dead jobs
+    | 'catalogue:manage'; // Edit the specialty and qualification catalogues
+
+const ROLE_PERMISSIONS: Record<PrincipalType, Permission[]> = {
+    admin: ['patients:list', 'patients:read', 'doctors:list:all', 'doctors:verify', 'jobs:manage', 'catalogue:manage'],
+    doctor: [],
+    patient: []
+};
+
+export const hasPermission = (principal: Principal | undefined, permission: Permission): boolean => {
+    return !!principal && ROLE_PERMISSIONS[principal.type].includes(permission);
+};
+
+// Authenticated caller, decoded from the access token issued by the token service
+export type Principal = {
+    type: PrincipalType;
+    id: string;
+    email: string | null; // Null for phone-only accounts
+    userId?: string; // Account behind a doctor/patient principal; absent on admin and older tokens
+    sessionId: string; // Session the token was issued for; revoking it ends the token
+};
+
+declare global {
+    namespace Express {
+        interface Request {
+            principal?: Principal;
+        }
+    }
+}
+
+// Decode a Bearer token into a principal. Returns null for missing, invalid or expired tokens,
+// and for tokens whose session has been revoked (logout, password reset).
+const decodePrincipal = async (req: Request): Promise<Principal | null> => {
+    let decoded: { doctorId?: string; patientId?: string; adminId?: string; email: string | null; type?: string; userId?: string; sid?: string };
+    try {
+        const authHeader = req.headers.authorization;
+        if (!authHeader || !authHeader.startsWith('Bearer ')) {
+            return null;
+        }
+
+        const token = authHeader.substring(7);
+        decoded = jwt.verify(token, JWT_SECRET) as typeof decoded;
+    } catch (error) {
+        return null;
+    }
+
+    // Tokens from before refresh sessions existed have no session to revoke them by, so logout
+    // and password changes couldn't end them: they are refused and the client logs in again
+    if (!decoded.sid || !(await isSessionActive(decoded.sid))) {
+        return null;
+    }
+    const sessionId = decoded.sid;
+
+    let principal: Principal | null = null;
+    if (decoded.type === 'doctor' && decoded.doctorId) {
+        principal = { type: 'doctor', id: decoded.doctorId, email: decoded.email, sessionId };
+    } else if (decoded.type === 'patient' && decoded.patientId) {
+        principal = { type: 'patient', id: decoded.patientId, email: decoded.email, sessionId };
+    } else if (decoded.type === 'admin' && decoded.adminId) {
+        principal = { type: 'admin', id: decoded.adminId, email: decoded.email, sessionId };
+    }
+
+    if (principal && decoded.userId && principal.type !== 'admin') {
+        principal.userId = decoded.userId;
+    }
+
+    return principal;
+};
+
+// Require a valid token and attach the principal to the request
+export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
+    const principal = await decodePrincipal(req);
+    if (!principal) {
+        return res.status(401).json({
+            success: false,
+            message: 'Authentication required. Please provide a valid JWT token.',
+            error: 'UNAUTHORIZED'
+        });
+    }
+
+    req.principal = principal;
+    next();
+};
+
+// Attach the principal when a valid token is present, but let anonymous requests through
+export const optionalAuthenticate = async (req: Request, res: Response, next: NextFunction) => {
+    const principal = await decodePrincipal(req);
+    if (principal) {
+        req.principal = principal;
+    }
+    next();
+};
+
+// Only allow principals of the given type(s). Use after authenticate.
+export const requireType = (...types: PrincipalType[]) => (req: Request, res: Response, next: NextFunction) => {
+    if (!req.principal || !types.includes(req.principal.type)) {
+        return res.status(403).json({
+            success: false,
+            message: `This action is only available to ${types.join(' or ')} accounts`,
+            error: 'FORBIDDEN'
+        });
+    }
+    next();
+};
+
+// Only allow principals holding the given permission. Use after authenticate.
+export const authorize = (permission: Permission) => (req: Request, res: Response, next: NextFunction) => {
+    if (!hasPermission(req.principal, permission)) {
+        return res.status(403).json({
+            success: false,
+            message: 'You do not have permission to perform this action',
+            error: 'FORBIDDEN'
+        });
+    }
+    next();
+};
+
+// Only allow the owner of the resource, or a principal holding the optional bypass permission.
+// The owner id is read from a route param and/or a body field; a body field that is missing is
+// filled in from the token so handlers can keep reading it.
+export const requireSelf = (type: PrincipalType, source: { param?: string; body?: string }, bypass?: Permission) =>
+    (req: Request, res: Response, next: NextFunction) => {
+        const principal = req.principal;
+
+        if (bypass && hasPermission(principal, bypass)) {
+            return next();
+        }
+
+        if (!principal || principal.type !== type) {
+            return res.status(403).json({
+                success: false,
+                message: `This action is only available to ${type} accounts`,
+                error: 'FORBIDDEN'
+            });
+        }
+
+        if (source.param && req.params[source.param] !== principal.id) {
+            return res.status(403).json({
+                success: false,
+                message: 'You can only access your own account',
+                error: 'FORBIDDEN'
+            });
+        }
+
+        if (source.body) {
+            const body = req.body ?? {};
+            if (body[source.body] !== undefined && body[source.body] !== principal.id) {
+                return res.status(403).json({
+                    success: false,
+                    message: 'You can only access your own account',
+                    error: 'FORBIDDEN'
+                });
+            }
+            req.body = { ...body, [source.body]: principal.id };
+        }
+
+        next();
+    };
@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRateLimitStore, normalizeEmailKey } from '../services/rateLimit.service';
+import { normalizePhoneNumber } from '../services/validation.service';
+
+const envNumber = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// Defaults for the auth endpoints, overridable per deployment
+const AUTH_RATE_LIMIT_WINDOW_MS = envNumber('AUTH_RATE_LIMIT_WINDOW_MINUTES', 15) * 60 * 1000;
+const AUTH_RATE_LIMIT_MAX_PER_IP = envNumber('AUTH_RATE_LIMIT_MAX_PER_IP', 30);
+const AUTH_RATE_LIMIT_MAX_PER_EMAIL = envNumber('AUTH_RATE_LIMIT_MAX_PER_EMAIL', 10);
+
+type RateLimitOptions = {
+    name: string; // Namespaces the counters so each route group has its own budget
+    windowMs: number;
+    max: number;
+    key: 'ip' | 'email' | 'phone';
+};
+
+// Reject with 429 RATE_LIMITED once a client exceeds max requests in the window.
+// Email- and phone-keyed limits skip requests without one; the handler rejects those anyway.
+export const rateLimit = ({ name, windowMs, max, key }: RateLimitOptions) =>
+    async (req: Request, res: Response, next: NextFunction) => {
+        let subject: string | undefined;
+        if (key === 'ip') {
+            subject = req.ip ?? req.socket.remoteAddress;
+        } else if (key === 'email' && typeof req.body?.email === 'string' && req.body.email.trim()) {
+            subject = normalizeEmailKey(req.body.email);
+        } else if (key === 'phone' && typeof req.body?.phone === 'string') {
+            subject = normalizePhoneNumber(req.body.phone) ?? undefined;
+        }
+
+        if (!subject) {
+            return next();
+        }
+
+        const hit = await getRateLimitStore().increment(`${name}:${key}:${subject}`, windowMs);
+        if (hit.count > max) {
+            const retryAfterSeconds = Math.max(1, Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000));
+            res.set('Retry-After', String(retryAfterSeconds));
+            return res.status(429).json({
+                success: false,
+                message: 'Too many requests. Please try again later.',
+                error: 'RATE_LIMITED',
+                data: { retryAfterSeconds }
+            });
+        }
+
+        next();
+    };
+
+// Per-IP, per-email and per-phone limits for credential endpoints
+export const authRateLimit = (name: string) => [
+    rateLimit({ name, windowMs: AUTH_RATE_LIMIT_WINDOW_MS, max: AUTH_RATE_LIMIT_MAX_PER_IP, key: 'ip' }),
+    rateLimit({ name, windowMs: AUTH_RATE_LIMIT_WINDOW_MS, max: AUTH_RATE_LIMIT_MAX_PER_EMAIL, key: 'email' }),
+    rateLimit({ name, windowMs: AUTH_RATE_LIMIT_WINDOW_MS, max: AUTH_RATE_LIMIT_MAX_PER_EMAIL, key: 'phone' })
+];
@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+
+const envNumber = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const MAX_UPLOAD_BYTES = envNumber('MAX_UPLOAD_MB', 10) * 1024 * 1024;
+
+// Files are held in memory until the handler has validated them, so nothing half-checked
+// reaches storage
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_UPLOAD_BYTES, files: 1, fields: 10 }
+});
+
+// Parse a multipart request with one file in `field`. Multer's errors become the usual JSON errors.
+export const singleFile = (field: string) => (req: Request, res: Response, next: NextFunction) => {
+    upload.single(field)(req, res, (error: unknown) => {
+        if (!error) {
+            return next();
+        }
+
+        if (error instanceof multer.MulterError) {
+            if (error.code === 'LIMIT_FILE_SIZE') {
+                return res.status(413).json({
+                    success: false,
+                    message: `Files must be at most ${Math.floor(MAX_UPLOAD_BYTES / (1024 * 1024))} MB`,
+                    error: 'FILE_TOO_LARGE'
+                });
+            }
+            return res.status(400).json({
+                success: false,
+                message: error.code === 'LIMIT_UNEXPECTED_FILE' ? `Upload a single file in the "${field}" field` : error.message,
+                error: 'INVALID_UPLOAD'
+            });
+        }
+
+        console.error('Upload parse error:', error);
+        return res.status(400).json({
+            success: false,
+            message: 'Could not read the uploaded file',
+            error: 'INVALID_UPLOAD'
+        });
+    });
+};
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { login } from '../controllers/admin.controller';
+import { fetchAllForAdmin } from '../controllers/doctor.controller';
+import { fetchAll as fetchAllPatients } from '../controllers/patient.controller';
+import { listJobs, retryJob } from '../controllers/job.controller';
+import { listVerifications, reviewVerification } from '../controllers/verification.controller';
+import { createSpecialty, updateSpecialty, createQualification, updateQualification } from '../controllers/catalogue.controller';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+import { authRateLimit } from '../middleware/rateLimit.middleware';
+
+const router = Router();
+
+router.post('/login', authRateLimit('admin-login'), login); // Admin login with email and password
+
+router.get('/doctors', authenticate, authorize('doctors:list:all'), fetchAllForAdmin); // All doctors, including incomplete onboarding
+router.get('/patients', authenticate, authorize('patients:list'), fetchAllPatients); // All patients with contact details
+router.get('/verifications', authenticate, authorize('doctors:verify'), listVerifications); // Registration review queue (?status=PENDING by default)
+router.post('/verifications/:doctorId/approve', authenticate, authorize('doctors:verify'), reviewVerification('APPROVED')); // Verify a doctor (optional notes)
+router.post('/verifications/:doctorId/reject', authenticate, authorize('doctors:verify'), reviewVerification('REJECTED')); // Reject with notes for the doctor
+router.get('/jobs', authenticate, authorize('jobs:manage'), listJobs); // Background jobs, filterable by status and type
+router.post('/jobs/:id/retry', authenticate, authorize('jobs:manage'), retryJob); // Requeue a dead job
+router.post('/specialties', authenticate, authorize('catalogue:manage'), createSpecialty); // Add a specialty or sub-specialty
+router.patch('/specialties/:id', authenticate, authorize('catalogue:manage'), updateSpecialty); // Rename, edit synonyms or move under a parent
+router.post('/qualifications', authenticate, authorize('catalogue:manage'), createQualification); // Add a qualification
+router.patch('/qualifications/:id', authenticate, authorize('catalogue:manage'), updateQualification); // Edit name, level or synonyms
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { bookAppointment, getMyAppointments, getAppointmentById, confirmAppointment, declineAppointment, cancelAppointment } from '../controllers/appointment.controller';
+import { authenticate, requireType } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(authenticate);
+
+router.post('/', requireType('patient'), bookAppointment); // Patient books a slot with a doctor
+router.get('/', getMyAppointments); // Appointments of the authenticated doctor or patient
+router.get('/:id', getAppointmentById); // Fetch appointment (participants only)
+router.post('/:id/confirm', requireType('doctor'), confirmAppointment); // Doctor confirms a pending appointment
+router.post('/:id/decline', requireType('doctor'), declineAppointment); // Doctor declines a pending appointment
+router.post('/:id/cancel', cancelAppointment); // Doctor or patient cancels
+
+export default router;
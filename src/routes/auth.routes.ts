@@ -1,6 +1,11 @@
 import { Router, Request, Response } from 'express';
 import passport from '../services/googleAuth.service';
 import { handleGoogleAuth } from '../services/googleAuth.service';
+import { refreshSession, findSessionByRefreshToken, revokeSession, revokeAllSessions, revokeAllUserSessions, sessionMetaFromRequest } from '../services/token.service';
+import { authenticate } from '../middleware/auth.middleware';
+import { authRateLimit } from '../middleware/rateLimit.middleware';
+import { switchRole } from '../controllers/account.controller';
+import { sendPhoneVerification, confirmPhone } from '../controllers/auth.controller';
 
 const router = Router();
 
@@ -51,16 +56,23 @@ router.get('/google/callback',
                 user.googleId,
                 user.email,
                 user.name,
-                userType as 'doctor' | 'patient'
+                userType as 'doctor' | 'patient',
+                sessionMetaFromRequest(req)
             );
 
             if (!result.success) {
                 return res.redirect(`${process.env.FRONTEND_URL}/auth/error?message=${encodeURIComponent(result.message || 'Authentication failed')}`);
             }
 
-            // Successful authentication - redirect with token and additional info
             const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-            const redirectUrl = `${frontendUrl}/callback?token=${result.token}&userType=${userType}&redirectTo=${encodeURIComponent(result.redirectTo || '/dashboard')}&isNewUser=${result.isNewUser}&isReturningIncompleteUser=${result.isReturningIncompleteUser || false}`;
+
+            // Account with 2FA - the frontend finishes the login at POST /doctors|patients/login/2fa
+            if ('requiresTwoFactor' in result && result.requiresTwoFactor) {
+                return res.redirect(`${frontendUrl}/callback?requiresTwoFactor=true&challengeToken=${encodeURIComponent(result.challengeToken)}&userType=${userType}`);
+            }
+
+            // Successful authentication - redirect with token and additional info
+            const redirectUrl = `${frontendUrl}/callback?token=${result.token}&refreshToken=${encodeURIComponent(result.refreshToken || '')}&userType=${userType}&redirectTo=${encodeURIComponent(result.redirectTo || '/dashboard')}&isNewUser=${result.isNewUser}&isReturningIncompleteUser=${result.isReturningIncompleteUser || false}${result.user?.currentStep ? `&currentStep=${result.user.currentStep}` : ''}`;
             
             return res.redirect(redirectUrl);
 
@@ -72,7 +84,7 @@ router.get('/google/callback',
 );
 
 // Manual Google auth endpoint (for mobile/API usage)
-router.post('/google/verify', async (req: Request, res: Response) => {
+router.post('/google/verify', authRateLimit('google-verify'), async (req: Request, res: Response) => {
     try {
         const { googleToken, userType } = req.body;
 
@@ -118,7 +130,8 @@ router.post('/google/verify', async (req: Request, res: Response) => {
             googleUser.id,
             googleUser.email,
             googleUser.name,
-            userType
+            userType,
+            sessionMetaFromRequest(req)
         );
 
         if (!result.success) {
@@ -129,6 +142,19 @@ router.post('/google/verify', async (req: Request, res: Response) => {
             });
         }
 
+        if ('requiresTwoFactor' in result && result.requiresTwoFactor) {
+            return res.status(200).json({
+                success: true,
+                message: 'Enter the code from your authenticator app to finish logging in',
+                data: {
+                    userId: result.user.id,
+                    userType,
+                    requiresTwoFactor: true,
+                    challengeToken: result.challengeToken
+                }
+            });
+        }
+
         return res.status(200).json({
             success: true,
             message: result.isNewUser ? 'Account created successfully with Google' : 
@@ -137,13 +163,15 @@ router.post('/google/verify', async (req: Request, res: Response) => {
             data: {
                 userId: result.user?.id,
                 token: result.token,
+                refreshToken: result.refreshToken,
                 email: result.user?.email,
                 name: result.user?.name,
                 userType,
                 isNewUser: result.isNewUser,
                 isReturningIncompleteUser: result.isReturningIncompleteUser || false,
                 redirectTo: result.redirectTo || '/dashboard',
-                onboardingStep: result.user?.onboardingStep
+                onboardingStep: result.user?.onboardingStep,
+                currentStep: result.user?.currentStep ?? null
             }
         });
 
@@ -157,4 +185,114 @@ router.post('/google/verify', async (req: Request, res: Response) => {
     }
 });
 
+// Exchange a refresh token for a new access token (the refresh token is rotated)
+router.post('/refresh', async (req: Request, res: Response) => {
+    try {
+        const { refreshToken } = req.body ?? {};
+
+        if (!refreshToken || typeof refreshToken !== 'string') {
+            return res.status(400).json({
+                success: false,
+                message: 'Refresh token is required',
+                error: 'MISSING_FIELDS'
+            });
+        }
+
+        const result = await refreshSession(refreshToken);
+        if ('error' in result) {
+            return res.status(401).json({
+                success: false,
+                message: result.error === 'REFRESH_TOKEN_REUSED'
+                    ? 'This refresh token has already been used. The session has been signed out for your security.'
+                    : 'Invalid or expired refresh token. Please log in again.',
+                error: result.error
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: 'Token refreshed successfully',
+            data: {
+                token: result.tokens.token,
+                refreshToken: result.tokens.refreshToken,
+                refreshTokenExpiresAt: result.tokens.refreshTokenExpiresAt,
+                userType: result.subject.type
+            }
+        });
+    } catch (error) {
+        console.error('Refresh token error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred while refreshing the token',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+});
+
+// Log out the current session: revokes its refresh token and the access tokens issued from it
+router.post('/logout', async (req: Request, res: Response) => {
+    try {
+        const { refreshToken } = req.body ?? {};
+
+        if (!refreshToken || typeof refreshToken !== 'string') {
+            return res.status(400).json({
+                success: false,
+                message: 'Refresh token is required',
+                error: 'MISSING_FIELDS'
+            });
+        }
+
+        // Logging out an unknown or already-revoked session is not an error
+        const session = await findSessionByRefreshToken(refreshToken);
+        if (session) {
+            await revokeSession(session.id);
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: 'Logged out successfully'
+        });
+    } catch (error) {
+        console.error('Logout error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred during logout',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+});
+
+// Log out of all devices
+router.post('/logout-all', authenticate, async (req: Request, res: Response) => {
+    try {
+        const principal = req.principal!;
+        // Doctor and patient logins of the same account are signed out together
+        const revokedSessions = principal.userId
+            ? await revokeAllUserSessions(principal.userId)
+            : await revokeAllSessions(principal.type, principal.id);
+
+        return res.status(200).json({
+            success: true,
+            message: 'Logged out of all devices',
+            data: {
+                revokedSessions
+            }
+        });
+    } catch (error) {
+        console.error('Logout all error:', error);
+        return res.status(500).json({
+            success: false,
+            message: 'An error occurred during logout',
+            error: 'INTERNAL_SERVER_ERROR'
+        });
+    }
+});
+
+// Switch between the doctor and patient roles of the same account
+router.post('/switch-role', authenticate, switchRole);
+
+// Verify a phone number on the signed-in account; matching profile numbers are marked verified
+router.post('/phone/send-otp', authenticate, authRateLimit('phone-verify'), sendPhoneVerification);
+router.post('/phone/verify', authenticate, authRateLimit('phone-verify'), confirmPhone);
+
 export default router;
\ No newline at end of file
@@ -1,20 +1,57 @@
 import { Router } from 'express';
-import { onboardingAuth, onboardingPersonalInfo, onboardingProfessionalInfo, onboardingAvailability, verifyOtp, login, fetchAll, fetchById, viewDoctorProfile, getLeads } from '../controllers/doctor.controller';
+import { onboardingPersonalInfo, onboardingProfessionalInfo, onboardingAvailability, fetchAll, searchDoctors, fetchNearby, fetchById, viewDoctorProfile, getLeads, getAvailableSlots, getSchedule, updateSchedule, getAvailabilityExceptions, createAvailabilityException, updateAvailabilityException, deleteAvailabilityException, updateMyProfile } from '../controllers/doctor.controller';
+import { createAuthHandlers } from '../controllers/auth.controller';
+import { getVerification, submitVerification } from '../controllers/verification.controller';
+import { createAttachmentHandlers } from '../controllers/attachment.controller';
+import { getMyOnboarding } from '../controllers/onboarding.controller';
+import { completeTwoFactorLogin, setupTwoFactor, enableTwoFactor, disableTwoFactor, regenerateRecoveryCodes } from '../controllers/account.controller';
+import { authenticate, requireType, optionalAuthenticate, requireSelf } from '../middleware/auth.middleware';
+import { authRateLimit } from '../middleware/rateLimit.middleware';
+import { singleFile } from '../middleware/upload.middleware';
 
 const router = Router();
+const auth = createAuthHandlers('doctor');
+const attachments = createAttachmentHandlers('doctor');
 
 // Onboarding routes
-router.post('/onboarding/auth', onboardingAuth); // Email OTP or Google Auth
-router.post('/onboarding/verify-otp', verifyOtp); // Verify OTP
-router.post('/onboarding/personal-info', onboardingPersonalInfo); // Name, Age, Gender, Language, Phone Number
-router.post('/onboarding/professional-info', onboardingProfessionalInfo); // Specialty, Years of Experience, Recent Grad
-router.post('/onboarding/availability', onboardingAvailability); // Location (address, city, locality), Available Days, Timing
+router.post('/onboarding/auth', authRateLimit('doctor-signup'), auth.onboardingAuth); // Email OTP or Google Auth
+router.post('/onboarding/verify-otp', authRateLimit('doctor-otp'), auth.verifyOtp); // Verify OTP
+router.post('/onboarding/resend-otp', authRateLimit('doctor-otp'), auth.resendOtp); // Send a fresh OTP (cooldown applies)
+router.post('/phone/send-otp', authRateLimit('doctor-phone'), auth.phoneOtp); // Text a sign-up/login code to a phone number (SMS or WhatsApp)
+router.post('/phone/verify-otp', authRateLimit('doctor-phone'), auth.verifyPhoneOtp); // Confirm the phone code; signs up or logs in
+router.post('/onboarding/personal-info', authenticate, requireSelf('doctor', { body: 'doctorId' }), onboardingPersonalInfo); // Name, Age, Gender, Language, Phone Number
+router.post('/onboarding/professional-info', authenticate, requireSelf('doctor', { body: 'doctorId' }), onboardingProfessionalInfo); // Specialties, Years of Experience, Qualifications (from the catalogues)
+router.post('/onboarding/availability', authenticate, requireSelf('doctor', { body: 'doctorId' }), onboardingAvailability); // Location (address, city, locality), weekly schedule (or Available Days + Timing)
 
 // Auth and fetch routes
-router.post('/login', login); // Login with email and password
-router.get('/', fetchAll); // Fetch all doctors
-router.get('/:id/leads', getLeads); // Get all patients who viewed doctor's profile (must come before /:id)
-router.get('/:id', fetchById); // Fetch doctor by ID
-router.post('/:id/view', viewDoctorProfile); // View doctor profile (increments view count)
+router.post('/login', authRateLimit('doctor-login'), auth.login); // Login with email and password
+router.post('/login/2fa', authRateLimit('doctor-login'), completeTwoFactorLogin); // Second login step when 2FA is enabled
+router.post('/2fa/setup', authenticate, requireType('doctor'), setupTwoFactor); // Generate a TOTP secret and otpauth URI
+router.post('/2fa/enable', authenticate, requireType('doctor'), enableTwoFactor); // Confirm a code and turn 2FA on (returns recovery codes)
+router.post('/2fa/disable', authRateLimit('doctor-2fa'), authenticate, requireType('doctor'), disableTwoFactor); // Turn 2FA off with a code or recovery code
+router.post('/2fa/recovery-codes', authRateLimit('doctor-2fa'), authenticate, requireType('doctor'), regenerateRecoveryCodes); // Replace recovery codes
+router.post('/password/forgot', authRateLimit('doctor-password'), auth.forgotPassword); // Email a password reset code
+router.post('/password/reset', authRateLimit('doctor-password'), auth.resetPassword); // Reset password with the emailed code
+router.post('/password/change', authenticate, requireType('doctor'), auth.changePassword); // Change password while logged in
+router.get('/me/onboarding', authenticate, requireType('doctor'), getMyOnboarding('doctor')); // Wizard progress: step statuses and missing fields
+router.patch('/me', authenticate, requireType('doctor'), updateMyProfile); // Edit any profile field after onboarding (audited)
+router.get('/', fetchAll); // Fetch doctors with filters, sorting and pagination
+router.get('/search', searchDoctors); // Typo-tolerant search (must come before /:id)
+router.get('/nearby', fetchNearby); // Doctors within a radius of a point, nearest first (must come before /:id)
+router.get('/:id/leads', authenticate, requireSelf('doctor', { param: 'id' }), getLeads); // Get all patients who viewed doctor's profile (must come before /:id)
+router.get('/:id/verification', authenticate, requireSelf('doctor', { param: 'id' }, 'doctors:verify'), getVerification); // Registration verification status and review notes
+router.post('/:id/verification', authenticate, requireSelf('doctor', { param: 'id' }), submitVerification); // Submit registration number and council for review
+router.get('/:id/attachments', authenticate, requireSelf('doctor', { param: 'id' }, 'doctors:verify'), attachments.list); // Uploaded photo and certificates with signed download links
+router.post('/:id/attachments', authenticate, requireSelf('doctor', { param: 'id' }), singleFile('file'), attachments.upload); // Upload a profile photo or certificate (multipart: file, kind)
+router.delete('/:id/attachments/:attachmentId', authenticate, requireSelf('doctor', { param: 'id' }), attachments.remove); // Delete an uploaded file
+router.get('/:id/schedule', getSchedule); // Weekly schedule windows
+router.put('/:id/schedule', authenticate, requireSelf('doctor', { param: 'id' }), updateSchedule); // Replace weekly schedule (own profile only)
+router.get('/:id/availability/exceptions', getAvailabilityExceptions); // Upcoming leave/holidays and extra sessions
+router.post('/:id/availability/exceptions', authenticate, requireSelf('doctor', { param: 'id' }), createAvailabilityException); // Add leave/holiday or extra session (own profile only)
+router.put('/:id/availability/exceptions/:exceptionId', authenticate, requireSelf('doctor', { param: 'id' }), updateAvailabilityException); // Replace an exception (own profile only)
+router.delete('/:id/availability/exceptions/:exceptionId', authenticate, requireSelf('doctor', { param: 'id' }), deleteAvailabilityException); // Remove an exception (own profile only)
+router.get('/:id/slots', getAvailableSlots); // Bookable slots for a date range (?from=&to=&duration=)
+router.get('/:id', optionalAuthenticate, fetchById); // Fetch doctor by ID (unlisted profiles only for the doctor and staff)
+router.post('/:id/view', optionalAuthenticate, viewDoctorProfile); // View doctor profile (increments view count, records a lead for patient tokens)
 
 export default router;
@@ -0,0 +1,8 @@
+import { Router } from 'express';
+import { downloadFile } from '../controllers/attachment.controller';
+
+const router = Router();
+
+router.get('/:id', downloadFile); // Download through a signed, expiring link (?expires=&signature=)
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import {
+    listNotifications, markNotificationRead, markAllNotificationsRead, getNotificationPreferences,
+    updateNotificationPreferences, registerPushDevice, unregisterPushDevice
+} from '../controllers/notification.controller';
+import { authenticate, requireType } from '../middleware/auth.middleware';
+
+const router = Router();
+
+router.use(authenticate, requireType('doctor', 'patient'));
+
+router.get('/', listNotifications); // Inbox of the current role (?unread=true&limit=&cursor=)
+router.post('/read-all', markAllNotificationsRead); // Mark every notification in the inbox as read
+router.get('/preferences', getNotificationPreferences); // Email/SMS/push setting per notification type
+router.put('/preferences', updateNotificationPreferences); // Change channel settings
+router.post('/devices', registerPushDevice); // Register a device token for push notifications
+router.delete('/devices', unregisterPushDevice); // Stop push notifications to a device (e.g. on logout)
+router.post('/:id/read', markNotificationRead); // Mark one notification as read
+
+export default router;
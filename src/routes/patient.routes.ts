@@ -1,23 +1,50 @@
 import { Router } from 'express';
-import { onboardingAuth, verifyOtp, onboardingPersonalInfo, login, fetchAll, fetchById, saveDoctor, unsaveDoctor, getSavedDoctors } from '../controllers/patient.controller';
+import { onboardingPersonalInfo, fetchAll, fetchById, saveDoctor, unsaveDoctor, getSavedDoctors, updateMyProfile } from '../controllers/patient.controller';
+import { createAuthHandlers } from '../controllers/auth.controller';
+import { createAttachmentHandlers } from '../controllers/attachment.controller';
+import { getMyOnboarding } from '../controllers/onboarding.controller';
+import { completeTwoFactorLogin, setupTwoFactor, enableTwoFactor, disableTwoFactor, regenerateRecoveryCodes } from '../controllers/account.controller';
+import { authenticate, requireType, authorize, requireSelf } from '../middleware/auth.middleware';
+import { authRateLimit } from '../middleware/rateLimit.middleware';
+import { singleFile } from '../middleware/upload.middleware';
 
 const router = Router();
+const auth = createAuthHandlers('patient');
+const attachments = createAttachmentHandlers('patient');
 
 // Onboarding routes
-router.post('/onboarding/auth', onboardingAuth); // Email + Password
-router.post('/onboarding/verify-otp', verifyOtp); // Verify OTP
-router.post('/onboarding/personal-info', onboardingPersonalInfo); // Name, Phone, Gender, Age, City
+router.post('/onboarding/auth', authRateLimit('patient-signup'), auth.onboardingAuth); // Email + Password
+router.post('/onboarding/verify-otp', authRateLimit('patient-otp'), auth.verifyOtp); // Verify OTP
+router.post('/onboarding/resend-otp', authRateLimit('patient-otp'), auth.resendOtp); // Send a fresh OTP (cooldown applies)
+router.post('/phone/send-otp', authRateLimit('patient-phone'), auth.phoneOtp); // Text a sign-up/login code to a phone number (SMS or WhatsApp)
+router.post('/phone/verify-otp', authRateLimit('patient-phone'), auth.verifyPhoneOtp); // Confirm the phone code; signs up or logs in
+router.post('/onboarding/personal-info', authenticate, requireSelf('patient', { body: 'patientId' }), onboardingPersonalInfo); // Name, Phone, Gender, Age, City
 
 // Auth and fetch routes
-router.post('/login', login); // Login with email and password
-router.get('/', fetchAll); // Fetch all patients
+router.post('/login', authRateLimit('patient-login'), auth.login); // Login with email and password
+router.post('/login/2fa', authRateLimit('patient-login'), completeTwoFactorLogin); // Second login step when 2FA is enabled
+router.post('/2fa/setup', authenticate, requireType('patient'), setupTwoFactor); // Generate a TOTP secret and otpauth URI
+router.post('/2fa/enable', authenticate, requireType('patient'), enableTwoFactor); // Confirm a code and turn 2FA on (returns recovery codes)
+router.post('/2fa/disable', authRateLimit('patient-2fa'), authenticate, requireType('patient'), disableTwoFactor); // Turn 2FA off with a code or recovery code
+router.post('/2fa/recovery-codes', authRateLimit('patient-2fa'), authenticate, requireType('patient'), regenerateRecoveryCodes); // Replace recovery codes
+router.post('/password/forgot', authRateLimit('patient-password'), auth.forgotPassword); // Email a password reset code
+router.post('/password/reset', authRateLimit('patient-password'), auth.resetPassword); // Reset password with the emailed code
+router.post('/password/change', authenticate, requireType('patient'), auth.changePassword); // Change password while logged in
+router.get('/me/onboarding', authenticate, requireType('patient'), getMyOnboarding('patient')); // Wizard progress: step statuses and missing fields
+router.patch('/me', authenticate, requireType('patient'), updateMyProfile); // Edit personal info after onboarding (audited)
+router.get('/', authenticate, authorize('patients:list'), fetchAll); // Fetch all patients (admin only)
 
 // Saved doctors routes (must come before /:id route)
-router.post('/saved-doctors', saveDoctor); // Save a doctor
-router.delete('/saved-doctors', unsaveDoctor); // Unsave a doctor
-router.get('/:patientId/saved-doctors', getSavedDoctors); // Get saved doctors for a patient
+router.post('/saved-doctors', authenticate, requireSelf('patient', { body: 'patientId' }), saveDoctor); // Save a doctor
+router.delete('/saved-doctors', authenticate, requireSelf('patient', { body: 'patientId' }), unsaveDoctor); // Unsave a doctor
+router.get('/:patientId/saved-doctors', authenticate, requireSelf('patient', { param: 'patientId' }), getSavedDoctors); // Get saved doctors for a patient
 
-router.get('/:id', fetchById); // Fetch patient by ID
+// Uploads: profile photo and prior reports (must come before /:id route)
+router.get('/:id/attachments', authenticate, requireSelf('patient', { param: 'id' }, 'patients:read'), attachments.list); // Uploaded files with signed download links
+router.post('/:id/attachments', authenticate, requireSelf('patient', { param: 'id' }), singleFile('file'), attachments.upload); // Upload a photo or report (multipart: file, kind)
+router.delete('/:id/attachments/:attachmentId', authenticate, requireSelf('patient', { param: 'id' }), attachments.remove); // Delete an uploaded file
+
+router.get('/:id', authenticate, requireSelf('patient', { param: 'id' }, 'patients:read'), fetchById); // Fetch patient by ID (own profile or admin)
 
 export default router;
 
@@ -0,0 +1,8 @@
+import { Router } from 'express';
+import { listQualifications } from '../controllers/catalogue.controller';
+
+const router = Router();
+
+router.get('/', listQualifications); // Qualification catalogue (MBBS, MD, MS, DNB, ...)
+
+export default router;
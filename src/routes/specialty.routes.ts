@@ -0,0 +1,8 @@
+import { Router } from 'express';
+import { listSpecialties } from '../controllers/catalogue.controller';
+
+const router = Router();
+
+router.get('/', listSpecialties); // Specialty catalogue with sub-specialties and synonyms
+
+export default router;
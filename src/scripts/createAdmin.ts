@@ -0,0 +1,39 @@
+// Create or reset a back-office admin account.
+// Usage: npm run create-admin -- <email> <password> [name]
+import dotenv from 'dotenv';
+import bcrypt from 'bcrypt';
+import { PrismaClient } from '@prisma/client';
+
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+const main = async () => {
+    const [email, password, name] = process.argv.slice(2);
+
+    if (!email || !password) {
+        console.error('Usage: npm run create-admin -- <email> <password> [name]');
+        process.exit(1);
+    }
+
+    if (password.length < 12) {
+        console.error('Admin passwords must be at least 12 characters long');
+        process.exit(1);
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+    const admin = await prisma.admin.upsert({
+        where: { email },
+        update: { password: hashedPassword, name: name ?? undefined },
+        create: { email, password: hashedPassword, name: name ?? null }
+    });
+
+    console.log(`✅ Admin account ready: ${admin.email} (${admin.id})`);
+};
+
+main()
+    .catch((error) => {
+        console.error('❌ Failed to create admin:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
@@ -0,0 +1,150 @@
+import { PrismaClient, Prisma, OnboardingStep, PatientOnboardingStep, User } from '@prisma/client';
+import { Principal } from '../middleware/auth.middleware';
+import { normalizePhoneNumber } from './validation.service';
+import { ONBOARDING_INCLUDE, PATIENT_ONBOARDING_INCLUDE, doctorStateFor, patientStateFor } from './onboarding.service';
+
+const prisma = new PrismaClient();
+
+export type Role = 'doctor' | 'patient';
+
+type AccountLike = Pick<User, 'id' | 'emailVerifiedAt' | 'phoneVerifiedAt'>;
+
+// Which profiles an account has, so clients can offer switching between them
+export const rolesOf = (user: { doctor?: { id: string } | null; patient?: { id: string } | null }) => ({
+    doctorId: user.doctor?.id ?? null,
+    patientId: user.patient?.id ?? null
+});
+
+// Store the step a profile's data puts it on. A doctor who finished onboarding stays COMPLETE.
+const syncDoctorStep = async ({ user, _count, ...doctor }: Prisma.DoctorGetPayload<{ include: typeof ONBOARDING_INCLUDE }>) => {
+    const onboardingStep = doctor.onboardingStep === OnboardingStep.COMPLETE
+        ? doctor.onboardingStep
+        : doctorStateFor({ ...doctor, user, _count });
+    if (onboardingStep === doctor.onboardingStep) {
+        return doctor;
+    }
+    return prisma.doctor.update({ where: { id: doctor.id }, data: { onboardingStep } });
+};
+
+const syncPatientStep = async ({ user, ...patient }: Prisma.PatientGetPayload<{ include: typeof PATIENT_ONBOARDING_INCLUDE }>) => {
+    const onboardingStep = patientStateFor({ ...patient, user });
+    if (onboardingStep === patient.onboardingStep) {
+        return patient;
+    }
+    return prisma.patient.update({ where: { id: patient.id }, data: { onboardingStep } });
+};
+
+// Get or create the doctor profile for an account, on the onboarding step its data puts it:
+// an account with a verified email or phone skips the verification step.
+export const ensureDoctorProfile = async (user: AccountLike) => {
+    const doctor = await prisma.doctor.upsert({
+        where: { userId: user.id },
+        update: {},
+        create: { userId: user.id },
+        include: ONBOARDING_INCLUDE
+    });
+    return syncDoctorStep(doctor);
+};
+
+export const ensurePatientProfile = async (user: AccountLike) => {
+    const patient = await prisma.patient.upsert({
+        where: { userId: user.id },
+        update: {},
+        create: { userId: user.id },
+        include: PATIENT_ONBOARDING_INCLUDE
+    });
+    return syncPatientStep(patient);
+};
+
+export const ensureProfile = (role: Role, user: AccountLike) =>
+    role === 'doctor' ? ensureDoctorProfile(user) : ensurePatientProfile(user);
+
+// Account behind a doctor/patient principal. Tokens issued before accounts existed carry
+// no userId, so fall back to the profile's owner.
+export const resolveUserId = async (principal: Principal): Promise<string | null> => {
+    if (principal.userId) {
+        return principal.userId;
+    }
+    if (principal.type === 'doctor') {
+        const doctor = await prisma.doctor.findUnique({ where: { id: principal.id }, select: { userId: true } });
+        return doctor?.userId ?? null;
+    }
+    if (principal.type === 'patient') {
+        const patient = await prisma.patient.findUnique({ where: { id: principal.id }, select: { userId: true } });
+        return patient?.userId ?? null;
+    }
+    return null;
+};
+
+// How an account is named in login lockouts and authenticator apps: its email, or the phone
+// number for accounts created by phone sign-up
+export const accountIdentifier = (user: { id: string; email: string | null; phone: string | null }): string =>
+    user.email ?? user.phone ?? user.id;
+
+// Profiles select the email through their account; flatten it back so responses keep their shape
+export const withEmail = <T extends { user?: { email: string | null } | null }>({ user, ...profile }: T) => ({
+    ...profile,
+    email: user?.email
+}) as Omit<T, 'user'> & { email?: string | null };
+
+// Put a role profile (back) at the email verification step for a pending signup
+export const resetProfileToEmailStep = async (role: Role, userId: string) => {
+    return role === 'doctor'
+        ? prisma.doctor.upsert({
+            where: { userId },
+            update: { onboardingStep: OnboardingStep.EMAIL_VERIFIED },
+            create: { userId, onboardingStep: OnboardingStep.EMAIL_VERIFIED }
+        })
+        : prisma.patient.upsert({
+            where: { userId },
+            update: { onboardingStep: PatientOnboardingStep.EMAIL_VERIFIED },
+            create: { userId, onboardingStep: PatientOnboardingStep.EMAIL_VERIFIED }
+        });
+};
+
+// Re-derive a profile's onboarding step after the account changed, e.g. once its email is verified
+export const refreshOnboardingStep = async (role: Role, profileId: string) => {
+    if (role === 'doctor') {
+        return syncDoctorStep(await prisma.doctor.findUniqueOrThrow({ where: { id: profileId }, include: ONBOARDING_INCLUDE }));
+    }
+    return syncPatientStep(await prisma.patient.findUniqueOrThrow({ where: { id: profileId }, include: PATIENT_ONBOARDING_INCLUDE }));
+};
+
+// Doctors finish onboarding with availability; patients once name, phone and city are filled in
+export const isDoctorProfileComplete = (doctor: { onboardingStep: OnboardingStep }): boolean =>
+    doctor.onboardingStep === OnboardingStep.COMPLETE;
+
+export const isPatientProfileComplete = (patient: { name: string | null; phone: string | null; city: string | null }): boolean =>
+    !!patient.name && !!patient.phone && !!patient.city;
+
+// Mark the profile numbers that match the account's verified phone. A profile without a
+// number takes the verified one, so phone sign-ups don't have to enter it again.
+export const syncVerifiedPhone = async (userId: string): Promise<void> => {
+    const user = await prisma.user.findUnique({ where: { id: userId }, include: { doctor: true, patient: true } });
+    if (!user) {
+        return;
+    }
+
+    const verifiedPhone = user.phoneVerifiedAt ? user.phone : null;
+    const isVerified = (number: string | null) => !!verifiedPhone && !!number && normalizePhoneNumber(number) === verifiedPhone;
+
+    if (user.doctor) {
+        const contactNumber = user.doctor.contactNumber ?? verifiedPhone;
+        await prisma.doctor.update({
+            where: { id: user.doctor.id },
+            data: {
+                contactNumber,
+                contactNumberVerified: isVerified(contactNumber),
+                whatsappNumberVerified: isVerified(user.doctor.whatsappNumber)
+            }
+        });
+    }
+
+    if (user.patient) {
+        const phone = user.patient.phone ?? verifiedPhone;
+        await prisma.patient.update({
+            where: { id: user.patient.id },
+            data: { phone, phoneVerified: isVerified(phone) }
+        });
+    }
+};
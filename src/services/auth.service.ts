@@ -0,0 +1,766 @@
+import { PrismaClient } from '@prisma/client';
+import bcrypt from 'bcrypt';
+import { issueTokens, issueTwoFactorChallenge, revokeAllUserSessions, SessionMeta } from './token.service';
+import { getAccountLockRemaining, recordLoginFailure, clearLoginFailures } from './rateLimit.service';
+import {
+    resendCooldownRemaining, lockoutRemaining, checkVerificationCode, checkPasswordResetCode,
+    issueVerificationCode, issuePasswordResetCode, checkPhoneCode, issuePhoneCode, checkPendingPhoneCode,
+    issuePendingPhoneCode, OTP_TTL_MINUTES
+} from './otp.service';
+import { validateEmail, validatePassword, validateOtpFormat, normalizePhoneNumber } from './validation.service';
+import { isMailEnabled } from './mailer.service';
+import { isSmsEnabled, phoneCodeMessage, SmsChannel, SMS_CHANNELS } from './sms.service';
+import { enqueueJob } from './jobQueue.service';
+import { MailTemplateName } from './mailTemplates.service';
+import {
+    Role, ensureProfile, rolesOf, resetProfileToEmailStep, refreshOnboardingStep,
+    isDoctorProfileComplete, isPatientProfileComplete, syncVerifiedPhone
+} from './account.service';
+
+const prisma = new PrismaClient();
+
+// Credential flows shared by doctors and patients. Each returns the HTTP status and JSON body
+// for the controller to send, so the rules can be exercised without Express.
+export type AuthResult = {
+    status: number;
+    body: {
+        success: boolean;
+        message?: string;
+        error?: string;
+        data?: Record<string, unknown>;
+        note?: string;
+        warning?: string;
+    };
+    retryAfterSeconds?: number; // Sent as the Retry-After header
+};
+
+const ROLE_CONFIG: Record<Role, { idKey: string; notFoundError: string; notFoundMessage: string }> = {
+    doctor: { idKey: 'doctorId', notFoundError: 'DOCTOR_NOT_FOUND', notFoundMessage: 'Doctor not found' },
+    patient: { idKey: 'patientId', notFoundError: 'PATIENT_NOT_FOUND', notFoundMessage: 'Patient not found' }
+};
+
+const fail = (status: number, error: string, message: string, data?: Record<string, unknown>): AuthResult => ({
+    status,
+    body: { success: false, message, error, ...(data ? { data } : {}) }
+});
+
+const tooManyCodes = (retryAfterSeconds: number): AuthResult => ({
+    ...fail(429, 'OTP_LOCKED', 'Too many incorrect codes. Please try again later.', { retryAfterSeconds }),
+    retryAfterSeconds
+});
+
+const resendCooldown = (retryAfterSeconds: number): AuthResult => ({
+    ...fail(429, 'OTP_RESEND_COOLDOWN', `Please wait ${retryAfterSeconds} seconds before requesting another code.`, { retryAfterSeconds }),
+    retryAfterSeconds
+});
+
+const accountLocked = (retryAfterSeconds: number): AuthResult => ({
+    ...fail(423, 'ACCOUNT_LOCKED', 'Too many failed login attempts. Please try again later.', { retryAfterSeconds }),
+    retryAfterSeconds
+});
+
+const emailValidationError = (email: string): AuthResult | null =>
+    validateEmail(email) ? null : fail(400, 'INVALID_EMAIL', 'Invalid email format');
+
+const passwordValidationError = (password: string): AuthResult | null => {
+    const validation = validatePassword(password);
+    return validation.valid ? null : fail(400, 'INVALID_PASSWORD', validation.error!);
+};
+
+const otpFormatError = (otp: unknown): AuthResult | null =>
+    validateOtpFormat(otp) ? null : fail(400, 'INVALID_OTP_FORMAT', 'OTP must be a string of 6 digits');
+
+type CodeResponses = {
+    status?: number; // Status when the code was queued
+    sent: string;
+    generated: string; // No driver configured
+    data?: Record<string, unknown>;
+};
+
+// Build the response for a code that was just issued. Sending happens on the job queue, which
+// retries on provider errors, so the request only fails if the job can't be stored. In
+// development the local drivers print the message, so codes are only returned as mockOtp when
+// no driver is configured.
+const codeDeliveryResult = async (
+    enabled: boolean,
+    enqueue: () => Promise<unknown>,
+    otp: string,
+    driver: { setting: string; medium: string },
+    responses: CodeResponses
+): Promise<AuthResult> => {
+    if (!enabled) {
+        return {
+            status: 200,
+            body: {
+                success: true,
+                message: responses.generated,
+                data: { ...responses.data, mockOtp: process.env.NODE_ENV !== 'production' ? otp : undefined },
+                note: `Set ${driver.setting} environment variable to enable ${driver.medium} sending`
+            }
+        };
+    }
+
+    await enqueue();
+    return {
+        status: responses.status ?? 200,
+        body: { success: true, message: responses.sent, ...(responses.data ? { data: responses.data } : {}) }
+    };
+};
+
+const deliverCode = (email: string, otp: string, template: MailTemplateName, responses: CodeResponses): Promise<AuthResult> =>
+    codeDeliveryResult(
+        isMailEnabled(),
+        () => enqueueJob('send-email', { to: email, template, variables: { code: otp, expiresInMinutes: OTP_TTL_MINUTES } }),
+        otp,
+        { setting: 'MAIL_DRIVER', medium: 'email' },
+        responses
+    );
+
+const deliverPhoneCode = (phone: string, otp: string, channel: SmsChannel, responses: CodeResponses): Promise<AuthResult> =>
+    codeDeliveryResult(
+        isSmsEnabled(),
+        () => enqueueJob('send-sms', { to: phone, body: phoneCodeMessage(otp), channel }),
+        otp,
+        { setting: 'SMS_DRIVER', medium: channel === 'whatsapp' ? 'WhatsApp' : 'SMS' },
+        responses
+    );
+
+// Sign up with email + password, then a verification code is emailed
+export const signUp = async (role: Role, email: string, password: string): Promise<AuthResult> => {
+    if (!email || !password) {
+        return fail(400, 'MISSING_FIELDS', 'Email and password are required');
+    }
+    const invalid = emailValidationError(email) ?? passwordValidationError(password);
+    if (invalid) {
+        return invalid;
+    }
+
+    const { idKey } = ROLE_CONFIG[role];
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    // Credentials live on the shared account; the role profile is attached to it
+    const existingUser = await prisma.user.findUnique({ where: { email }, include: { doctor: true, patient: true } });
+    if (existingUser) {
+        if (existingUser.emailVerifiedAt) {
+            const isComplete = role === 'doctor'
+                ? !!existingUser.doctor && isDoctorProfileComplete(existingUser.doctor)
+                : !!existingUser.patient && isPatientProfileComplete(existingUser.patient);
+            if (isComplete) {
+                return fail(409, 'EMAIL_ALREADY_EXISTS_COMPLETE', 'An account with this email already exists and is fully registered. Please use the login option.');
+            }
+            // Verified account, possibly registered under the other role: never change its password
+            // from here. Logging in adds this role's profile to the same account.
+            return fail(409, 'EMAIL_ALREADY_EXISTS', `An account with this email already exists. Please use the login option to continue as a ${role}.`);
+        }
+
+        // An unverified account is only a pending signup: whoever proves the inbox owns it,
+        // so re-registering takes the new password and sends a fresh code
+        const lockedFor = lockoutRemaining(existingUser.otpLockedUntil);
+        if (lockedFor > 0) {
+            return tooManyCodes(lockedFor);
+        }
+
+        const otp = await issueVerificationCode(existingUser.id);
+        if (!otp) {
+            return resendCooldown(Math.max(1, resendCooldownRemaining(existingUser.otpSentAt)));
+        }
+
+        await prisma.user.update({
+            where: { id: existingUser.id },
+            data: { password: hashedPassword }
+        });
+        const profile = await resetProfileToEmailStep(role, existingUser.id);
+
+        return deliverCode(email, otp, 'welcome-back-code', {
+            sent: 'Welcome back! Account updated successfully. Verification code sent to your email.',
+            generated: 'Welcome back! Account updated successfully. OTP generated for verification.',
+            data: { [idKey]: profile.id, isReturningIncompleteUser: true }
+        });
+    }
+
+    // Create new account with its role profile
+    const user = await prisma.user.create({
+        data: { email, password: hashedPassword }
+    });
+    const profile = await resetProfileToEmailStep(role, user.id);
+    const otp = (await issueVerificationCode(user.id))!;
+
+    return deliverCode(email, otp, 'verification-code', {
+        status: 201,
+        sent: 'Account created successfully. Verification code sent to your email.',
+        generated: 'Account created successfully. OTP generated for verification.',
+        data: { [idKey]: profile.id }
+    });
+};
+
+// Confirm the emailed code; marks the email verified and starts a session
+export const verifyEmail = async (role: Role, email: string, otp: string, meta: SessionMeta = {}): Promise<AuthResult> => {
+    if (!email || !otp) {
+        return fail(400, 'MISSING_FIELDS', 'Email and OTP are required');
+    }
+    const invalid = emailValidationError(email) ?? otpFormatError(otp);
+    if (invalid) {
+        return invalid;
+    }
+
+    const { idKey, notFoundError } = ROLE_CONFIG[role];
+    const user = await prisma.user.findUnique({ where: { email }, include: { doctor: true, patient: true } });
+    const profile = role === 'doctor' ? user?.doctor : user?.patient;
+    if (!user || !profile) {
+        return fail(404, notFoundError, 'Account not found. Please sign up first.');
+    }
+
+    if (!user.otp) {
+        return fail(400, 'OTP_NOT_FOUND', 'No OTP found. Please request a new verification code.');
+    }
+
+    const lockedFor = lockoutRemaining(user.otpLockedUntil);
+    if (lockedFor > 0) {
+        return tooManyCodes(lockedFor);
+    }
+
+    if (user.otpExpiry && new Date() > user.otpExpiry) {
+        return fail(400, 'OTP_EXPIRED', 'Verification code has expired. Please request a new code.');
+    }
+
+    const check = await checkVerificationCode({ id: user.id, otp: user.otp, otpAttempts: user.otpAttempts }, otp);
+    if (!check.valid) {
+        return check.reason === 'locked'
+            ? tooManyCodes(check.retryAfterSeconds)
+            : fail(400, 'INVALID_OTP', 'Invalid verification code. Please check and try again.', { attemptsRemaining: check.attemptsRemaining });
+    }
+
+    await prisma.user.update({
+        where: { id: user.id },
+        data: {
+            otp: null,
+            otpExpiry: null,
+            otpAttempts: 0,
+            otpLockedUntil: null,
+            emailVerifiedAt: new Date()
+        }
+    });
+    const { onboardingStep } = await refreshOnboardingStep(role, profile.id);
+
+    const { token, refreshToken, refreshTokenExpiresAt } = await issueTokens({ type: role, id: profile.id, email: user.email, userId: user.id }, meta);
+
+    return {
+        status: 200,
+        body: {
+            success: true,
+            message: 'Email verified successfully. You can now proceed with onboarding.',
+            data: {
+                [idKey]: profile.id,
+                token,
+                refreshToken,
+                refreshTokenExpiresAt,
+                onboardingStep
+            }
+        }
+    };
+};
+
+// Resend the verification code without re-submitting the password. Rate limited by a
+// cooldown between sends and blocked while verification is locked.
+export const resendVerification = async (role: Role, email: string): Promise<AuthResult> => {
+    if (!email) {
+        return fail(400, 'MISSING_FIELDS', 'Email is required');
+    }
+    const invalid = emailValidationError(email);
+    if (invalid) {
+        return invalid;
+    }
+
+    const { idKey, notFoundError } = ROLE_CONFIG[role];
+    const user = await prisma.user.findUnique({ where: { email }, include: { doctor: true, patient: true } });
+    const profile = role === 'doctor' ? user?.doctor : user?.patient;
+    if (!user || !profile) {
+        return fail(404, notFoundError, 'Account not found. Please sign up first.');
+    }
+
+    if (user.emailVerifiedAt) {
+        return fail(400, 'ALREADY_VERIFIED', 'This email is already verified.');
+    }
+
+    const lockedFor = lockoutRemaining(user.otpLockedUntil);
+    if (lockedFor > 0) {
+        return tooManyCodes(lockedFor);
+    }
+
+    const otp = await issueVerificationCode(user.id);
+    if (!otp) {
+        return resendCooldown(Math.max(1, resendCooldownRemaining(user.otpSentAt)));
+    }
+
+    return deliverCode(email, otp, 'verification-code-resent', {
+        sent: 'A new verification code has been sent to your email.',
+        generated: 'A new verification code has been generated.',
+        data: { [idKey]: profile.id }
+    });
+};
+
+// First login factor passed on an account with 2FA: hand back a challenge token for /login/2fa
+// The challenge names the role's profile, or the account itself when the login adds that
+// profile: it's only created once the second factor is in (see completeTwoFactorLogin)
+const twoFactorRequired = (role: Role, user: { id: string; email: string | null }, profileId: string | null): AuthResult => ({
+    status: 200,
+    body: {
+        success: true,
+        message: 'Enter the code from your authenticator app to finish logging in',
+        data: {
+            [ROLE_CONFIG[role].idKey]: profileId,
+            requiresTwoFactor: true,
+            challengeToken: issueTwoFactorChallenge({ type: role, id: profileId ?? user.id, email: user.email, userId: user.id })
+        }
+    }
+});
+
+// Email + password login. Logging in under a role the account doesn't have yet adds that
+// profile; with 2FA enabled only a challenge token is returned, and the profile waits for the code.
+export const logIn = async (role: Role, email: string, password: string, meta: SessionMeta = {}): Promise<AuthResult> => {
+    if (!email || !password) {
+        return fail(400, 'MISSING_FIELDS', 'Email and password are required');
+    }
+    const invalid = emailValidationError(email);
+    if (invalid) {
+        return invalid;
+    }
+
+    const lockedFor = await getAccountLockRemaining('user', email);
+    if (lockedFor > 0) {
+        return accountLocked(lockedFor);
+    }
+
+    const user = await prisma.user.findUnique({
+        where: { email },
+        include: { doctor: { select: { id: true } }, patient: { select: { id: true } } }
+    });
+    const isPasswordValid = !!user?.password && await bcrypt.compare(password, user.password);
+    if (!user || !isPasswordValid) {
+        const lockedNow = await recordLoginFailure('user', email);
+        if (lockedNow > 0) {
+            return accountLocked(lockedNow);
+        }
+        return fail(401, 'INVALID_CREDENTIALS', 'Invalid email or password');
+    }
+
+    // With 2FA the login only completes at /login/2fa; failures stay counted until then
+    if (user.totpEnabled) {
+        return twoFactorRequired(role, user, (role === 'doctor' ? user.doctor : user.patient)?.id ?? null);
+    }
+
+    await clearLoginFailures('user', email);
+
+    const { idKey } = ROLE_CONFIG[role];
+    const profile = await ensureProfile(role, user);
+    const roles = rolesOf({ ...user, [role]: profile });
+
+    const { token, refreshToken, refreshTokenExpiresAt } = await issueTokens({ type: role, id: profile.id, email: user.email, userId: user.id }, meta);
+
+    return {
+        status: 200,
+        body: {
+            success: true,
+            message: 'Login successful',
+            data: {
+                [idKey]: profile.id,
+                token,
+                refreshToken,
+                refreshTokenExpiresAt,
+                email: user.email,
+                name: profile.name,
+                onboardingStep: profile.onboardingStep,
+                roles
+            }
+        }
+    };
+};
+
+const invalidPhone = (): AuthResult =>
+    fail(400, 'INVALID_PHONE', 'Invalid phone number. Include the country code, e.g. +919876543210');
+
+const channelError = (channel: unknown): AuthResult | null =>
+    channel === undefined || SMS_CHANNELS.includes(channel as SmsChannel)
+        ? null
+        : fail(400, 'INVALID_CHANNEL', 'Channel must be either "sms" or "whatsapp"');
+
+// Phone sign-up/login, step 1: text a code to the number. A number with no account gets a
+// pending code instead; the account is only created once that code is confirmed.
+export const requestPhoneCode = async (role: Role, phone: string, channel: SmsChannel = 'sms'): Promise<AuthResult> => {
+    if (!phone) {
+        return fail(400, 'MISSING_FIELDS', 'Phone number is required');
+    }
+    const normalized = normalizePhoneNumber(String(phone));
+    if (!normalized) {
+        return invalidPhone();
+    }
+    const invalid = channelError(channel);
+    if (invalid) {
+        return invalid;
+    }
+
+    const user = await prisma.user.findUnique({ where: { phone: normalized } });
+    const pending = user ? null : await prisma.pendingPhoneCode.findUnique({ where: { phone: normalized } });
+
+    const lockedFor = lockoutRemaining(user ? user.phoneOtpLockedUntil : pending?.otpLockedUntil ?? null);
+    if (lockedFor > 0) {
+        return tooManyCodes(lockedFor);
+    }
+
+    const otp = user ? await issuePhoneCode(user.id, normalized) : await issuePendingPhoneCode(normalized);
+    if (!otp) {
+        return resendCooldown(Math.max(1, resendCooldownRemaining(user ? user.phoneOtpSentAt : pending?.otpSentAt ?? null)));
+    }
+
+    return deliverPhoneCode(normalized, otp, channel, {
+        sent: `Verification code sent to ${normalized}.`,
+        generated: 'Verification code generated.',
+        data: { phone: normalized, channel, isNewUser: !user }
+    });
+};
+
+// Phone sign-up/login, step 2: confirm the code. Marks the phone verified (creating the account
+// for a new number), creates the role profile if needed and starts a session (or asks for the
+// second factor when 2FA is on).
+export const verifyPhoneCode = async (role: Role, phone: string, otp: string, meta: SessionMeta = {}): Promise<AuthResult> => {
+    if (!phone || !otp) {
+        return fail(400, 'MISSING_FIELDS', 'Phone number and OTP are required');
+    }
+    const normalized = normalizePhoneNumber(String(phone));
+    if (!normalized) {
+        return invalidPhone();
+    }
+    const invalid = otpFormatError(otp);
+    if (invalid) {
+        return invalid;
+    }
+
+    // A known number's code is on its account; a new number's waits in PendingPhoneCode
+    const user = await prisma.user.findUnique({ where: { phone: normalized } });
+    const pending = user ? null : await prisma.pendingPhoneCode.findUnique({ where: { phone: normalized } });
+    const code = user
+        ? { otp: user.phoneOtpTarget === normalized ? user.phoneOtp : null, expiry: user.phoneOtpExpiry, lockedUntil: user.phoneOtpLockedUntil }
+        : { otp: pending?.otp ?? null, expiry: pending?.otpExpiry ?? null, lockedUntil: pending?.otpLockedUntil ?? null };
+    if (!code.otp) {
+        return fail(400, 'OTP_NOT_FOUND', 'No code found. Please request a new verification code.');
+    }
+
+    const lockedFor = lockoutRemaining(code.lockedUntil);
+    if (lockedFor > 0) {
+        return tooManyCodes(lockedFor);
+    }
+
+    if (code.expiry && new Date() > code.expiry) {
+        return fail(400, 'OTP_EXPIRED', 'Verification code has expired. Please request a new code.');
+    }
+
+    const check = user
+        ? await checkPhoneCode({ id: user.id, phoneOtp: code.otp, phoneOtpAttempts: user.phoneOtpAttempts }, otp)
+        : await checkPendingPhoneCode({ phone: normalized, otp: code.otp, otpAttempts: pending!.otpAttempts }, otp);
+    if (!check.valid) {
+        return check.reason === 'locked'
+            ? tooManyCodes(check.retryAfterSeconds)
+            : fail(400, 'INVALID_OTP', 'Invalid verification code. Please check and try again.', { attemptsRemaining: check.attemptsRemaining });
+    }
+
+    const include = { doctor: { select: { id: true } }, patient: { select: { id: true } } } as const;
+    const verifiedUser = user
+        ? await prisma.user.update({
+            where: { id: user.id },
+            data: {
+                phoneVerifiedAt: user.phoneVerifiedAt ?? new Date(),
+                phoneOtp: null,
+                phoneOtpTarget: null,
+                phoneOtpExpiry: null,
+                phoneOtpAttempts: 0,
+                phoneOtpLockedUntil: null
+            },
+            include
+        })
+        // Taking the pending code first means two concurrent confirmations create one account
+        : await prisma.$transaction(async tx => {
+            const claimed = await tx.pendingPhoneCode.deleteMany({ where: { phone: normalized, otp: code.otp } });
+            return claimed.count === 1
+                ? tx.user.create({ data: { phone: normalized, phoneVerifiedAt: new Date() }, include })
+                : null;
+        });
+    if (!verifiedUser) {
+        return fail(400, 'OTP_NOT_FOUND', 'No code found. Please request a new verification code.');
+    }
+
+    if (verifiedUser.totpEnabled) {
+        await syncVerifiedPhone(verifiedUser.id);
+        return twoFactorRequired(role, verifiedUser, (role === 'doctor' ? verifiedUser.doctor : verifiedUser.patient)?.id ?? null);
+    }
+
+    // A profile left at the email step by an unfinished email sign-up moves on now it's verified
+    const profile = await ensureProfile(role, verifiedUser);
+    await syncVerifiedPhone(verifiedUser.id);
+
+    const { idKey } = ROLE_CONFIG[role];
+    const { token, refreshToken, refreshTokenExpiresAt } = await issueTokens({ type: role, id: profile.id, email: verifiedUser.email, userId: verifiedUser.id }, meta);
+
+    return {
+        status: 200,
+        body: {
+            success: true,
+            message: 'Phone number verified successfully',
+            data: {
+                [idKey]: profile.id,
+                token,
+                refreshToken,
+                refreshTokenExpiresAt,
+                email: verifiedUser.email,
+                phone: verifiedUser.phone,
+                name: profile.name,
+                onboardingStep: profile.onboardingStep,
+                roles: rolesOf({ ...verifiedUser, [role]: profile })
+            }
+        }
+    };
+};
+
+// Verify a phone number on the signed-in account, e.g. the contact number given during
+// onboarding. Numbers already verified by another account can't be claimed.
+export const requestPhoneVerification = async (userId: string | null, phone: string, channel: SmsChannel = 'sms'): Promise<AuthResult> => {
+    if (!phone) {
+        return fail(400, 'MISSING_FIELDS', 'Phone number is required');
+    }
+    const normalized = normalizePhoneNumber(String(phone));
+    if (!normalized) {
+        return invalidPhone();
+    }
+    const invalid = channelError(channel);
+    if (invalid) {
+        return invalid;
+    }
+
+    const user = userId ? await prisma.user.findUnique({ where: { id: userId } }) : null;
+    if (!user) {
+        return fail(404, 'USER_NOT_FOUND', 'Account not found');
+    }
+
+    if (user.phone === normalized && user.phoneVerifiedAt) {
+        return fail(400, 'ALREADY_VERIFIED', 'This phone number is already verified.');
+    }
+
+    const holder = await prisma.user.findUnique({ where: { phone: normalized } });
+    if (holder && holder.id !== user.id && holder.phoneVerifiedAt) {
+        return fail(409, 'PHONE_IN_USE', 'This phone number is already linked to another account.');
+    }
+
+    const lockedFor = lockoutRemaining(user.phoneOtpLockedUntil);
+    if (lockedFor > 0) {
+        return tooManyCodes(lockedFor);
+    }
+
+    const otp = await issuePhoneCode(user.id, normalized);
+    if (!otp) {
+        return resendCooldown(Math.max(1, resendCooldownRemaining(user.phoneOtpSentAt)));
+    }
+
+    return deliverPhoneCode(normalized, otp, channel, {
+        sent: `Verification code sent to ${normalized}.`,
+        generated: 'Verification code generated.',
+        data: { phone: normalized, channel }
+    });
+};
+
+export const confirmPhoneVerification = async (userId: string | null, otp: string): Promise<AuthResult> => {
+    if (!otp) {
+        return fail(400, 'MISSING_FIELDS', 'OTP is required');
+    }
+    const invalid = otpFormatError(otp);
+    if (invalid) {
+        return invalid;
+    }
+
+    const user = userId ? await prisma.user.findUnique({ where: { id: userId } }) : null;
+    if (!user) {
+        return fail(404, 'USER_NOT_FOUND', 'Account not found');
+    }
+
+    if (!user.phoneOtp || !user.phoneOtpTarget) {
+        return fail(400, 'OTP_NOT_FOUND', 'No code found. Please request a new verification code.');
+    }
+
+    const lockedFor = lockoutRemaining(user.phoneOtpLockedUntil);
+    if (lockedFor > 0) {
+        return tooManyCodes(lockedFor);
+    }
+
+    if (user.phoneOtpExpiry && new Date() > user.phoneOtpExpiry) {
+        return fail(400, 'OTP_EXPIRED', 'Verification code has expired. Please request a new code.');
+    }
+
+    const check = await checkPhoneCode({ id: user.id, phoneOtp: user.phoneOtp, phoneOtpAttempts: user.phoneOtpAttempts }, otp);
+    if (!check.valid) {
+        return check.reason === 'locked'
+            ? tooManyCodes(check.retryAfterSeconds)
+            : fail(400, 'INVALID_OTP', 'Invalid verification code. Please check and try again.', { attemptsRemaining: check.attemptsRemaining });
+    }
+
+    const phone = user.phoneOtpTarget;
+    const holder = await prisma.user.findUnique({ where: { phone } });
+    if (holder && holder.id !== user.id && holder.phoneVerifiedAt) {
+        return fail(409, 'PHONE_IN_USE', 'This phone number is already linked to another account.');
+    }
+
+    // An unconfirmed phone sign-up for the same number loses it to the account that proved it
+    const verified = await prisma.$transaction(async tx => {
+        await tx.pendingPhoneCode.deleteMany({ where: { phone } });
+        await tx.user.updateMany({
+            where: { phone, id: { not: user.id }, phoneVerifiedAt: null },
+            data: { phone: null }
+        });
+        return tx.user.update({
+            where: { id: user.id },
+            data: {
+                phone,
+                phoneVerifiedAt: new Date(),
+                phoneOtp: null,
+                phoneOtpTarget: null,
+                phoneOtpExpiry: null,
+                phoneOtpAttempts: 0,
+                phoneOtpLockedUntil: null
+            }
+        });
+    });
+    await syncVerifiedPhone(user.id);
+
+    return {
+        status: 200,
+        body: {
+            success: true,
+            message: 'Phone number verified successfully',
+            data: { phone: verified.phone, phoneVerifiedAt: verified.phoneVerifiedAt }
+        }
+    };
+};
+
+// Forgot password: email a reset code. Always responds the same way so the endpoint
+// can't be used to discover which emails are registered.
+export const requestPasswordReset = async (email: string): Promise<AuthResult> => {
+    if (!email) {
+        return fail(400, 'MISSING_FIELDS', 'Email is required');
+    }
+    const invalid = emailValidationError(email);
+    if (invalid) {
+        return invalid;
+    }
+
+    const genericMessage = 'If an account exists for this email, a password reset code has been sent.';
+    const genericResponse: AuthResult = { status: 200, body: { success: true, message: genericMessage } };
+
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (!user) {
+        return genericResponse;
+    }
+
+    // Within the cooldown the previous code stays valid; answer the same way without resending
+    const otp = await issuePasswordResetCode(user.id);
+    if (!otp) {
+        return genericResponse;
+    }
+
+    return deliverCode(email, otp, 'password-reset-code', {
+        sent: genericMessage,
+        generated: genericMessage
+    });
+};
+
+// Reset password with the emailed code. Signs the account out of every device.
+export const resetPassword = async (email: string, otp: string, newPassword: string): Promise<AuthResult> => {
+    if (!email || !otp || !newPassword) {
+        return fail(400, 'MISSING_FIELDS', 'Email, OTP and new password are required');
+    }
+    const invalid = emailValidationError(email) ?? otpFormatError(otp) ?? passwordValidationError(newPassword);
+    if (invalid) {
+        return invalid;
+    }
+
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (!user || !user.passwordResetOtp) {
+        return fail(400, 'INVALID_OTP', 'Invalid reset code. Please check and try again.');
+    }
+
+    if (user.passwordResetExpiry && new Date() > user.passwordResetExpiry) {
+        return fail(400, 'OTP_EXPIRED', 'Reset code has expired. Please request a new code.');
+    }
+
+    const check = await checkPasswordResetCode(
+        { id: user.id, passwordResetOtp: user.passwordResetOtp, passwordResetAttempts: user.passwordResetAttempts },
+        otp
+    );
+    if (!check.valid) {
+        // The user has to request a new code once the attempts run out
+        return check.reason === 'locked'
+            ? fail(429, 'OTP_ATTEMPTS_EXCEEDED', 'Too many incorrect codes. Please request a new reset code.')
+            : fail(400, 'INVALID_OTP', 'Invalid reset code. Please check and try again.', { attemptsRemaining: check.attemptsRemaining });
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+    await prisma.user.update({
+        where: { id: user.id },
+        data: {
+            password: hashedPassword,
+            passwordResetOtp: null,
+            passwordResetExpiry: null,
+            passwordResetAttempts: 0
+        }
+    });
+
+    await revokeAllUserSessions(user.id);
+
+    return {
+        status: 200,
+        body: { success: true, message: 'Password reset successfully. Please log in with your new password.' }
+    };
+};
+
+// Change password while logged in. Other devices are signed out; the current session stays active.
+export const changePassword = async (
+    role: Role,
+    userId: string | null,
+    currentSessionId: string | undefined,
+    currentPassword: string | undefined,
+    newPassword: string
+): Promise<AuthResult> => {
+    if (!newPassword) {
+        return fail(400, 'MISSING_FIELDS', 'New password is required');
+    }
+    const invalid = passwordValidationError(newPassword);
+    if (invalid) {
+        return invalid;
+    }
+
+    const { notFoundError, notFoundMessage } = ROLE_CONFIG[role];
+    const user = userId ? await prisma.user.findUnique({ where: { id: userId } }) : null;
+    if (!user) {
+        return fail(404, notFoundError, notFoundMessage);
+    }
+
+    // Google-only accounts have no password yet and may set one without the current password
+    if (user.password) {
+        if (!currentPassword || !(await bcrypt.compare(currentPassword, user.password))) {
+            return fail(401, 'INVALID_CREDENTIALS', 'Current password is incorrect');
+        }
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+    await prisma.user.update({
+        where: { id: user.id },
+        data: { password: hashedPassword }
+    });
+
+    const revokedSessions = await revokeAllUserSessions(user.id, currentSessionId);
+
+    return {
+        status: 200,
+        body: {
+            success: true,
+            message: 'Password changed successfully',
+            data: { revokedSessions }
+        }
+    };
+};
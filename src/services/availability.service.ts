@@ -0,0 +1,277 @@
+import { DayOfWeek, AvailabilityExceptionType } from '@prisma/client';
+
+// Doctor timings ("09:00-17:00") are wall-clock times in the clinic's timezone.
+// Offset from UTC in minutes, defaults to IST (+05:30).
+export const TIMEZONE_OFFSET_MINUTES: number = Number(process.env.TIMEZONE_OFFSET_MINUTES ?? 330);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Index matches Date.getUTCDay() (0 = Sunday)
+const DAYS_BY_INDEX: DayOfWeek[] = [
+    DayOfWeek.SUNDAY,
+    DayOfWeek.MONDAY,
+    DayOfWeek.TUESDAY,
+    DayOfWeek.WEDNESDAY,
+    DayOfWeek.THURSDAY,
+    DayOfWeek.FRIDAY,
+    DayOfWeek.SATURDAY
+];
+
+// A recurring weekly window, e.g. MONDAY 09:00-13:00
+export type ScheduleWindowLike = {
+    dayOfWeek: DayOfWeek;
+    startTime: string; // "HH:MM"
+    endTime: string; // "HH:MM"
+    clinicAddress?: string | null;
+};
+
+export type Slot = { startTime: Date; endTime: Date; clinicAddress?: string | null };
+
+// Parse "HH:MM" into minutes since midnight
+export const parseTime = (time: string): number | null => {
+    const match = /^([0-1][0-9]|2[0-3]):([0-5][0-9])$/.exec(time.trim());
+    if (!match) {
+        return null;
+    }
+    return Number(match[1]) * 60 + Number(match[2]);
+};
+
+const formatTime = (minutes: number): string => {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+};
+
+// Parse "HH:MM-HH:MM" into minutes since midnight. Returns null for invalid or empty windows.
+export const parseTiming = (timing: string): { start: number; end: number } | null => {
+    const [startPart, endPart, ...rest] = timing.trim().split('-');
+    if (endPart === undefined || rest.length > 0) {
+        return null;
+    }
+
+    const start = parseTime(startPart);
+    const end = parseTime(endPart);
+    if (start === null || end === null || end <= start) {
+        return null;
+    }
+
+    return { start, end };
+};
+
+// Weekly windows for a doctor. Doctors onboarded before structured schedules existed
+// only have availableDays + availableTiming, so derive equivalent windows from those.
+export const getScheduleWindows = (doctor: {
+    availableDays: DayOfWeek[];
+    availableTiming: string | null;
+    scheduleWindows?: ScheduleWindowLike[];
+}): ScheduleWindowLike[] => {
+    if (doctor.scheduleWindows && doctor.scheduleWindows.length > 0) {
+        return doctor.scheduleWindows;
+    }
+
+    const timing = doctor.availableTiming ? parseTiming(doctor.availableTiming) : null;
+    if (!timing) {
+        return [];
+    }
+
+    return doctor.availableDays.map(day => ({
+        dayOfWeek: day,
+        startTime: formatTime(timing.start),
+        endTime: formatTime(timing.end)
+    }));
+};
+
+// Legacy availableDays/availableTiming values for a schedule. availableTiming is only set when
+// every window has the same hours: a split schedule has no single timing, and a span from the
+// earliest start to the latest end would advertise hours the doctor isn't in.
+export const summarizeSchedule = (windows: ScheduleWindowLike[]): { availableDays: DayOfWeek[]; availableTiming: string | null } => {
+    const availableDays = Object.values(DayOfWeek).filter(day => windows.some(w => w.dayOfWeek === day));
+
+    const timings = new Set(windows.map(w => `${formatTime(parseTime(w.startTime) ?? 0)}-${formatTime(parseTime(w.endTime) ?? 0)}`));
+    const [availableTiming] = timings;
+
+    return { availableDays, availableTiming: timings.size === 1 ? availableTiming : null };
+};
+
+// Validate a schedule submitted by a doctor. Returns an error message, or null when valid
+// (a valid schedule can then be read as ScheduleWindowLike[]).
+export const validateSchedule = (schedule: unknown): string | null => {
+    if (!Array.isArray(schedule) || schedule.length === 0) {
+        return 'Schedule must contain at least one window';
+    }
+
+    const validDays = Object.values(DayOfWeek);
+    const parsed: { day: DayOfWeek; start: number; end: number }[] = [];
+
+    for (const window of schedule) {
+        if (!window || typeof window !== 'object') {
+            return 'Each schedule window must be an object with dayOfWeek, startTime and endTime';
+        }
+
+        const { dayOfWeek, startTime, endTime, clinicAddress } = window as Record<string, unknown>;
+
+        if (!validDays.includes(dayOfWeek as DayOfWeek)) {
+            return `Invalid day: ${dayOfWeek}. Must be one of: ${validDays.join(', ')}`;
+        }
+
+        const start = typeof startTime === 'string' ? parseTime(startTime) : null;
+        const end = typeof endTime === 'string' ? parseTime(endTime) : null;
+        if (start === null || end === null || end <= start) {
+            return `Invalid window on ${dayOfWeek}. Use HH:MM times with endTime after startTime (e.g., 09:00 and 13:00)`;
+        }
+
+        if (clinicAddress !== undefined && clinicAddress !== null && (typeof clinicAddress !== 'string' || clinicAddress.trim().length < 5)) {
+            return 'Clinic address must be at least 5 characters long';
+        }
+
+        parsed.push({ day: dayOfWeek as DayOfWeek, start, end });
+    }
+
+    for (let i = 0; i < parsed.length; i++) {
+        for (let j = i + 1; j < parsed.length; j++) {
+            const a = parsed[i];
+            const b = parsed[j];
+            if (a.day === b.day && a.start < b.end && b.start < a.end) {
+                return `Schedule windows on ${a.day} overlap`;
+            }
+        }
+    }
+
+    return null;
+};
+
+// Shift a UTC instant into clinic-local time (read the result with getUTC* methods)
+const toLocal = (date: Date): Date => new Date(date.getTime() + TIMEZONE_OFFSET_MINUTES * 60 * 1000);
+
+export const getLocalDayOfWeek = (date: Date): DayOfWeek => DAYS_BY_INDEX[toLocal(date).getUTCDay()];
+
+export const getLocalMinutesOfDay = (date: Date): number => {
+    const local = toLocal(date);
+    return local.getUTCHours() * 60 + local.getUTCMinutes();
+};
+
+// Check that [start, end) falls entirely inside one of the doctor's weekly windows
+export const isWithinAvailability = (windows: ScheduleWindowLike[], start: Date, end: Date): boolean => {
+    // Appointments must not span midnight
+    if (getLocalDayOfWeek(start) !== getLocalDayOfWeek(new Date(end.getTime() - 1))) {
+        return false;
+    }
+
+    const day = getLocalDayOfWeek(start);
+    const startMinutes = getLocalMinutesOfDay(start);
+    const endMinutes = startMinutes + Math.round((end.getTime() - start.getTime()) / 60000);
+
+    return windows.some(w =>
+        w.dayOfWeek === day &&
+        startMinutes >= (parseTime(w.startTime) ?? Infinity) &&
+        endMinutes <= (parseTime(w.endTime) ?? -Infinity)
+    );
+};
+
+// Parse a date-only string ("YYYY-MM-DD") into the UTC instant of local midnight on that day
+export const parseLocalDate = (value: string): Date | null => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) {
+        return null;
+    }
+
+    const utcMidnight = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+    const check = new Date(utcMidnight);
+    if (check.getUTCMonth() !== Number(match[2]) - 1 || check.getUTCDate() !== Number(match[3])) {
+        return null;
+    }
+
+    return new Date(utcMidnight - TIMEZONE_OFFSET_MINUTES * 60 * 1000);
+};
+
+// UTC instant of local midnight for the day containing the given instant
+export const startOfLocalDay = (date: Date): Date => {
+    const local = toLocal(date);
+    const utcMidnight = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+    return new Date(utcMidnight - TIMEZONE_OFFSET_MINUTES * 60 * 1000);
+};
+
+// Expand the doctor's weekly windows and one-off extra sessions into concrete slots in
+// [from, to), skipping past slots and anything overlapping a busy interval
+export const generateSlots = (
+    windows: ScheduleWindowLike[],
+    from: Date,
+    to: Date,
+    durationMinutes: number,
+    busy: { startTime: Date; endTime: Date }[],
+    extraSessions: Slot[] = []
+): Slot[] => {
+    const now = Date.now();
+    const durationMs = durationMinutes * 60 * 1000;
+
+    // Concrete periods the doctor is working, before slicing into slots
+    const periods: Slot[] = [...extraSessions];
+    for (let dayStart = startOfLocalDay(from).getTime(); dayStart < to.getTime(); dayStart += DAY_MS) {
+        const day = getLocalDayOfWeek(new Date(dayStart));
+
+        for (const window of windows.filter(w => w.dayOfWeek === day)) {
+            const windowStart = parseTime(window.startTime);
+            const windowEnd = parseTime(window.endTime);
+            if (windowStart === null || windowEnd === null) {
+                continue;
+            }
+
+            periods.push({
+                startTime: new Date(dayStart + windowStart * 60 * 1000),
+                endTime: new Date(dayStart + windowEnd * 60 * 1000),
+                clinicAddress: window.clinicAddress ?? null
+            });
+        }
+    }
+    periods.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    const slots: Slot[] = [];
+    const overlaps = (list: { startTime: Date; endTime: Date }[], start: number, end: number) =>
+        list.some(b => b.startTime.getTime() < end && b.endTime.getTime() > start);
+
+    for (const period of periods) {
+        const periodEnd = period.endTime.getTime();
+        for (let slotStart = period.startTime.getTime(); slotStart + durationMs <= periodEnd; slotStart += durationMs) {
+            const slotEnd = slotStart + durationMs;
+            if (slotStart < from.getTime() || slotEnd > to.getTime() || slotStart <= now) {
+                continue;
+            }
+
+            // Extra sessions may overlap a weekly window; don't offer the same time twice
+            if (!overlaps(busy, slotStart, slotEnd) && !overlaps(slots, slotStart, slotEnd)) {
+                slots.push({
+                    startTime: new Date(slotStart),
+                    endTime: new Date(slotEnd),
+                    clinicAddress: period.clinicAddress ?? null
+                });
+            }
+        }
+    }
+
+    return slots.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+};
+
+// Check a booking against the weekly schedule and date-specific exceptions:
+// blocked ranges always win, extra sessions add bookable time
+export const isBookable = (
+    windows: ScheduleWindowLike[],
+    exceptions: { type: AvailabilityExceptionType; startTime: Date; endTime: Date }[],
+    start: Date,
+    end: Date
+): boolean => {
+    const blocked = exceptions.some(e =>
+        e.type === AvailabilityExceptionType.UNAVAILABLE &&
+        e.startTime.getTime() < end.getTime() &&
+        e.endTime.getTime() > start.getTime()
+    );
+    if (blocked) {
+        return false;
+    }
+
+    const inExtraSession = exceptions.some(e =>
+        e.type === AvailabilityExceptionType.EXTRA_SESSION &&
+        e.startTime.getTime() <= start.getTime() &&
+        e.endTime.getTime() >= end.getTime()
+    );
+
+    return inExtraSession || isWithinAvailability(windows, start, end);
+};
@@ -0,0 +1,46 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export const EARTH_RADIUS_KM = 6371;
+
+export const isValidLatitude = (value: number): boolean => !isNaN(value) && value >= -90 && value <= 90;
+
+export const isValidLongitude = (value: number): boolean => !isNaN(value) && value >= -180 && value <= 180;
+
+// Bounding box around a point, used to narrow the distance query to an indexed range
+export const boundingBox = (latitude: number, longitude: number, radiusKm: number) => {
+    const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+    // Longitude degrees shrink towards the poles; clamp to avoid dividing by ~0
+    const lngDelta = latDelta / Math.max(Math.cos((latitude * Math.PI) / 180), 0.01);
+
+    return {
+        minLat: latitude - latDelta,
+        maxLat: latitude + latDelta,
+        minLng: longitude - lngDelta,
+        maxLng: longitude + lngDelta
+    };
+};
+
+// Coordinates for a practice location: explicit values win, otherwise look up the
+// locality in the Locality table. Returns nulls when neither is available.
+export const resolveCoordinates = async (location: {
+    latitude?: unknown;
+    longitude?: unknown;
+    city: string;
+    locality: string;
+}): Promise<{ latitude: number | null; longitude: number | null }> => {
+    if (location.latitude !== undefined && location.longitude !== undefined) {
+        return { latitude: Number(location.latitude), longitude: Number(location.longitude) };
+    }
+
+    const known = await prisma.locality.findFirst({
+        where: {
+            city: { equals: location.city.trim(), mode: 'insensitive' },
+            name: { equals: location.locality.trim(), mode: 'insensitive' }
+        },
+        select: { latitude: true, longitude: true }
+    });
+
+    return known ?? { latitude: null, longitude: null };
+};
@@ -1,15 +1,12 @@
 
 import passport from 'passport';
 import { Strategy as GoogleStrategy } from 'passport-google-oauth20';
-import { PrismaClient, OnboardingStep, PatientOnboardingStep } from '@prisma/client';
-import jwt from 'jsonwebtoken';
+import { PrismaClient, OnboardingStep } from '@prisma/client';
+import { issueTokens, issueTwoFactorChallenge } from './token.service';
+import { ONBOARDING_INCLUDE, PATIENT_ONBOARDING_INCLUDE, doctorStateFor, patientStateFor, currentOnboardingStep, OnboardingStepKey } from './onboarding.service';
 
 const prisma = new PrismaClient();
 
-// JWT Secret (should be in .env)
-const JWT_SECRET: string = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-const JWT_EXPIRES_IN: string = process.env.JWT_EXPIRES_IN || '7d';
-
 // Google OAuth configuration
 const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
 const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET;
@@ -19,15 +16,6 @@ if (!GOOGLE_CLIENT_ID || !GOOGLE_CLIENT_SECRET) {
     console.warn('⚠️  Google OAuth not configured. Set GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET environment variables.');
 }
 
-// Helper functions
-const generateJWT = (userId: string, email: string, type: 'doctor' | 'patient'): string => {
-    const payload = type === 'doctor' 
-        ? { doctorId: userId, email, type: 'doctor' }
-        : { patientId: userId, email, type: 'patient' };
-    
-    return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN } as jwt.SignOptions);
-};
-
 // Configure Google OAuth strategy
 if (GOOGLE_CLIENT_ID && GOOGLE_CLIENT_SECRET) {
     passport.use(new GoogleStrategy({
@@ -70,183 +58,119 @@ passport.deserializeUser((user: any, done) => {
     done(null, user);
 });
 
-// Google OAuth handlers
-export const handleGoogleAuth = async (googleId: string, email: string, name: string, userType: 'doctor' | 'patient') => {
-    try {
-        if (userType === 'doctor') {
-            // Check if doctor exists with Google ID
-            let doctor = await prisma.doctor.findUnique({
-                where: { googleId } as any
-            });
-
-            if (doctor) {
-                // Existing Google user - check onboarding status
-                const isOnboardingComplete = doctor.onboardingStep === OnboardingStep.COMPLETE;
-                const token = generateJWT(doctor.id, doctor.email, 'doctor');
-                
-                return {
-                    success: true,
-                    isNewUser: false,
-                    isReturningIncompleteUser: !isOnboardingComplete,
-                    user: doctor,
-                    token,
-                    redirectTo: isOnboardingComplete ? '/dashboard' : '/onboarding'
-                };
-            }
-
-            // Check if doctor exists with same email (link accounts or handle incomplete onboarding)
-            doctor = await prisma.doctor.findUnique({
-                where: { email }
-            });
-
-            if (doctor) {
-                // Check if onboarding is incomplete - allow re-registration
-                if (doctor.onboardingStep !== OnboardingStep.COMPLETE) {
-                    // Update existing incomplete account with Google ID and fresh name
-                    const updatedDoctor = await prisma.doctor.update({
-                        where: { email },
-                        data: { 
-                            googleId,
-                            name: name || doctor.name, // Use Google name if available, otherwise keep existing
-                            onboardingStep: OnboardingStep.PERSONAL_INFO_COMPLETE // Reset to allow re-onboarding
-                        } as any
-                    });
-
-                    const token = generateJWT(updatedDoctor.id, updatedDoctor.email, 'doctor');
-                    return {
-                        success: true,
-                        isNewUser: false,
-                        isReturningIncompleteUser: true,
-                        user: updatedDoctor,
-                        token,
-                        redirectTo: '/onboarding'
-                    };
-                } else {
-                    // Complete account - just link Google ID
-                    const updatedDoctor = await prisma.doctor.update({
-                        where: { email },
-                        data: { googleId } as any
-                    });
-
-                    const token = generateJWT(updatedDoctor.id, updatedDoctor.email, 'doctor');
-                    return {
-                        success: true,
-                        isNewUser: false,
-                        isReturningIncompleteUser: false,
-                        user: updatedDoctor,
-                        token,
-                        redirectTo: '/dashboard'
-                    };
-                }
-            }
-
-            // New Google user - create account
-            const newDoctor = await prisma.doctor.create({
-                data: {
-                    email,
-                    googleId,
-                    name,
-                    onboardingStep: OnboardingStep.PERSONAL_INFO_COMPLETE // Skip email verification for Google users
-                } as any
-            });
-
-            const token = generateJWT(newDoctor.id, newDoctor.email, 'doctor');
-            return {
-                success: true,
-                isNewUser: true,
-                isReturningIncompleteUser: false,
-                user: newDoctor,
-                token,
-                redirectTo: '/onboarding'
-            };
+type GoogleProfile = { id: string; name: string | null; onboardingStep: string; email: string | null; currentStep: OnboardingStepKey | null };
+
+// Google proves the email, but accounts with 2FA still owe the second factor: hand back a
+// challenge token (completed at POST /doctors|patients/login/2fa) instead of session tokens
+const twoFactorChallengeResult = (
+    userType: 'doctor' | 'patient',
+    profile: GoogleProfile,
+    userId: string,
+    isReturningIncompleteUser: boolean
+) => ({
+    success: true as const,
+    isNewUser: false,
+    isReturningIncompleteUser,
+    user: profile,
+    requiresTwoFactor: true,
+    challengeToken: issueTwoFactorChallenge({ type: userType, id: profile.id, email: profile.email, userId }),
+    token: undefined,
+    refreshToken: undefined,
+    redirectTo: '/login/2fa'
+});
 
-        } else {
-            // Patient flow
-            let patient = await prisma.patient.findUnique({
-                where: { googleId } as any
-            });
+// Get or create the role profile for a Google sign-in. Google has verified the email, so a
+// profile still waiting on email verification moves on, to the first step the state machine
+// finds incomplete. That is personal info for a new account: Google only supplies the name.
+const ensureGoogleProfile = async (userType: 'doctor' | 'patient', userId: string, name: string) => {
+    if (userType === 'doctor') {
+        const doctor = await prisma.doctor.upsert({
+            where: { userId },
+            update: {},
+            create: { userId, name },
+            include: ONBOARDING_INCLUDE
+        });
+        if (doctor.onboardingStep === OnboardingStep.COMPLETE) {
+            const { user, _count, ...profile } = doctor;
+            return { profile, isComplete: true, currentStep: null };
+        }
+        // Keep a name the doctor entered, otherwise use Google's
+        const data = { ...doctor, name: doctor.name || name };
+        const { user, _count, ...profile } = await prisma.doctor.update({
+            where: { id: doctor.id },
+            data: { name: data.name, onboardingStep: doctorStateFor(data) },
+            include: ONBOARDING_INCLUDE
+        });
+        const currentStep = currentOnboardingStep('doctor', { ...profile, user, _count });
+        return { profile, isComplete: currentStep === null, currentStep };
+    }
 
-            if (patient) {
-                // Existing Google user - patients have simpler onboarding
-                const token = generateJWT(patient.id, patient.email, 'patient');
-                return {
-                    success: true,
-                    isNewUser: false,
-                    isReturningIncompleteUser: false,
-                    user: patient,
-                    token,
-                    redirectTo: patient.name ? '/dashboard' : '/onboarding' // Check if basic info is complete
-                };
-            }
+    const patient = await prisma.patient.upsert({
+        where: { userId },
+        update: {},
+        create: { userId, name },
+        include: PATIENT_ONBOARDING_INCLUDE
+    });
+    const data = { ...patient, name: patient.name || name };
+    const { user, ...profile } = await prisma.patient.update({
+        where: { id: patient.id },
+        data: { name: data.name, onboardingStep: patientStateFor(data) },
+        include: PATIENT_ONBOARDING_INCLUDE
+    });
+    const currentStep = currentOnboardingStep('patient', { ...profile, user });
+    return { profile, isComplete: currentStep === null, currentStep };
+};
 
-            // Check if patient exists with same email (link accounts or handle incomplete onboarding)
-            patient = await prisma.patient.findUnique({
-                where: { email }
+// Google OAuth handlers
+export const handleGoogleAuth = async (
+    googleId: string,
+    email: string,
+    name: string,
+    userType: 'doctor' | 'patient',
+    meta: { userAgent?: string | null; ipAddress?: string | null } = {}
+) => {
+    try {
+        // One account per person: match the Google ID first, then the email to link an
+        // account that signed up with a password (possibly under the other role)
+        let user = await prisma.user.findUnique({ where: { googleId } })
+            ?? await prisma.user.findUnique({ where: { email } });
+        const isNewUser = !user;
+
+        if (!user) {
+            // New Google user - create account, skipping email verification
+            user = await prisma.user.create({
+                data: { email, googleId, emailVerifiedAt: new Date() }
             });
-
-            if (patient) {
-                // For patients, if they don't have complete info, allow re-registration
-                const isIncomplete = !patient.name || !patient.phone || !patient.city;
-                
-                if (isIncomplete) {
-                    // Update existing incomplete account with Google ID
-                    const updatedPatient = await prisma.patient.update({
-                        where: { email },
-                        data: { 
-                            googleId,
-                            name: name || patient.name, // Use Google name if available
-                            onboardingStep: PatientOnboardingStep.PERSONAL_INFO_COMPLETE
-                        } as any
-                    });
-
-                    const token = generateJWT(updatedPatient.id, updatedPatient.email, 'patient');
-                    return {
-                        success: true,
-                        isNewUser: false,
-                        isReturningIncompleteUser: true,
-                        user: updatedPatient,
-                        token,
-                        redirectTo: '/onboarding'
-                    };
-                } else {
-                    // Complete account - just link Google ID
-                    const updatedPatient = await prisma.patient.update({
-                        where: { email },
-                        data: { googleId } as any
-                    });
-
-                    const token = generateJWT(updatedPatient.id, updatedPatient.email, 'patient');
-                    return {
-                        success: true,
-                        isNewUser: false,
-                        isReturningIncompleteUser: false,
-                        user: updatedPatient,
-                        token,
-                        redirectTo: '/dashboard'
-                    };
-                }
-            }
-
-            // New Google user - create account
-            const newPatient = await prisma.patient.create({
+        } else if (user.googleId !== googleId || !user.emailVerifiedAt) {
+            user = await prisma.user.update({
+                where: { id: user.id },
                 data: {
-                    email,
                     googleId,
-                    name,
-                    onboardingStep: PatientOnboardingStep.PERSONAL_INFO_COMPLETE // Skip email verification
-                } as any
+                    emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+                    // A password from an unverified signup was never proven to belong to the inbox owner
+                    ...(user.emailVerifiedAt ? {} : { password: null, otp: null, otpExpiry: null })
+                }
             });
+        }
 
-            const token = generateJWT(newPatient.id, newPatient.email, 'patient');
-            return {
-                success: true,
-                isNewUser: true,
-                isReturningIncompleteUser: false,
-                user: newPatient,
-                token,
-                redirectTo: '/onboarding'
-            };
+        const { profile, isComplete, currentStep } = await ensureGoogleProfile(userType, user.id, name);
+        const profileWithEmail = { ...profile, email: user.email, currentStep };
+        const isReturningIncompleteUser = !isNewUser && !isComplete;
+
+        if (user.totpEnabled) {
+            return twoFactorChallengeResult(userType, profileWithEmail, user.id, isReturningIncompleteUser);
         }
+
+        const { token, refreshToken } = await issueTokens({ type: userType, id: profile.id, email: user.email, userId: user.id }, meta);
+        return {
+            success: true,
+            isNewUser,
+            isReturningIncompleteUser,
+            user: profileWithEmail,
+            token,
+            refreshToken,
+            redirectTo: isComplete ? '/dashboard' : '/onboarding'
+        };
     } catch (error) {
         console.error('Google auth handler error:', error);
         return {
@@ -0,0 +1,64 @@
+import { PrismaClient } from '@prisma/client';
+import { JobHandlers } from './jobQueue.service';
+import { sendTemplate } from './mailer.service';
+import { sendSms } from './sms.service';
+import { createNotification, deliverNotification, notifyProfileViewed } from './notification.service';
+
+const prisma = new PrismaClient();
+
+// Repeat views by the same patient notify the doctor again after this long
+const PROFILE_VIEW_NOTIFY_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// What the worker runs for each job type. Throwing schedules a retry.
+export const jobHandlers: JobHandlers = {
+    'send-email': async ({ to, template, variables }) => {
+        const delivery = await sendTemplate(to, template, variables as never);
+        if (delivery === 'failed') {
+            throw new Error(`Sending "${template}" email to ${to} failed`);
+        }
+    },
+
+    'send-sms': async ({ to, body, channel }) => {
+        const delivery = await sendSms(to, body, channel);
+        if (delivery === 'failed') {
+            throw new Error(`Sending ${channel} message to ${to} failed`);
+        }
+    },
+
+    'notify': input => createNotification(input),
+
+    'deliver-notification': ({ notificationId, channel }) => deliverNotification(notificationId, channel),
+
+    // View count, lead record and the doctor's notification for one profile view
+    'record-profile-view': async ({ doctorId, patientId, viewedAt }) => {
+        const patient = patientId
+            ? await prisma.patient.findUnique({ where: { id: patientId }, select: { id: true, name: true } })
+            : null;
+
+        if (patientId && patient) {
+            const previousLead = await prisma.lead.findUnique({
+                where: { doctorId_patientId: { doctorId, patientId } },
+                select: { viewedAt: true }
+            });
+
+            // Create or update lead (upsert to handle duplicate views)
+            await prisma.lead.upsert({
+                where: { doctorId_patientId: { doctorId, patientId } },
+                update: { viewedAt: new Date(viewedAt) },
+                create: { doctorId, patientId, viewedAt: new Date(viewedAt) }
+            });
+
+            // At most one notification per patient per day, however often they look
+            if (!previousLead || new Date(viewedAt).getTime() - previousLead.viewedAt.getTime() > PROFILE_VIEW_NOTIFY_INTERVAL_MS) {
+                await notifyProfileViewed(doctorId, patient);
+            }
+        }
+
+        // Counted last: the writes above are safe to repeat, so a retry after a failure there
+        // doesn't count the view twice
+        await prisma.doctor.update({
+            where: { id: doctorId },
+            data: { viewCount: { increment: 1 } }
+        });
+    }
+};
@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+import os from 'os';
+import { PrismaClient, Prisma, Job, NotificationChannel } from '@prisma/client';
+import type { MailTemplateName } from './mailTemplates.service';
+import type { SmsChannel } from './sms.service';
+import type { NotificationInput } from './notification.service';
+
+const prisma = new PrismaClient();
+
+const envNumber = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const JOB_MAX_ATTEMPTS = envNumber('JOB_MAX_ATTEMPTS', 5);
+// Retry delay doubles from the base on every failure, up to the cap
+const JOB_BACKOFF_BASE_SECONDS = envNumber('JOB_BACKOFF_BASE_SECONDS', 30);
+const JOB_BACKOFF_MAX_SECONDS = envNumber('JOB_BACKOFF_MAX_SECONDS', 60 * 60);
+const JOB_POLL_INTERVAL_MS = envNumber('JOB_POLL_INTERVAL_MS', 1000);
+const JOB_BATCH_SIZE = envNumber('JOB_BATCH_SIZE', 10);
+// A job still RUNNING this long after it was claimed belongs to a worker that died
+const JOB_LOCK_TIMEOUT_SECONDS = envNumber('JOB_LOCK_TIMEOUT_SECONDS', 5 * 60);
+
+// Payload of each job type. Payloads are stored as JSON, so dates travel as ISO strings.
+export type JobPayloads = {
+    'send-email': { to: string; template: MailTemplateName; variables: Record<string, string | number> };
+    'send-sms': { to: string; body: string; channel: SmsChannel };
+    'notify': NotificationInput;
+    'deliver-notification': { notificationId: string; channel: NotificationChannel };
+    'record-profile-view': { doctorId: string; patientId?: string; viewedAt: string };
+};
+
+export type JobType = keyof JobPayloads;
+
+// A handler throws to have the job retried
+export type JobHandlers = { [T in JobType]: (payload: JobPayloads[T], job: Job) => Promise<void> };
+
+export const enqueueJob = async <T extends JobType>(
+    type: T,
+    payload: JobPayloads[T],
+    options: { runAt?: Date; maxAttempts?: number } = {}
+): Promise<Job> => {
+    return prisma.job.create({
+        data: {
+            type,
+            payload: payload as Prisma.InputJsonValue,
+            runAt: options.runAt ?? new Date(),
+            maxAttempts: options.maxAttempts ?? JOB_MAX_ATTEMPTS
+        }
+    });
+};
+
+// Seconds to wait before the next attempt, with jitter so failed jobs don't retry in lockstep
+export const backoffSeconds = (attempts: number): number => {
+    const delay = Math.min(JOB_BACKOFF_MAX_SECONDS, JOB_BACKOFF_BASE_SECONDS * 2 ** Math.max(0, attempts - 1));
+    return Math.ceil(delay * (0.8 + Math.random() * 0.4));
+};
+
+// Claim due jobs for one worker. SKIP LOCKED lets several workers poll the same table without
+// taking each other's jobs; stale RUNNING jobs are picked up again.
+const claimJobs = async (workerId: string, limit: number): Promise<Job[]> => {
+    // The columns are TIMESTAMP without time zone holding UTC, as Prisma writes them; NOW() would
+    // be in the session's time zone, so the current time is passed in instead
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - JOB_LOCK_TIMEOUT_SECONDS * 1000);
+    return prisma.$queryRaw<Job[]>`
+        UPDATE "Job"
+        SET "status" = 'RUNNING', "lockedAt" = ${now}, "lockedBy" = ${workerId},
+            "attempts" = "attempts" + 1, "updatedAt" = ${now}
+        WHERE "id" IN (
+            SELECT "id" FROM "Job"
+            WHERE ("status" = 'PENDING' AND "runAt" <= ${now})
+               OR ("status" = 'RUNNING' AND "lockedAt" < ${staleBefore})
+            ORDER BY "runAt"
+            LIMIT ${limit}
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+    `;
+};
+
+const runJob = async (job: Job, handlers: JobHandlers): Promise<void> => {
+    const handler = handlers[job.type as JobType] as ((payload: unknown, job: Job) => Promise<void>) | undefined;
+
+    try {
+        if (!handler) {
+            throw new Error(`No handler for job type "${job.type}"`);
+        }
+        await handler(job.payload, job);
+        // Payloads can carry one-time codes, so nothing is kept once the job is done
+        await prisma.job.update({
+            where: { id: job.id },
+            data: { status: 'COMPLETED', payload: {}, completedAt: new Date(), lockedAt: null, lockedBy: null, lastError: null }
+        });
+    } catch (error: any) {
+        const lastError = String(error?.stack ?? error).slice(0, 2000);
+        const exhausted = job.attempts >= job.maxAttempts;
+        await prisma.job.update({
+            where: { id: job.id },
+            data: exhausted
+                ? { status: 'DEAD', lockedAt: null, lockedBy: null, lastError }
+                : {
+                    status: 'PENDING',
+                    runAt: new Date(Date.now() + backoffSeconds(job.attempts) * 1000),
+                    lockedAt: null,
+                    lockedBy: null,
+                    lastError
+                }
+        });
+        console.error(`${exhausted ? '💀' : '🔁'} Job ${job.type} (${job.id}) failed on attempt ${job.attempts}/${job.maxAttempts}:`, error?.message ?? error);
+    }
+};
+
+// Claim and run one batch; returns how many jobs ran
+export const runDueJobs = async (handlers: JobHandlers, workerId: string, limit: number = JOB_BATCH_SIZE): Promise<number> => {
+    const jobs = await claimJobs(workerId, limit);
+    for (const job of jobs) {
+        await runJob(job, handlers);
+    }
+    return jobs.length;
+};
+
+// Poll for jobs until stop() is called. A full batch means more may be waiting, so the next
+// poll starts straight away.
+export const startWorker = (handlers: JobHandlers) => {
+    const workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+    let stopped = false;
+    let timer: NodeJS.Timeout | null = null;
+    let current: Promise<void> = Promise.resolve();
+
+    const poll = () => {
+        current = runDueJobs(handlers, workerId)
+            .then(count => {
+                if (!stopped) {
+                    timer = setTimeout(poll, count >= JOB_BATCH_SIZE ? 0 : JOB_POLL_INTERVAL_MS);
+                }
+            })
+            .catch(error => {
+                console.error('Job worker error:', error);
+                if (!stopped) {
+                    timer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+                }
+            });
+    };
+
+    poll();
+    console.log(`✅ Job worker started: ${workerId}`);
+
+    return {
+        workerId,
+        // Stop polling and wait for the batch in progress to finish
+        stop: async () => {
+            stopped = true;
+            if (timer) {
+                clearTimeout(timer);
+            }
+            await current;
+        }
+    };
+};
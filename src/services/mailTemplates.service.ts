@@ -0,0 +1,131 @@
+// Named email templates. Each has a subject, an HTML body and a plain-text fallback, with
+// {{variable}} placeholders filled in by renderTemplate (HTML values are escaped).
+
+export type MailContent = { subject: string; html: string; text: string };
+
+type CodeEmailVariables = { code: string; expiresInMinutes: number };
+
+export type MailTemplates = {
+    'verification-code': CodeEmailVariables;
+    'welcome-back-code': CodeEmailVariables;
+    'verification-code-resent': CodeEmailVariables;
+    'password-reset-code': CodeEmailVariables;
+    notification: { title: string; body: string };
+};
+
+export type MailTemplateName = keyof MailTemplates;
+
+type TemplateDefinition = { subject: string; html: string; text: string };
+
+const codeEmailHtml = (heading: string, intro: string, footer: string): string => `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #4CAF50;">${heading}</h2>
+        ${intro}
+        <h1 style="color: #2196F3; font-size: 32px; letter-spacing: 5px;">{{code}}</h1>
+        ${footer}
+    </div>
+`;
+
+const templates: Record<MailTemplateName, TemplateDefinition> = {
+    // Sign-up code for a new account
+    'verification-code': {
+        subject: 'Your ECare+ Verification Code',
+        html: codeEmailHtml(
+            'ECare+ Verification Code',
+            '<p>Your verification code is:</p>',
+            `<p>This code will expire in {{expiresInMinutes}} minutes.</p>
+        <p>If you didn't request this code, please ignore this email.</p>`
+        ),
+        text: `Your ECare+ verification code is: {{code}}
+
+This code will expire in {{expiresInMinutes}} minutes.
+If you didn't request this code, please ignore this email.`
+    },
+
+    // Sign-up code for someone returning to an unfinished registration
+    'welcome-back-code': {
+        subject: 'Welcome Back to ECare+ - Verification Code',
+        html: codeEmailHtml(
+            'Welcome Back to ECare+!',
+            `<p>We noticed you didn't complete your registration. Let's finish setting up your profile.</p>
+        <p>Your verification code is:</p>`,
+            `<p>This code will expire in {{expiresInMinutes}} minutes.</p>
+        <p>If you didn't request this code, please ignore this email.</p>`
+        ),
+        text: `Welcome back to ECare+!
+
+We noticed you didn't complete your registration. Let's finish setting up your profile.
+Your verification code is: {{code}}
+
+This code will expire in {{expiresInMinutes}} minutes.
+If you didn't request this code, please ignore this email.`
+    },
+
+    'verification-code-resent': {
+        subject: 'Your new ECare+ Verification Code',
+        html: codeEmailHtml(
+            'ECare+ Verification Code',
+            '<p>Here is your new verification code:</p>',
+            `<p>This code will expire in {{expiresInMinutes}} minutes. Any earlier code no longer works.</p>
+        <p>If you didn't request this code, please ignore this email.</p>`
+        ),
+        text: `Here is your new ECare+ verification code: {{code}}
+
+This code will expire in {{expiresInMinutes}} minutes. Any earlier code no longer works.
+If you didn't request this code, please ignore this email.`
+    },
+
+    'password-reset-code': {
+        subject: 'Reset your ECare+ password',
+        html: codeEmailHtml(
+            'ECare+ Password Reset',
+            '<p>We received a request to reset your password. Your reset code is:</p>',
+            `<p>This code will expire in {{expiresInMinutes}} minutes.</p>
+        <p>If you didn't request a password reset, you can safely ignore this email.</p>`
+        ),
+        text: `We received a request to reset your ECare+ password. Your reset code is: {{code}}
+
+This code will expire in {{expiresInMinutes}} minutes.
+If you didn't request a password reset, you can safely ignore this email.`
+    },
+
+    // Email copy of an in-app notification
+    notification: {
+        subject: 'ECare+: {{title}}',
+        html: `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #4CAF50;">{{title}}</h2>
+        <p>{{body}}</p>
+        <p style="color: #888; font-size: 12px;">You can change which emails you receive in your ECare+ notification settings.</p>
+    </div>
+`,
+        text: `{{title}}
+
+{{body}}
+
+You can change which emails you receive in your ECare+ notification settings.`
+    }
+};
+
+const escapeHtml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+
+// Unknown placeholders are left as-is so a missing variable is visible in the sent email
+const fill = (source: string, variables: Record<string, unknown>, escape: (value: string) => string): string =>
+    source.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+        name in variables ? escape(String(variables[name])) : placeholder
+    );
+
+export const renderTemplate = <N extends MailTemplateName>(name: N, variables: MailTemplates[N]): MailContent => {
+    const template = templates[name];
+    return {
+        subject: fill(template.subject, variables, value => value),
+        html: fill(template.html, variables, escapeHtml),
+        text: fill(template.text, variables, value => value)
+    };
+};
@@ -0,0 +1,169 @@
+import * as brevo from '@getbrevo/brevo';
+import nodemailer from 'nodemailer';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MailContent, MailTemplateName, MailTemplates, renderTemplate } from './mailTemplates.service';
+
+export type { MailContent } from './mailTemplates.service';
+
+// 'disabled' when no driver is configured, 'failed' when the driver rejected the message
+export type MailDelivery = 'sent' | 'disabled' | 'failed';
+
+type OutgoingMail = MailContent & { to: string; from: { name: string; email: string } };
+
+// A driver delivers one message and throws when it can't
+interface MailTransport {
+    name: string;
+    send(mail: OutgoingMail): Promise<void>;
+}
+
+// Brevo HTTP API (used instead of SMTP to avoid Render blocking outbound SMTP)
+const createBrevoTransport = (): MailTransport | null => {
+    const brevoApiKey = process.env.BREVO_API_KEY;
+    if (!brevoApiKey) {
+        console.warn('⚠️  BREVO_API_KEY not configured. Email sending will be disabled.');
+        return null;
+    }
+
+    const api = new brevo.TransactionalEmailsApi();
+    // Set API key using the enum for apiKey type
+    api.setApiKey(brevo.TransactionalEmailsApiApiKeys.apiKey, brevoApiKey);
+
+    return {
+        name: 'brevo',
+        send: async mail => {
+            const sendSmtpEmail = new brevo.SendSmtpEmail();
+            sendSmtpEmail.subject = mail.subject;
+            sendSmtpEmail.htmlContent = mail.html;
+            sendSmtpEmail.textContent = mail.text;
+            sendSmtpEmail.sender = mail.from;
+            sendSmtpEmail.to = [{ email: mail.to }];
+            await api.sendTransacEmail(sendSmtpEmail);
+        }
+    };
+};
+
+const createSmtpTransport = (): MailTransport | null => {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+        console.warn('⚠️  SMTP_HOST not configured. Email sending will be disabled.');
+        return null;
+    }
+
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    const transporter = nodemailer.createTransport({
+        host,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+    });
+
+    return {
+        name: 'smtp',
+        send: async mail => {
+            await transporter.sendMail({
+                from: { name: mail.from.name, address: mail.from.email },
+                to: mail.to,
+                subject: mail.subject,
+                html: mail.html,
+                text: mail.text
+            });
+        }
+    };
+};
+
+// Local development: print the plain-text version to the console and, when MAIL_OUTBOX_DIR is
+// set, write each message there as an .eml file that any mail client can open
+const createLocalTransport = (): MailTransport => {
+    const outboxDir = process.env.MAIL_OUTBOX_DIR;
+    const builder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+    return {
+        name: outboxDir ? `local (outbox: ${outboxDir})` : 'local (console)',
+        send: async mail => {
+            console.log(`📧 [mail] To: ${mail.to}\nSubject: ${mail.subject}\n\n${mail.text}\n`);
+            if (!outboxDir) {
+                return;
+            }
+
+            const info = await builder.sendMail({
+                from: { name: mail.from.name, address: mail.from.email },
+                to: mail.to,
+                subject: mail.subject,
+                html: mail.html,
+                text: mail.text
+            });
+            const safeRecipient = mail.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+            const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeRecipient}.eml`;
+            await fs.mkdir(outboxDir, { recursive: true });
+            await fs.writeFile(path.join(outboxDir, fileName), info.message as Buffer);
+        }
+    };
+};
+
+// MAIL_DRIVER picks the driver. Unset, Brevo is used when an API key is present and the local
+// driver otherwise, except in production where mail stays disabled until configured.
+const createTransport = (): MailTransport | null => {
+    const driver = (process.env.MAIL_DRIVER || '').toLowerCase();
+
+    switch (driver) {
+        case 'brevo':
+            return createBrevoTransport();
+        case 'smtp':
+            return createSmtpTransport();
+        case 'local':
+            return createLocalTransport();
+        case 'none':
+            return null;
+        case '':
+            if (process.env.BREVO_API_KEY) {
+                return createBrevoTransport();
+            }
+            if (process.env.NODE_ENV !== 'production') {
+                return createLocalTransport();
+            }
+            console.warn('⚠️  MAIL_DRIVER not configured. Email sending will be disabled.');
+            return null;
+        default:
+            console.warn(`⚠️  Unknown MAIL_DRIVER "${driver}". Email sending will be disabled.`);
+            return null;
+    }
+};
+
+let transport: MailTransport | null = null;
+try {
+    transport = createTransport();
+    if (transport) {
+        console.log(`✅ Mail driver initialized: ${transport.name}`);
+    }
+} catch (error) {
+    console.error('❌ Failed to initialize mail driver:', error);
+}
+
+// False when no driver is configured, so callers can skip queueing mail that can't be sent
+export const isMailEnabled = (): boolean => transport !== null;
+
+export const sendMail = async (to: string, content: MailContent): Promise<MailDelivery> => {
+    if (!transport) {
+        return 'disabled';
+    }
+
+    try {
+        await transport.send({
+            ...content,
+            to,
+            from: {
+                name: 'ECare+',
+                email: process.env.EMAIL_USER || 'noreply@ecareplus.com'
+            }
+        });
+        console.log(`✅ Email "${content.subject}" sent successfully to ${to}`);
+        return 'sent';
+    } catch (emailError: any) {
+        console.error('❌ Email send error:', emailError);
+        return 'failed';
+    }
+};
+
+export const sendTemplate = <N extends MailTemplateName>(to: string, name: N, variables: MailTemplates[N]): Promise<MailDelivery> =>
+    sendMail(to, renderTemplate(name, variables));
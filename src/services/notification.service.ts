@@ -0,0 +1,243 @@
+import { PrismaClient, Prisma, NotificationType, NotificationChannel } from '@prisma/client';
+import { Role } from './account.service';
+import { sendTemplate } from './mailer.service';
+import { sendSms } from './sms.service';
+import { sendPush } from './push.service';
+import { TIMEZONE_OFFSET_MINUTES } from './availability.service';
+import { enqueueJob } from './jobQueue.service';
+
+const prisma = new PrismaClient();
+
+// Channels each notification type goes out on unless the user changed it. The in-app inbox
+// always gets every notification.
+const DEFAULT_CHANNELS: Record<NotificationType, NotificationChannel[]> = {
+    PROFILE_VIEWED: [],
+    DOCTOR_SAVED: [NotificationChannel.PUSH],
+    ONBOARDING_COMPLETED: [NotificationChannel.EMAIL],
+    APPOINTMENT_REQUESTED: [NotificationChannel.EMAIL, NotificationChannel.PUSH],
+    APPOINTMENT_CONFIRMED: [NotificationChannel.EMAIL, NotificationChannel.SMS, NotificationChannel.PUSH],
+    APPOINTMENT_DECLINED: [NotificationChannel.EMAIL, NotificationChannel.PUSH],
+    APPOINTMENT_CANCELLED: [NotificationChannel.EMAIL, NotificationChannel.SMS, NotificationChannel.PUSH],
+    VERIFICATION_APPROVED: [NotificationChannel.EMAIL, NotificationChannel.PUSH],
+    VERIFICATION_REJECTED: [NotificationChannel.EMAIL, NotificationChannel.PUSH]
+};
+
+export type NotificationInput = {
+    role: Role; // Inbox the notification lands in
+    profileId: string; // Doctor or patient id of the recipient
+    type: NotificationType;
+    title: string;
+    body: string;
+    data?: Record<string, string>;
+};
+
+type Recipient = { id: string; email: string | null; phone: string | null; phoneVerifiedAt: Date | null };
+
+type NotificationContent = { title: string; body: string; data?: Record<string, string> };
+
+// 'skipped' when the recipient has no email, verified phone or registered device
+type ChannelDelivery = 'sent' | 'skipped' | 'failed';
+
+type ChannelSender = (user: Recipient, notification: NotificationContent) => Promise<ChannelDelivery>;
+
+const fromDelivery = (delivery: 'sent' | 'disabled' | 'failed'): ChannelDelivery =>
+    delivery === 'disabled' ? 'skipped' : delivery;
+
+const CHANNEL_SENDERS: Record<NotificationChannel, ChannelSender> = {
+    EMAIL: async (user, notification) => {
+        if (!user.email) {
+            return 'skipped';
+        }
+        return fromDelivery(await sendTemplate(user.email, 'notification', { title: notification.title, body: notification.body }));
+    },
+
+    SMS: async (user, notification) => {
+        if (!user.phone || !user.phoneVerifiedAt) {
+            return 'skipped';
+        }
+        return fromDelivery(await sendSms(user.phone, `ECare+: ${notification.title}. ${notification.body}`));
+    },
+
+    PUSH: async (user, notification) => {
+        const devices = await prisma.pushDevice.findMany({ where: { userId: user.id }, select: { token: true } });
+        return fromDelivery(await sendPush(devices.map(device => device.token), notification));
+    }
+};
+
+const recipientSelect = { id: true, email: true, phone: true, phoneVerifiedAt: true };
+
+const findRecipient = async (role: Role, profileId: string): Promise<Recipient | null> => {
+    const profile = role === 'doctor'
+        ? await prisma.doctor.findUnique({ where: { id: profileId }, select: { user: { select: recipientSelect } } })
+        : await prisma.patient.findUnique({ where: { id: profileId }, select: { user: { select: recipientSelect } } });
+    return profile?.user ?? null;
+};
+
+const isEnabled = (overrides: { type: NotificationType; channel: NotificationChannel; enabled: boolean }[], type: NotificationType, channel: NotificationChannel): boolean =>
+    overrides.find(override => override.type === type && override.channel === channel)?.enabled ?? DEFAULT_CHANNELS[type].includes(channel);
+
+// Channels a notification type goes out on for one user, after their preferences
+const enabledChannels = async (userId: string, type: NotificationType): Promise<NotificationChannel[]> => {
+    const overrides = await prisma.notificationPreference.findMany({ where: { userId, type } });
+    return Object.values(NotificationChannel).filter(channel => isEnabled(overrides, type, channel));
+};
+
+// Effective channel settings for every notification type, e.g.
+// { APPOINTMENT_CONFIRMED: { EMAIL: true, SMS: true, PUSH: true }, ... }
+export const getNotificationPreferenceMatrix = async (userId: string) => {
+    const overrides = await prisma.notificationPreference.findMany({ where: { userId } });
+    return Object.fromEntries(Object.values(NotificationType).map(type => [
+        type,
+        Object.fromEntries(Object.values(NotificationChannel).map(channel => [channel, isEnabled(overrides, type, channel)]))
+    ]));
+};
+
+// Store a notification in the recipient's inbox and queue one delivery job per enabled
+// channel, so a failing channel is retried without resending the others. Run by the worker.
+export const createNotification = async (input: NotificationInput): Promise<void> => {
+    const user = await findRecipient(input.role, input.profileId);
+    if (!user) {
+        return;
+    }
+
+    const notification = await prisma.notification.create({
+        data: {
+            userId: user.id,
+            role: input.role,
+            type: input.type,
+            title: input.title,
+            body: input.body,
+            data: input.data ?? Prisma.JsonNull
+        }
+    });
+
+    for (const channel of await enabledChannels(user.id, input.type)) {
+        await enqueueJob('deliver-notification', { notificationId: notification.id, channel });
+    }
+};
+
+// Send a stored notification on one channel; throws when the provider fails so the job retries
+export const deliverNotification = async (notificationId: string, channel: NotificationChannel): Promise<void> => {
+    const notification = await prisma.notification.findUnique({
+        where: { id: notificationId },
+        include: { user: { select: recipientSelect } }
+    });
+    if (!notification || notification.deliveredChannels.includes(channel)) {
+        return;
+    }
+
+    const delivery = await CHANNEL_SENDERS[channel](notification.user, {
+        title: notification.title,
+        body: notification.body,
+        data: (notification.data ?? undefined) as Record<string, string> | undefined
+    });
+    if (delivery === 'failed') {
+        throw new Error(`${channel} delivery failed`);
+    }
+    if (delivery === 'sent') {
+        await prisma.notification.update({
+            where: { id: notificationId },
+            data: { deliveredChannels: { push: channel } }
+        });
+    }
+};
+
+// Queue a notification. Never throws: a failed notification must not fail the action that
+// triggered it.
+export const notify = async (input: NotificationInput): Promise<void> => {
+    try {
+        await enqueueJob('notify', input);
+    } catch (error) {
+        console.error('Notification error:', error);
+    }
+};
+
+// Clinic-local time for message text, e.g. "2026-10-21 14:30"
+const formatLocalTime = (date: Date): string =>
+    new Date(date.getTime() + TIMEZONE_OFFSET_MINUTES * 60 * 1000).toISOString().slice(0, 16).replace('T', ' ');
+
+// Domain events. Callers don't await these; enqueueing is the only work on the request path.
+
+export const notifyProfileViewed = (doctorId: string, patient: { id: string; name: string | null }) =>
+    notify({
+        role: 'doctor',
+        profileId: doctorId,
+        type: NotificationType.PROFILE_VIEWED,
+        title: 'New profile view',
+        body: `${patient.name ?? 'A patient'} viewed your profile.`,
+        data: { patientId: patient.id }
+    });
+
+export const notifyDoctorSaved = (doctorId: string, patient: { id: string; name: string | null }) =>
+    notify({
+        role: 'doctor',
+        profileId: doctorId,
+        type: NotificationType.DOCTOR_SAVED,
+        title: 'A patient saved your profile',
+        body: `${patient.name ?? 'A patient'} added you to their saved doctors.`,
+        data: { patientId: patient.id }
+    });
+
+export const notifyOnboardingCompleted = (role: Role, profileId: string) =>
+    notify({
+        role,
+        profileId,
+        type: NotificationType.ONBOARDING_COMPLETED,
+        title: 'Welcome to ECare+',
+        body: role === 'doctor'
+            ? 'Your profile is complete and patients can now find and book you.'
+            : 'Your profile is complete. You can now search for doctors and book appointments.'
+    });
+
+export const notifyVerificationReviewed = (doctorId: string, status: 'APPROVED' | 'REJECTED', notes: string | null) =>
+    notify({
+        role: 'doctor',
+        profileId: doctorId,
+        type: status === 'APPROVED' ? NotificationType.VERIFICATION_APPROVED : NotificationType.VERIFICATION_REJECTED,
+        title: status === 'APPROVED' ? 'Registration verified' : 'Registration not verified',
+        body: status === 'APPROVED'
+            ? 'Your medical registration has been verified. Your profile is now listed for patients.'
+            : `We could not verify your medical registration.${notes ? ` Reviewer note: ${notes}` : ''} Please check the details and submit again.`
+    });
+
+type AppointmentSummary = {
+    id: string;
+    doctorId: string;
+    patientId: string;
+    startTime: Date;
+    doctor: { name: string | null };
+    patient: { name: string | null };
+};
+
+export const notifyAppointmentRequested = (appointment: AppointmentSummary) =>
+    notify({
+        role: 'doctor',
+        profileId: appointment.doctorId,
+        type: NotificationType.APPOINTMENT_REQUESTED,
+        title: 'New appointment request',
+        body: `${appointment.patient.name ?? 'A patient'} requested an appointment on ${formatLocalTime(appointment.startTime)}.`,
+        data: { appointmentId: appointment.id }
+    });
+
+export const notifyAppointmentResponded = (appointment: AppointmentSummary, status: 'CONFIRMED' | 'DECLINED') =>
+    notify({
+        role: 'patient',
+        profileId: appointment.patientId,
+        type: status === 'CONFIRMED' ? NotificationType.APPOINTMENT_CONFIRMED : NotificationType.APPOINTMENT_DECLINED,
+        title: status === 'CONFIRMED' ? 'Appointment confirmed' : 'Appointment declined',
+        body: `Dr. ${appointment.doctor.name ?? 'your doctor'} ${status === 'CONFIRMED' ? 'confirmed' : 'declined'} your appointment on ${formatLocalTime(appointment.startTime)}.`,
+        data: { appointmentId: appointment.id }
+    });
+
+// Tell the other participant
+export const notifyAppointmentCancelled = (appointment: AppointmentSummary, cancelledBy: Role) =>
+    notify({
+        role: cancelledBy === 'doctor' ? 'patient' : 'doctor',
+        profileId: cancelledBy === 'doctor' ? appointment.patientId : appointment.doctorId,
+        type: NotificationType.APPOINTMENT_CANCELLED,
+        title: 'Appointment cancelled',
+        body: cancelledBy === 'doctor'
+            ? `Dr. ${appointment.doctor.name ?? 'your doctor'} cancelled your appointment on ${formatLocalTime(appointment.startTime)}.`
+            : `${appointment.patient.name ?? 'A patient'} cancelled their appointment on ${formatLocalTime(appointment.startTime)}.`,
+        data: { appointmentId: appointment.id }
+    });
@@ -0,0 +1,179 @@
+import { PrismaClient, OnboardingStep, PatientOnboardingStep } from '@prisma/client';
+import { Role } from './account.service';
+
+const prisma = new PrismaClient();
+
+// Onboarding as an explicit state machine. Each wizard step lists the profile fields it fills;
+// a step is done when those fields are present, so progress is always derived from the data
+// rather than trusted from the stored enum. The stored onboardingStep names the step a profile
+// is currently on (PERSONAL_INFO_COMPLETE = "on the personal info step") and is recomputed on
+// every transition. Earlier steps can be submitted again at any time without losing progress.
+
+export type OnboardingStepKey = 'VERIFY_CONTACT' | 'PERSONAL_INFO' | 'PROFESSIONAL_INFO' | 'AVAILABILITY';
+
+// Everything the steps look at: profile columns, the account's verification and schedule size
+export type OnboardingData = Record<string, unknown> & {
+    user: { emailVerifiedAt: Date | null; phoneVerifiedAt: Date | null };
+    _count?: { scheduleWindows: number };
+};
+
+type StepDefinition<S extends string> = {
+    key: OnboardingStepKey;
+    state: S; // Stored onboardingStep while this is the current step
+    fields: string[];
+    endpoint: string; // Where the wizard submits this step
+    blockedMessage: string; // Shown when a later step is attempted before this one is done
+};
+
+type Machine<S extends string> = {
+    steps: StepDefinition<S>[];
+    doneState: S;
+};
+
+const VERIFY_CONTACT_FIELD = 'verifiedEmailOrPhone';
+const SCHEDULE_FIELD = 'schedule';
+
+const DOCTOR_MACHINE: Machine<OnboardingStep> = {
+    steps: [
+        {
+            key: 'VERIFY_CONTACT',
+            state: OnboardingStep.EMAIL_VERIFIED,
+            fields: [VERIFY_CONTACT_FIELD],
+            endpoint: 'POST /doctors/onboarding/verify-otp',
+            blockedMessage: 'Please complete email verification first'
+        },
+        {
+            key: 'PERSONAL_INFO',
+            state: OnboardingStep.PERSONAL_INFO_COMPLETE,
+            fields: ['name', 'age', 'gender', 'languages', 'contactNumber', 'whatsappNumber'],
+            endpoint: 'POST /doctors/onboarding/personal-info',
+            blockedMessage: 'Please complete personal information first'
+        },
+        {
+            key: 'PROFESSIONAL_INFO',
+            state: OnboardingStep.PROFESSIONAL_INFO_COMPLETE,
+            fields: ['specialty', 'yearsOfExperience', 'latestQualification'],
+            endpoint: 'POST /doctors/onboarding/professional-info',
+            blockedMessage: 'Please complete professional information first'
+        },
+        {
+            key: 'AVAILABILITY',
+            state: OnboardingStep.AVAILABILITY_COMPLETE,
+            fields: ['address', 'city', 'locality', SCHEDULE_FIELD],
+            endpoint: 'POST /doctors/onboarding/availability',
+            blockedMessage: 'Please complete availability first'
+        }
+    ],
+    doneState: OnboardingStep.COMPLETE
+};
+
+// Patients have no separate COMPLETE value: they stay on PERSONAL_INFO_COMPLETE once done
+const PATIENT_MACHINE: Machine<PatientOnboardingStep> = {
+    steps: [
+        {
+            key: 'VERIFY_CONTACT',
+            state: PatientOnboardingStep.EMAIL_VERIFIED,
+            fields: [VERIFY_CONTACT_FIELD],
+            endpoint: 'POST /patients/onboarding/verify-otp',
+            blockedMessage: 'Please complete email verification first'
+        },
+        {
+            key: 'PERSONAL_INFO',
+            state: PatientOnboardingStep.PERSONAL_INFO_COMPLETE,
+            fields: ['name', 'phone', 'gender', 'age', 'city'],
+            endpoint: 'POST /patients/onboarding/personal-info',
+            blockedMessage: 'Please complete personal information first'
+        }
+    ],
+    doneState: PatientOnboardingStep.PERSONAL_INFO_COMPLETE
+};
+
+const isMissing = (value: unknown): boolean =>
+    value === null || value === undefined || (typeof value === 'string' && !value.trim()) || (Array.isArray(value) && value.length === 0);
+
+const fieldValue = (data: OnboardingData, field: string): unknown => {
+    if (field === VERIFY_CONTACT_FIELD) {
+        return data.user.emailVerifiedAt ?? data.user.phoneVerifiedAt;
+    }
+    if (field === SCHEDULE_FIELD) {
+        return data._count?.scheduleWindows ? data._count.scheduleWindows : null;
+    }
+    return data[field];
+};
+
+const missingFields = <S extends string>(step: StepDefinition<S>, data: OnboardingData): string[] =>
+    step.fields.filter(field => isMissing(fieldValue(data, field)));
+
+// First step with missing fields, or null when onboarding is done
+const firstIncompleteStep = <S extends string>(machine: Machine<S>, data: OnboardingData) =>
+    machine.steps.find(step => missingFields(step, data).length > 0) ?? null;
+
+// Stored value for a profile with this data
+const stateFor = <S extends string>(machine: Machine<S>, data: OnboardingData): S =>
+    firstIncompleteStep(machine, data)?.state ?? machine.doneState;
+
+// A step can be submitted once every step before it is done: the current step, or any earlier
+// one when going back. Returns the message to show when it can't.
+const blockedBy = <S extends string>(machine: Machine<S>, data: OnboardingData, key: OnboardingStepKey): string | null => {
+    const index = machine.steps.findIndex(step => step.key === key);
+    const blocking = machine.steps.slice(0, index).find(step => missingFields(step, data).length > 0);
+    return blocking ? blocking.blockedMessage : null;
+};
+
+// Include this when loading a profile for the state machine
+export const ONBOARDING_INCLUDE = {
+    user: { select: { emailVerifiedAt: true, phoneVerifiedAt: true } },
+    _count: { select: { scheduleWindows: true } }
+} as const;
+
+export const PATIENT_ONBOARDING_INCLUDE = {
+    user: { select: { emailVerifiedAt: true, phoneVerifiedAt: true } }
+} as const;
+
+export const doctorStateFor = (data: OnboardingData): OnboardingStep => stateFor(DOCTOR_MACHINE, data);
+
+export const patientStateFor = (data: OnboardingData): PatientOnboardingStep => stateFor(PATIENT_MACHINE, data);
+
+// Wizard step the profile should be sent to, or null when onboarding is done
+export const currentOnboardingStep = (role: Role, data: OnboardingData): OnboardingStepKey | null =>
+    firstIncompleteStep<string>(role === 'doctor' ? DOCTOR_MACHINE : PATIENT_MACHINE, data)?.key ?? null;
+
+export const doctorStepBlockedBy = (data: OnboardingData, key: OnboardingStepKey): string | null =>
+    blockedBy(DOCTOR_MACHINE, data, key);
+
+export const patientStepBlockedBy = (data: OnboardingData, key: OnboardingStepKey): string | null =>
+    blockedBy(PATIENT_MACHINE, data, key);
+
+// Wizard progress: every step with its status and missing fields, for GET /me/onboarding
+const describeProgress = <S extends string>(machine: Machine<S>, data: OnboardingData, storedStep: S) => {
+    const current = firstIncompleteStep(machine, data);
+    const currentIndex = current ? machine.steps.indexOf(current) : machine.steps.length;
+
+    return {
+        onboardingStep: storedStep,
+        currentStep: current?.key ?? null,
+        isComplete: current === null,
+        completedSteps: machine.steps.filter(step => missingFields(step, data).length === 0).length,
+        totalSteps: machine.steps.length,
+        steps: machine.steps.map((step, index) => {
+            const missing = missingFields(step, data);
+            return {
+                key: step.key,
+                status: missing.length === 0 ? 'complete' : index === currentIndex ? 'current' : 'upcoming',
+                missingFields: missing,
+                // Done steps stay editable for back-navigation; later ones wait for the current one
+                canSubmit: index <= currentIndex,
+                endpoint: step.endpoint
+            };
+        })
+    };
+};
+
+export const getOnboardingProgress = async (role: Role, profileId: string) => {
+    if (role === 'doctor') {
+        const doctor = await prisma.doctor.findUnique({ where: { id: profileId }, include: ONBOARDING_INCLUDE });
+        return doctor ? describeProgress(DOCTOR_MACHINE, doctor, doctor.onboardingStep) : null;
+    }
+    const patient = await prisma.patient.findUnique({ where: { id: profileId }, include: PATIENT_ONBOARDING_INCLUDE });
+    return patient ? describeProgress(PATIENT_MACHINE, patient, patient.onboardingStep) : null;
+};
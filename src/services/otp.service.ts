@@ -0,0 +1,195 @@
+import crypto from 'crypto';
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// One-time codes are only ever stored as an HMAC, so a leaked row can't be replayed
+const OTP_SECRET: string = process.env.OTP_SECRET || process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+export const OTP_TTL_MINUTES = 10;
+// Wrong guesses allowed per code before it is burned
+export const OTP_MAX_ATTEMPTS: number = Number(process.env.OTP_MAX_ATTEMPTS ?? 5);
+// How long verification stays locked after the attempts run out
+export const OTP_LOCKOUT_MINUTES: number = Number(process.env.OTP_LOCKOUT_MINUTES ?? 15);
+// Minimum gap between two codes sent to the same account
+export const OTP_RESEND_COOLDOWN_SECONDS: number = Number(process.env.OTP_RESEND_COOLDOWN_SECONDS ?? 60);
+
+// 6-digit code from a cryptographically secure source
+export const generateOtp = (): string => crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+export const hashOtp = (otp: string): string => crypto.createHmac('sha256', OTP_SECRET).update(otp).digest('hex');
+
+export const otpMatches = (otp: string, otpHash: string): boolean => {
+    const a = Buffer.from(hashOtp(otp), 'hex');
+    const b = Buffer.from(otpHash, 'hex');
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+export const otpExpiryFromNow = (): Date => new Date(Date.now() + OTP_TTL_MINUTES * 60 * 1000);
+
+export const otpLockoutFromNow = (): Date => new Date(Date.now() + OTP_LOCKOUT_MINUTES * 60 * 1000);
+
+// Seconds until another code may be sent, 0 when the cooldown has passed
+export const resendCooldownRemaining = (sentAt: Date | null): number => {
+    if (!sentAt) {
+        return 0;
+    }
+    const elapsed = (Date.now() - sentAt.getTime()) / 1000;
+    return Math.max(0, Math.ceil(OTP_RESEND_COOLDOWN_SECONDS - elapsed));
+};
+
+// Seconds until a locked account may verify again, 0 when not locked
+export const lockoutRemaining = (lockedUntil: Date | null): number => {
+    if (!lockedUntil) {
+        return 0;
+    }
+    return Math.max(0, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+};
+
+// Outcome of checking a submitted code against the one stored on an account
+export type CodeCheck =
+    | { valid: true }
+    | { valid: false; reason: 'locked'; retryAfterSeconds: number }
+    | { valid: false; reason: 'invalid'; attemptsRemaining: number };
+
+// Where one kind of code is kept: the table it lives on and the columns of the row that hold it
+type CodeColumns = {
+    updateMany: (args: { where: Record<string, unknown>; data: Record<string, unknown> }) => Promise<{ count: number }>;
+    code: string;
+    expiry: string;
+    sentAt: string;
+    attempts: string;
+    lockedUntil: string | null; // Null when running out of attempts only burns the code
+    target?: string; // Where the code was sent, cleared with it
+};
+
+const EMAIL_CODE: CodeColumns = {
+    updateMany: args => prisma.user.updateMany(args as Prisma.UserUpdateManyArgs),
+    code: 'otp',
+    expiry: 'otpExpiry',
+    sentAt: 'otpSentAt',
+    attempts: 'otpAttempts',
+    lockedUntil: 'otpLockedUntil'
+};
+
+const PASSWORD_RESET_CODE: CodeColumns = {
+    updateMany: args => prisma.user.updateMany(args as Prisma.UserUpdateManyArgs),
+    code: 'passwordResetOtp',
+    expiry: 'passwordResetExpiry',
+    sentAt: 'passwordResetSentAt',
+    attempts: 'passwordResetAttempts',
+    lockedUntil: null
+};
+
+const PHONE_CODE: CodeColumns = {
+    updateMany: args => prisma.user.updateMany(args as Prisma.UserUpdateManyArgs),
+    code: 'phoneOtp',
+    expiry: 'phoneOtpExpiry',
+    sentAt: 'phoneOtpSentAt',
+    attempts: 'phoneOtpAttempts',
+    lockedUntil: 'phoneOtpLockedUntil',
+    target: 'phoneOtpTarget'
+};
+
+const PENDING_PHONE_CODE: CodeColumns = {
+    updateMany: args => prisma.pendingPhoneCode.updateMany(args as Prisma.PendingPhoneCodeUpdateManyArgs),
+    code: 'otp',
+    expiry: 'otpExpiry',
+    sentAt: 'otpSentAt',
+    attempts: 'otpAttempts',
+    lockedUntil: 'otpLockedUntil'
+};
+
+// Check a submitted code against the stored hash on the row matching `key`. An attempt is spent
+// before comparing so parallel guesses can't exceed the limit; the last wrong guess burns the code
+// and, where the code has a lock column, locks verification.
+const checkCode = async (
+    columns: CodeColumns,
+    key: Record<string, string>,
+    stored: { hash: string; attempts: number },
+    otp: string
+): Promise<CodeCheck> => {
+    const attempt = await columns.updateMany({
+        where: { ...key, [columns.code]: stored.hash, [columns.attempts]: { lt: OTP_MAX_ATTEMPTS } },
+        data: { [columns.attempts]: { increment: 1 } }
+    });
+
+    if (attempt.count === 1 && otpMatches(otp, stored.hash)) {
+        return { valid: true };
+    }
+
+    const attemptsRemaining = attempt.count === 0 ? 0 : Math.max(0, OTP_MAX_ATTEMPTS - stored.attempts - 1);
+    if (attemptsRemaining > 0) {
+        return { valid: false, reason: 'invalid', attemptsRemaining };
+    }
+
+    // A new code can be requested once the lock expires
+    const lockedUntil = columns.lockedUntil ? otpLockoutFromNow() : null;
+    await columns.updateMany({
+        where: { ...key, [columns.code]: stored.hash },
+        data: {
+            [columns.code]: null,
+            [columns.expiry]: null,
+            [columns.attempts]: 0,
+            ...(columns.target ? { [columns.target]: null } : {}),
+            ...(columns.lockedUntil ? { [columns.lockedUntil]: lockedUntil } : {})
+        }
+    });
+    return { valid: false, reason: 'locked', retryAfterSeconds: lockoutRemaining(lockedUntil) };
+};
+
+export const checkVerificationCode = (user: { id: string; otp: string; otpAttempts: number }, otp: string): Promise<CodeCheck> =>
+    checkCode(EMAIL_CODE, { id: user.id }, { hash: user.otp, attempts: user.otpAttempts }, otp);
+
+// Running out of reset attempts burns the code without a lock
+export const checkPasswordResetCode = (
+    user: { id: string; passwordResetOtp: string; passwordResetAttempts: number },
+    otp: string
+): Promise<CodeCheck> =>
+    checkCode(PASSWORD_RESET_CODE, { id: user.id }, { hash: user.passwordResetOtp, attempts: user.passwordResetAttempts }, otp);
+
+export const checkPhoneCode = (user: { id: string; phoneOtp: string; phoneOtpAttempts: number }, otp: string): Promise<CodeCheck> =>
+    checkCode(PHONE_CODE, { id: user.id }, { hash: user.phoneOtp, attempts: user.phoneOtpAttempts }, otp);
+
+// Sign-up code sent to a number with no account yet
+export const checkPendingPhoneCode = (pending: { phone: string; otp: string; otpAttempts: number }, otp: string): Promise<CodeCheck> =>
+    checkCode(PENDING_PHONE_CODE, { phone: pending.phone }, { hash: pending.otp, attempts: pending.otpAttempts }, otp);
+
+const cooldownCutoff = () => new Date(Date.now() - OTP_RESEND_COOLDOWN_SECONDS * 1000);
+
+// Store a fresh code on the row matching `key`, unless one was sent within the cooldown. The update
+// is conditional on the last send time so two concurrent requests can't both send a code.
+// Returns the code to deliver, or null when the cooldown applies.
+const issueCode = async (columns: CodeColumns, key: Record<string, string>, extra: Record<string, unknown> = {}): Promise<string | null> => {
+    const otp = generateOtp();
+    const issued = await columns.updateMany({
+        where: {
+            ...key,
+            OR: [{ [columns.sentAt]: null }, { [columns.sentAt]: { lte: cooldownCutoff() } }]
+        },
+        data: {
+            [columns.code]: hashOtp(otp),
+            [columns.expiry]: otpExpiryFromNow(),
+            [columns.sentAt]: new Date(),
+            [columns.attempts]: 0,
+            ...(columns.lockedUntil ? { [columns.lockedUntil]: null } : {}),
+            ...extra
+        }
+    });
+    return issued.count === 1 ? otp : null;
+};
+
+export const issueVerificationCode = (userId: string): Promise<string | null> => issueCode(EMAIL_CODE, { id: userId });
+
+export const issuePasswordResetCode = (userId: string): Promise<string | null> => issueCode(PASSWORD_RESET_CODE, { id: userId });
+
+// Phone codes remember the number they were sent to, so verifying a new number on an
+// account can't confirm a different one
+export const issuePhoneCode = (userId: string, phone: string): Promise<string | null> =>
+    issueCode(PHONE_CODE, { id: userId }, { phoneOtpTarget: phone });
+
+// Sign-up code for a number with no account, keyed by the number itself
+export const issuePendingPhoneCode = async (phone: string): Promise<string | null> => {
+    await prisma.pendingPhoneCode.createMany({ data: [{ phone }], skipDuplicates: true });
+    return issueCode(PENDING_PHONE_CODE, { phone });
+};
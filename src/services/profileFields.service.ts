@@ -0,0 +1,140 @@
+import { Gender } from '@prisma/client';
+import { validatePhoneNumber } from './validation.service';
+
+// Field-level validation shared by the onboarding steps and the profile edit endpoints, so a
+// value accepted once is accepted again when it's edited later
+
+export type FieldError = { message: string; code: string };
+
+type FieldRule = {
+    validate: (value: any) => FieldError | null;
+    normalize: (value: any) => unknown;
+};
+
+const trimmed = (value: string) => value.trim();
+
+const text = (label: string, minLength: number, code: string): FieldRule => ({
+    validate: value => typeof value !== 'string' || value.trim().length < minLength
+        ? { message: `${label} must be at least ${minLength} characters long`, code }
+        : null,
+    normalize: trimmed
+});
+
+const age = (min: number, max: number): FieldRule => ({
+    validate: value => {
+        const ageNum = Number(value);
+        return value === null || !Number.isInteger(ageNum) || ageNum < min || ageNum > max
+            ? { message: `Age must be a whole number between ${min} and ${max}`, code: 'INVALID_AGE' }
+            : null;
+    },
+    normalize: Number
+});
+
+const gender: FieldRule = {
+    validate: value => !Object.values(Gender).includes(value)
+        ? { message: `Gender must be one of: ${Object.values(Gender).join(', ')}`, code: 'INVALID_GENDER' }
+        : null,
+    normalize: value => value as Gender
+};
+
+// One or more catalogue terms; a single string is accepted as a list of one
+const termList = (label: string, max: number, code: string): FieldRule => ({
+    validate: value => {
+        const terms = typeof value === 'string' ? [value] : value;
+        return !Array.isArray(terms) || terms.length === 0 || terms.length > max || terms.some(term => typeof term !== 'string' || !term.trim())
+            ? { message: `Send between 1 and ${max} ${label}`, code }
+            : null;
+    },
+    normalize: value => [...new Set((typeof value === 'string' ? [value] : value as string[]).map(trimmed))]
+});
+
+const phone = (message: string, code: string): FieldRule => ({
+    validate: value => typeof value !== 'string' || !validatePhoneNumber(value) ? { message, code } : null,
+    normalize: trimmed
+});
+
+export const DOCTOR_PROFILE_FIELDS = {
+    name: text('Name', 2, 'INVALID_NAME'),
+    age: age(18, 100),
+    gender,
+    languages: {
+        validate: value => !Array.isArray(value) || value.length === 0 || value.some(lang => typeof lang !== 'string' || !lang.trim())
+            ? { message: 'At least one language is required', code: 'INVALID_LANGUAGES' }
+            : null,
+        normalize: (value: string[]) => value.map(trimmed)
+    },
+    contactNumber: phone('Invalid contact number format', 'INVALID_CONTACT_NUMBER'),
+    whatsappNumber: phone('Invalid WhatsApp number format', 'INVALID_WHATSAPP_NUMBER'),
+    specialties: termList('specialties', 5, 'INVALID_SPECIALTIES'), // Catalogue names, synonyms or ids; the first is primary
+    yearsOfExperience: {
+        validate: value => {
+            const yoe = Number(value);
+            return value === null || !Number.isInteger(yoe) || yoe < 0 || yoe > 50
+                ? { message: 'Years of experience must be a whole number between 0 and 50', code: 'INVALID_YEARS_OF_EXPERIENCE' }
+                : null;
+        },
+        normalize: Number
+    },
+    qualifications: termList('qualifications', 10, 'INVALID_QUALIFICATIONS'),
+    address: text('Address', 5, 'INVALID_ADDRESS'),
+    city: text('City', 2, 'INVALID_CITY'),
+    locality: text('Locality', 2, 'INVALID_LOCALITY')
+} satisfies Record<string, FieldRule>;
+
+// Single free-text fields older clients still send, and the catalogue field each now feeds
+const LEGACY_DOCTOR_FIELDS: Record<string, keyof typeof DOCTOR_PROFILE_FIELDS> = {
+    specialty: 'specialties',
+    latestQualification: 'qualifications'
+};
+
+// Rename legacy fields to their catalogue field, unless the new one was sent as well
+export const withLegacyDoctorFields = (body: Record<string, any>): Record<string, any> => {
+    const result = { ...body };
+    for (const [legacy, field] of Object.entries(LEGACY_DOCTOR_FIELDS)) {
+        if (result[legacy] !== undefined && result[field] === undefined) {
+            result[field] = result[legacy];
+        }
+        delete result[legacy];
+    }
+    return result;
+};
+
+export const PATIENT_PROFILE_FIELDS = {
+    name: text('Name', 2, 'INVALID_NAME'),
+    phone: phone('Invalid phone number format', 'INVALID_PHONE'),
+    gender,
+    age: age(1, 120),
+    city: text('City', 2, 'INVALID_CITY')
+} satisfies Record<string, FieldRule>;
+
+// Validate and normalise the given fields of a request body. Fields that are absent are skipped,
+// so callers check for required fields first. Returns the first error in field order.
+export const parseProfileFields = <F extends Record<string, FieldRule>>(
+    rules: F,
+    input: Record<string, unknown>,
+    fields: (keyof F & string)[] = Object.keys(rules)
+): { data: Partial<Record<keyof F, any>>; error?: undefined } | { data?: undefined; error: FieldError } => {
+    const data: Partial<Record<keyof F, any>> = {};
+    for (const field of fields) {
+        if (input[field] === undefined) {
+            continue;
+        }
+        const error = rules[field].validate(input[field]);
+        if (error) {
+            return { error };
+        }
+        data[field] = rules[field].normalize(input[field]);
+    }
+    return { data };
+};
+
+// Field-by-field differences between the stored profile and an update, for the audit trail
+export const diffProfile = (current: Record<string, unknown>, update: Record<string, unknown>): Record<string, { from: unknown; to: unknown }> => {
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    for (const [field, value] of Object.entries(update)) {
+        if (JSON.stringify(current[field] ?? null) !== JSON.stringify(value ?? null)) {
+            changes[field] = { from: current[field] ?? null, to: value ?? null };
+        }
+    }
+    return changes;
+};
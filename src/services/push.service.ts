@@ -0,0 +1,52 @@
+// 'disabled' when no provider is configured, 'failed' when the provider rejected the message
+export type PushDelivery = 'sent' | 'disabled' | 'failed';
+
+export type PushMessage = { title: string; body: string; data?: Record<string, unknown> };
+
+// A provider delivers one message to a set of device tokens and throws when it can't
+interface PushProvider {
+    name: string;
+    send(tokens: string[], message: PushMessage): Promise<void>;
+}
+
+// Local development stub: messages are printed instead of sent
+const createLocalProvider = (): PushProvider => ({
+    name: 'local (console)',
+    send: async (tokens, message) => {
+        console.log(`🔔 [push] To ${tokens.length} device(s): ${message.title}\n${message.body}\n`);
+    }
+});
+
+// PUSH_DRIVER picks the provider. Unset, the local stub is used outside production and push
+// stays disabled in production until a provider is configured.
+const createProvider = (): PushProvider | null => {
+    const driver = (process.env.PUSH_DRIVER || '').toLowerCase();
+
+    switch (driver) {
+        case 'local':
+            return createLocalProvider();
+        case 'none':
+            return null;
+        case '':
+            return process.env.NODE_ENV !== 'production' ? createLocalProvider() : null;
+        default:
+            console.warn(`⚠️  Unknown PUSH_DRIVER "${driver}". Push notifications will be disabled.`);
+            return null;
+    }
+};
+
+const provider = createProvider();
+
+export const sendPush = async (tokens: string[], message: PushMessage): Promise<PushDelivery> => {
+    if (!provider || tokens.length === 0) {
+        return 'disabled';
+    }
+
+    try {
+        await provider.send(tokens, message);
+        return 'sent';
+    } catch (pushError: any) {
+        console.error('❌ Push send error:', pushError);
+        return 'failed';
+    }
+};
@@ -0,0 +1,146 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Failed logins allowed per account before it is locked
+export const LOGIN_MAX_FAILURES: number = Number(process.env.LOGIN_MAX_FAILURES ?? 5);
+// Window in which failures are counted, and how long the lock lasts
+export const LOGIN_FAILURE_WINDOW_MINUTES: number = Number(process.env.LOGIN_FAILURE_WINDOW_MINUTES ?? 15);
+export const LOGIN_LOCKOUT_MINUTES: number = Number(process.env.LOGIN_LOCKOUT_MINUTES ?? 15);
+
+export type RateLimitHit = { count: number; resetAt: Date };
+
+// Fixed-window counters. The in-memory store is per process; use the database store (or plug in
+// your own, e.g. Redis) when running more than one instance so limits are shared.
+export interface RateLimitStore {
+    // Count a hit against key, starting a new window of windowMs if the previous one has ended
+    increment(key: string, windowMs: number): Promise<RateLimitHit>;
+    // Current window for key, or null when there is none or it has ended
+    get(key: string): Promise<RateLimitHit | null>;
+    reset(key: string): Promise<void>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+    private buckets = new Map<string, RateLimitHit>();
+
+    constructor(sweepIntervalMs = 60 * 1000) {
+        // Drop ended windows so the map doesn't grow with every IP ever seen
+        setInterval(() => {
+            const now = Date.now();
+            for (const [key, bucket] of this.buckets) {
+                if (bucket.resetAt.getTime() <= now) {
+                    this.buckets.delete(key);
+                }
+            }
+        }, sweepIntervalMs).unref();
+    }
+
+    async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+        const current = await this.get(key);
+        const bucket = current
+            ? { count: current.count + 1, resetAt: current.resetAt }
+            : { count: 1, resetAt: new Date(Date.now() + windowMs) };
+        this.buckets.set(key, bucket);
+        return bucket;
+    }
+
+    async get(key: string): Promise<RateLimitHit | null> {
+        const bucket = this.buckets.get(key);
+        if (!bucket || bucket.resetAt.getTime() <= Date.now()) {
+            return null;
+        }
+        return bucket;
+    }
+
+    async reset(key: string): Promise<void> {
+        this.buckets.delete(key);
+    }
+}
+
+// Shares counters between instances through the RateLimitBucket table
+export class DatabaseRateLimitStore implements RateLimitStore {
+    constructor(pruneIntervalMs = 10 * 60 * 1000) {
+        setInterval(() => {
+            prisma.rateLimitBucket.deleteMany({ where: { resetAt: { lte: new Date() } } })
+                .catch(error => console.error('Rate limit prune error:', error));
+        }, pruneIntervalMs).unref();
+    }
+
+    async increment(key: string, windowMs: number, retried = false): Promise<RateLimitHit> {
+        const now = new Date();
+        const resetAt = new Date(now.getTime() + windowMs);
+
+        // Restart an ended window before counting against it
+        await prisma.rateLimitBucket.updateMany({
+            where: { key, resetAt: { lte: now } },
+            data: { count: 0, resetAt }
+        });
+
+        try {
+            const bucket = await prisma.rateLimitBucket.upsert({
+                where: { key },
+                create: { key, count: 1, resetAt },
+                update: { count: { increment: 1 } }
+            });
+            return { count: bucket.count, resetAt: bucket.resetAt };
+        } catch (error) {
+            // Two first hits raced to create the row; the loser counts against the winner's row
+            if (!retried && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                return this.increment(key, windowMs, true);
+            }
+            throw error;
+        }
+    }
+
+    async get(key: string): Promise<RateLimitHit | null> {
+        const bucket = await prisma.rateLimitBucket.findUnique({ where: { key } });
+        if (!bucket || bucket.resetAt <= new Date()) {
+            return null;
+        }
+        return { count: bucket.count, resetAt: bucket.resetAt };
+    }
+
+    async reset(key: string): Promise<void> {
+        await prisma.rateLimitBucket.deleteMany({ where: { key } });
+    }
+}
+
+let store: RateLimitStore = process.env.RATE_LIMIT_STORE === 'database'
+    ? new DatabaseRateLimitStore()
+    : new MemoryRateLimitStore();
+
+export const getRateLimitStore = (): RateLimitStore => store;
+
+// Swap the backing store, e.g. for a Redis implementation
+export const setRateLimitStore = (next: RateLimitStore): void => {
+    store = next;
+};
+
+export const normalizeEmailKey = (email: string): string => email.trim().toLowerCase();
+
+// Keyed by email rather than account id so unknown emails are throttled the same way
+// and the lock can't be used to discover which emails are registered
+const failureKey = (scope: string, email: string) => `login-failures:${scope}:${normalizeEmailKey(email)}`;
+const lockKey = (scope: string, email: string) => `login-lock:${scope}:${normalizeEmailKey(email)}`;
+
+// Seconds until the account may log in again, 0 when not locked
+export const getAccountLockRemaining = async (scope: string, email: string): Promise<number> => {
+    const lock = await store.get(lockKey(scope, email));
+    return lock ? Math.max(1, Math.ceil((lock.resetAt.getTime() - Date.now()) / 1000)) : 0;
+};
+
+// Record a failed login. Returns the lock duration in seconds when this failure locked the account, else 0.
+export const recordLoginFailure = async (scope: string, email: string): Promise<number> => {
+    const failures = await store.increment(failureKey(scope, email), LOGIN_FAILURE_WINDOW_MINUTES * 60 * 1000);
+    if (failures.count < LOGIN_MAX_FAILURES) {
+        return 0;
+    }
+
+    await store.increment(lockKey(scope, email), LOGIN_LOCKOUT_MINUTES * 60 * 1000);
+    await store.reset(failureKey(scope, email));
+    return LOGIN_LOCKOUT_MINUTES * 60;
+};
+
+export const clearLoginFailures = async (scope: string, email: string): Promise<void> => {
+    await store.reset(failureKey(scope, email));
+};
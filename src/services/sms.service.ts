@@ -0,0 +1,107 @@
+import { OTP_TTL_MINUTES } from './otp.service';
+
+export type SmsChannel = 'sms' | 'whatsapp';
+
+export const SMS_CHANNELS: SmsChannel[] = ['sms', 'whatsapp'];
+
+// 'disabled' when no provider is configured, 'failed' when the provider rejected the message
+export type SmsDelivery = 'sent' | 'disabled' | 'failed';
+
+// A provider delivers one text message to an E.164 number and throws when it can't
+interface SmsProvider {
+    name: string;
+    send(to: string, body: string, channel: SmsChannel): Promise<void>;
+}
+
+// Twilio REST API; WhatsApp goes through the same endpoint with whatsapp: prefixed numbers
+const createTwilioProvider = (): SmsProvider | null => {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    if (!accountSid || !authToken) {
+        console.warn('⚠️  TWILIO_ACCOUNT_SID/TWILIO_AUTH_TOKEN not configured. SMS sending will be disabled.');
+        return null;
+    }
+
+    const url = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
+    const authorization = `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`;
+
+    return {
+        name: 'twilio',
+        send: async (to, body, channel) => {
+            const from = channel === 'whatsapp' ? process.env.TWILIO_WHATSAPP_FROM : process.env.TWILIO_SMS_FROM;
+            if (!from) {
+                throw new Error(`No Twilio sender configured for ${channel}`);
+            }
+
+            const prefix = channel === 'whatsapp' ? 'whatsapp:' : '';
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    Authorization: authorization,
+                    'Content-Type': 'application/x-www-form-urlencoded'
+                },
+                body: new URLSearchParams({ To: `${prefix}${to}`, From: `${prefix}${from}`, Body: body }).toString()
+            });
+            if (!response.ok) {
+                throw new Error(`Twilio responded ${response.status}: ${await response.text()}`);
+            }
+        }
+    };
+};
+
+// Local development stub: messages are printed instead of sent
+const createLocalProvider = (): SmsProvider => ({
+    name: 'local (console)',
+    send: async (to, body, channel) => {
+        console.log(`📱 [${channel}] To: ${to}\n${body}\n`);
+    }
+});
+
+// SMS_DRIVER picks the provider. Unset, the local stub is used outside production and sending
+// stays disabled in production until configured.
+const createProvider = (): SmsProvider | null => {
+    const driver = (process.env.SMS_DRIVER || '').toLowerCase();
+
+    switch (driver) {
+        case 'twilio':
+            return createTwilioProvider();
+        case 'local':
+            return createLocalProvider();
+        case 'none':
+            return null;
+        case '':
+            if (process.env.NODE_ENV !== 'production') {
+                return createLocalProvider();
+            }
+            console.warn('⚠️  SMS_DRIVER not configured. SMS sending will be disabled.');
+            return null;
+        default:
+            console.warn(`⚠️  Unknown SMS_DRIVER "${driver}". SMS sending will be disabled.`);
+            return null;
+    }
+};
+
+const provider = createProvider();
+if (provider) {
+    console.log(`✅ SMS provider initialized: ${provider.name}`);
+}
+
+export const isSmsEnabled = (): boolean => provider !== null;
+
+export const sendSms = async (to: string, body: string, channel: SmsChannel = 'sms'): Promise<SmsDelivery> => {
+    if (!provider) {
+        return 'disabled';
+    }
+
+    try {
+        await provider.send(to, body, channel);
+        console.log(`✅ ${channel === 'whatsapp' ? 'WhatsApp message' : 'SMS'} sent successfully to ${to}`);
+        return 'sent';
+    } catch (smsError: any) {
+        console.error('❌ SMS send error:', smsError);
+        return 'failed';
+    }
+};
+
+export const phoneCodeMessage = (code: string): string =>
+    `${code} is your ECare+ verification code. It expires in ${OTP_TTL_MINUTES} minutes. Do not share it with anyone.`;
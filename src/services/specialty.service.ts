@@ -0,0 +1,247 @@
+import { PrismaClient, Prisma, Specialty, Qualification, QualificationLevel } from '@prisma/client';
+import { FieldError } from './profileFields.service';
+
+const prisma = new PrismaClient();
+
+// The specialty and qualification catalogues. Doctors, the listing filter and admins all name
+// entries loosely ("Cardiologist", "M.B.B.S."), so every lookup goes through the same matching.
+
+// "  Heart   Specialist " -> "heart specialist"
+export const normalizeSpecialtyTerm = (term: string): string => term.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// "M.D. (Medicine)" -> "m d"
+export const normalizeQualificationTerm = (term: string): string =>
+    term.replace(/\([^)]*\)/g, ' ').replace(/\./g, ' ').trim().toLowerCase().replace(/\s+/g, ' ');
+
+// URL-friendly slug for a new specialty name: "Obstetrics & Gynaecology" -> "obstetrics-gynaecology"
+export const slugify = (name: string): string =>
+    name.normalize('NFKD').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const specialtyMatches = (specialty: Specialty, term: string): boolean => {
+    const key = normalizeSpecialtyTerm(term);
+    return specialty.id === term.trim()
+        || specialty.slug === key
+        || specialty.name.toLowerCase() === key
+        || specialty.synonyms.includes(key);
+};
+
+// Exact matches first; "MD Medicine" falls back to its first word
+const qualificationMatches = (qualification: Qualification, term: string, loose: boolean): boolean => {
+    const key = normalizeQualificationTerm(term);
+    const code = qualification.code.toLowerCase();
+    if (loose) {
+        return key.split(' ')[0] === code;
+    }
+    return qualification.id === term.trim()
+        || key === code
+        || key.replace(/ /g, '') === code
+        || qualification.name.toLowerCase() === key
+        || qualification.synonyms.includes(key);
+};
+
+const findSpecialty = (catalogue: Specialty[], term: string): Specialty | undefined =>
+    catalogue.find(specialty => specialtyMatches(specialty, term));
+
+const findQualification = (catalogue: Qualification[], term: string): Qualification | undefined =>
+    catalogue.find(qualification => qualificationMatches(qualification, term, false))
+    ?? catalogue.find(qualification => qualificationMatches(qualification, term, true));
+
+// Look up each term, keeping the order given and dropping duplicates. Unknown terms are an
+// error rather than free text, so the catalogue stays the single list of values.
+const resolveTerms = <T>(catalogue: T[], terms: string[], find: (catalogue: T[], term: string) => T | undefined) => {
+    const items: T[] = [];
+    const unknown: string[] = [];
+    for (const term of terms) {
+        const item = find(catalogue, term);
+        if (!item) {
+            unknown.push(term);
+        } else if (!items.includes(item)) {
+            items.push(item);
+        }
+    }
+    return { items, unknown };
+};
+
+export type CatalogueSelection = {
+    specialties?: Specialty[]; // First one is the primary specialty
+    qualifications?: Qualification[];
+};
+
+// Resolve the specialties and qualifications a doctor sent. Either list may be left out.
+export const resolveDoctorCatalogue = async (terms: { specialties?: string[]; qualifications?: string[] }):
+    Promise<{ selection: CatalogueSelection; error?: undefined } | { selection?: undefined; error: FieldError }> => {
+    const selection: CatalogueSelection = {};
+
+    if (terms.specialties) {
+        const { items, unknown } = resolveTerms(await prisma.specialty.findMany(), terms.specialties, findSpecialty);
+        if (unknown.length > 0) {
+            return { error: { message: `Unknown specialty: ${unknown.join(', ')}. See GET /specialties for the list`, code: 'UNKNOWN_SPECIALTY' } };
+        }
+        selection.specialties = items;
+    }
+
+    if (terms.qualifications) {
+        const { items, unknown } = resolveTerms(await prisma.qualification.findMany(), terms.qualifications, findQualification);
+        if (unknown.length > 0) {
+            return { error: { message: `Unknown qualification: ${unknown.join(', ')}. See GET /qualifications for the list`, code: 'UNKNOWN_QUALIFICATION' } };
+        }
+        selection.qualifications = items;
+    }
+
+    return { selection };
+};
+
+// A specialty and its sub-specialties, for filtering: doctors listed under Interventional
+// Cardiology also show up for Cardiology. Null when the term isn't in the catalogue.
+export const specialtyFilterIds = async (term: string): Promise<string[] | null> => {
+    const catalogue = await prisma.specialty.findMany();
+    const specialty = findSpecialty(catalogue, term);
+    if (!specialty) {
+        return null;
+    }
+    return catalogue.filter(entry => entry.id === specialty.id || entry.parentId === specialty.id).map(entry => entry.id);
+};
+
+const LEVEL_ORDER = Object.values(QualificationLevel);
+
+// The qualification shown as "latest": the highest level (MD over MBBS), then by code
+export const highestQualification = (qualifications: Qualification[]): Qualification | null =>
+    qualifications.reduce<Qualification | null>((highest, qualification) => {
+        if (!highest) {
+            return qualification;
+        }
+        const levelDifference = LEVEL_ORDER.indexOf(qualification.level) - LEVEL_ORDER.indexOf(highest.level);
+        return levelDifference > 0 || (levelDifference === 0 && qualification.code < highest.code) ? qualification : highest;
+    }, null);
+
+// Values mirrored into Doctor.specialty and Doctor.latestQualification for existing consumers
+export const catalogueColumns = (selection: CatalogueSelection) => ({
+    ...(selection.specialties ? { specialty: selection.specialties[0]?.name ?? null } : {}),
+    ...(selection.qualifications ? { latestQualification: highestQualification(selection.qualifications)?.code ?? null } : {})
+});
+
+// Nested writes replacing a doctor's specialties and qualifications with the selection
+export const catalogueRelationWrites = (selection: CatalogueSelection): Prisma.DoctorUpdateInput => ({
+    ...(selection.specialties ? {
+        specialties: {
+            deleteMany: {},
+            create: selection.specialties.map((specialty, index) => ({ specialtyId: specialty.id, isPrimary: index === 0 }))
+        }
+    } : {}),
+    ...(selection.qualifications ? {
+        qualifications: {
+            deleteMany: {},
+            create: selection.qualifications.map(qualification => ({ qualificationId: qualification.id }))
+        }
+    } : {})
+});
+
+// The selection as recorded in the profile audit trail: the primary specialty's name first,
+// the rest sorted so that only real changes show up in a diff
+const primaryFirst = (names: string[]) => [...names.slice(0, 1), ...names.slice(1).sort()];
+
+export const catalogueLabels = (selection: CatalogueSelection) => ({
+    ...(selection.specialties ? { specialties: primaryFirst(selection.specialties.map(specialty => specialty.name)) } : {}),
+    ...(selection.qualifications ? { qualifications: selection.qualifications.map(qualification => qualification.code).sort() } : {})
+});
+
+// Include this to read a doctor's current selection back with currentCatalogue
+export const DOCTOR_CATALOGUE_INCLUDE = {
+    specialties: {
+        include: { specialty: true },
+        orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }]
+    },
+    qualifications: { include: { qualification: true } }
+} satisfies Prisma.DoctorInclude;
+
+export const currentCatalogue = (doctor: {
+    specialties: { specialty: Specialty }[];
+    qualifications: { qualification: Qualification }[];
+}): Required<CatalogueSelection> => ({
+    specialties: doctor.specialties.map(entry => entry.specialty),
+    qualifications: doctor.qualifications.map(entry => entry.qualification)
+});
+
+// Specialties and qualifications for profile responses
+export const doctorCatalogueSelect = {
+    specialties: {
+        select: { isPrimary: true, specialty: { select: { id: true, slug: true, name: true, parentId: true } } },
+        orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }]
+    },
+    qualifications: {
+        select: { qualification: { select: { id: true, code: true, name: true, level: true } } },
+        orderBy: { qualification: { level: 'desc' } }
+    }
+} satisfies Prisma.DoctorSelect;
+
+type CatalogueFields = {
+    specialties: { isPrimary: boolean; specialty: { id: string; slug: string; name: string; parentId: string | null } }[];
+    qualifications: { qualification: { id: string; code: string; name: string; level: QualificationLevel } }[];
+};
+
+// Flatten the join rows selected with doctorCatalogueSelect
+export const withCatalogue = <T extends CatalogueFields>({ specialties, qualifications, ...profile }: T) => ({
+    ...profile,
+    specialties: specialties.map(({ isPrimary, specialty }) => ({ ...specialty, isPrimary })),
+    qualifications: qualifications.map(({ qualification }) => qualification)
+});
+
+// Top-level specialties with their sub-specialties, alphabetically
+export const getSpecialtyTree = async () => {
+    const specialties = await prisma.specialty.findMany({
+        select: { id: true, slug: true, name: true, synonyms: true, parentId: true },
+        orderBy: { name: 'asc' }
+    });
+    return specialties
+        .filter(specialty => !specialty.parentId)
+        .map(({ parentId, ...specialty }) => ({
+            ...specialty,
+            children: specialties
+                .filter(child => child.parentId === specialty.id)
+                .map(({ parentId: _parentId, ...child }) => child)
+        }));
+};
+
+// Another specialty already answering to one of these terms, which would make lookups ambiguous
+export const findConflictingSpecialty = async (terms: string[], exceptId?: string): Promise<{ term: string; specialty: Specialty } | null> => {
+    const catalogue = (await prisma.specialty.findMany()).filter(specialty => specialty.id !== exceptId);
+    for (const term of terms) {
+        const specialty = findSpecialty(catalogue, term);
+        if (specialty) {
+            return { term, specialty };
+        }
+    }
+    return null;
+};
+
+export const findConflictingQualification = async (terms: string[], exceptId?: string): Promise<{ term: string; qualification: Qualification } | null> => {
+    const catalogue = (await prisma.qualification.findMany()).filter(qualification => qualification.id !== exceptId);
+    for (const term of terms) {
+        const qualification = catalogue.find(entry => qualificationMatches(entry, term, false));
+        if (qualification) {
+            return { term, qualification };
+        }
+    }
+    return null;
+};
+
+// Re-derive Doctor.specialty for doctors whose primary specialty was renamed
+export const refreshPrimarySpecialtyName = (specialtyId: string, name: string) =>
+    prisma.doctor.updateMany({
+        where: { specialties: { some: { specialtyId, isPrimary: true } } },
+        data: { specialty: name }
+    });
+
+// Re-derive Doctor.latestQualification for holders of a qualification whose level changed
+export const refreshLatestQualifications = (qualificationId: string) => prisma.$executeRaw`
+    UPDATE "Doctor" d
+    SET "latestQualification" = latest."code"
+    FROM (
+        SELECT DISTINCT ON (dq."doctorId") dq."doctorId", q."code"
+        FROM "DoctorQualification" dq
+        JOIN "Qualification" q ON q."id" = dq."qualificationId"
+        WHERE dq."doctorId" IN (SELECT "doctorId" FROM "DoctorQualification" WHERE "qualificationId" = ${qualificationId})
+        ORDER BY dq."doctorId", q."level" DESC, q."code"
+    ) latest
+    WHERE latest."doctorId" = d."id"
+`;
@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import { promises as fs, createReadStream } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { Attachment } from '@prisma/client';
+
+const envNumber = (name: string, fallback: number): number => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const STORAGE_SIGNING_SECRET: string = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+// How long a download link works
+export const DOWNLOAD_URL_TTL_SECONDS = envNumber('DOWNLOAD_URL_TTL_SECONDS', 15 * 60);
+// Base of the links handed to clients, e.g. "https://api.ecareplus.com"; relative when unset
+const PUBLIC_API_URL = (process.env.PUBLIC_API_URL || '').replace(/\/$/, '');
+
+// A driver stores opaque keys and throws when it can't
+interface StorageDriver {
+    name: string;
+    put(key: string, data: Buffer, mimeType: string): Promise<void>;
+    read(key: string): Promise<Readable | null>; // null when the object is gone
+    remove(key: string): Promise<void>;
+}
+
+// Local disk under STORAGE_LOCAL_DIR, for development and single-server setups
+const createLocalDriver = (): StorageDriver => {
+    const root = path.resolve(process.env.STORAGE_LOCAL_DIR || 'uploads');
+    // Keys are generated by us, but never let one point outside the root
+    const resolve = (key: string) => {
+        const filePath = path.resolve(root, key);
+        if (!filePath.startsWith(root + path.sep)) {
+            throw new Error(`Invalid storage key "${key}"`);
+        }
+        return filePath;
+    };
+
+    return {
+        name: 'local',
+        put: async (key, data) => {
+            const filePath = resolve(key);
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.writeFile(filePath, data);
+        },
+        read: async key => {
+            const filePath = resolve(key);
+            try {
+                await fs.access(filePath);
+            } catch {
+                return null;
+            }
+            return createReadStream(filePath);
+        },
+        remove: async key => {
+            await fs.rm(resolve(key), { force: true });
+        }
+    };
+};
+
+// STORAGE_DRIVER picks the driver; only "local" exists so far
+const createDriver = (): StorageDriver => {
+    const driver = (process.env.STORAGE_DRIVER || 'local').toLowerCase();
+    if (driver !== 'local') {
+        console.warn(`⚠️  Unknown STORAGE_DRIVER "${driver}". Falling back to local storage.`);
+    }
+    return createLocalDriver();
+};
+
+const driver = createDriver();
+
+export const storageDriverName = (): string => driver.name;
+
+// Unguessable key grouped by owner, keeping the original extension for convenience
+export const newStorageKey = (prefix: string, fileName: string): string => {
+    const extension = path.extname(fileName).toLowerCase().replace(/[^a-z0-9.]/g, '').slice(0, 10);
+    return `${prefix}/${crypto.randomUUID()}${extension}`;
+};
+
+export const putObject = (key: string, data: Buffer, mimeType: string): Promise<void> => driver.put(key, data, mimeType);
+
+export const readObject = (key: string): Promise<Readable | null> => driver.read(key);
+
+export const removeObject = (key: string): Promise<void> => driver.remove(key);
+
+const sign = (attachmentId: string, expires: number): string =>
+    crypto.createHmac('sha256', STORAGE_SIGNING_SECRET).update(`${attachmentId}:${expires}`).digest('base64url');
+
+// Download link for an attachment that works without a login until it expires
+export const signedDownloadUrl = (attachmentId: string, ttlSeconds: number = DOWNLOAD_URL_TTL_SECONDS) => {
+    const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+    return {
+        url: `${PUBLIC_API_URL}/files/${attachmentId}?expires=${expires}&signature=${sign(attachmentId, expires)}`,
+        expiresAt: new Date(expires * 1000)
+    };
+};
+
+// Attachment as returned to clients, with a fresh download link
+export const presentAttachment = (attachment: Attachment) => {
+    const { url, expiresAt } = signedDownloadUrl(attachment.id);
+    return {
+        id: attachment.id,
+        kind: attachment.kind,
+        fileName: attachment.fileName,
+        mimeType: attachment.mimeType,
+        size: attachment.size,
+        createdAt: attachment.createdAt,
+        url,
+        urlExpiresAt: expiresAt
+    };
+};
+
+// 'expired' is reported separately so clients know to ask for a fresh link
+export const checkDownloadSignature = (attachmentId: string, expires: unknown, signature: unknown): 'valid' | 'invalid' | 'expired' => {
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || typeof signature !== 'string') {
+        return 'invalid';
+    }
+
+    const expected = Buffer.from(sign(attachmentId, expiresAt));
+    const given = Buffer.from(signature);
+    if (expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+        return 'invalid';
+    }
+
+    return expiresAt * 1000 < Date.now() ? 'expired' : 'valid';
+};
@@ -0,0 +1,204 @@
+import { Request } from 'express';
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import type { PrincipalType } from '../middleware/auth.middleware';
+
+const prisma = new PrismaClient();
+
+// JWT Secret (should be in .env)
+const JWT_SECRET: string = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+// Access tokens are short-lived; clients use the refresh token to get a new one
+const ACCESS_TOKEN_EXPIRES_IN: string = process.env.JWT_EXPIRES_IN || '15m';
+const REFRESH_TOKEN_TTL_DAYS: number = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30);
+// Time allowed between the password step and the two-factor step of a login
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
+const TWO_FACTOR_CHALLENGE_TYPE = 'two_factor_challenge';
+
+// Id claim per principal type, matching the payload shape clients already decode
+const ID_CLAIMS: Record<PrincipalType, string> = {
+    doctor: 'doctorId',
+    patient: 'patientId',
+    admin: 'adminId'
+};
+
+export type TokenSubject = {
+    type: PrincipalType;
+    id: string; // Profile id (doctorId/patientId) or adminId
+    email: string | null; // Null for phone-only accounts
+    userId?: string | null; // Account behind a doctor/patient profile
+};
+
+export type IssuedTokens = {
+    token: string; // Access token (JWT)
+    refreshToken: string;
+    refreshTokenExpiresAt: Date;
+};
+
+export type SessionMeta = { userAgent?: string | null; ipAddress?: string | null };
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const generateRefreshToken = (): string => crypto.randomBytes(48).toString('base64url');
+
+const signAccessToken = (subject: TokenSubject, sessionId: string): string => {
+    return jwt.sign(
+        { [ID_CLAIMS[subject.type]]: subject.id, email: subject.email, type: subject.type, userId: subject.userId ?? undefined, sid: sessionId },
+        JWT_SECRET,
+        { expiresIn: ACCESS_TOKEN_EXPIRES_IN } as jwt.SignOptions
+    );
+};
+
+// Client details stored on the session so users can recognise their devices
+export const sessionMetaFromRequest = (req: Request): SessionMeta => ({
+    userAgent: req.headers['user-agent']?.slice(0, 255) ?? null,
+    ipAddress: req.ip ?? null
+});
+
+// Start a new session and return an access token plus its refresh token
+export const issueTokens = async (subject: TokenSubject, meta: SessionMeta = {}): Promise<IssuedTokens> => {
+    const refreshToken = generateRefreshToken();
+    const refreshTokenExpiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    const session = await prisma.authSession.create({
+        data: {
+            principalType: subject.type,
+            principalId: subject.id,
+            userId: subject.userId ?? null,
+            email: subject.email,
+            refreshTokenHash: hashToken(refreshToken),
+            expiresAt: refreshTokenExpiresAt,
+            userAgent: meta.userAgent ?? null,
+            ipAddress: meta.ipAddress ?? null
+        }
+    });
+
+    return {
+        token: signAccessToken(subject, session.id),
+        refreshToken,
+        refreshTokenExpiresAt
+    };
+};
+
+// Exchange a refresh token for a new access/refresh pair. The presented token is rotated out;
+// presenting an already-rotated token means it was copied, so the whole session is revoked.
+export const refreshSession = async (
+    refreshToken: string
+): Promise<{ tokens: IssuedTokens; subject: TokenSubject } | { error: 'INVALID_REFRESH_TOKEN' | 'REFRESH_TOKEN_REUSED' }> => {
+    const tokenHash = hashToken(refreshToken);
+
+    const session = await prisma.authSession.findUnique({ where: { refreshTokenHash: tokenHash } });
+    if (!session) {
+        const reused = await prisma.authSession.findUnique({ where: { previousRefreshTokenHash: tokenHash } });
+        if (reused) {
+            await revokeSession(reused.id);
+            return { error: 'REFRESH_TOKEN_REUSED' };
+        }
+        return { error: 'INVALID_REFRESH_TOKEN' };
+    }
+
+    if (session.revokedAt || session.expiresAt <= new Date()) {
+        return { error: 'INVALID_REFRESH_TOKEN' };
+    }
+
+    const nextRefreshToken = generateRefreshToken();
+    const refreshTokenExpiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    // Conditional on the current hash so two concurrent refreshes can't both rotate
+    const rotated = await prisma.authSession.updateMany({
+        where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+        data: {
+            refreshTokenHash: hashToken(nextRefreshToken),
+            previousRefreshTokenHash: tokenHash,
+            expiresAt: refreshTokenExpiresAt,
+            lastUsedAt: new Date()
+        }
+    });
+    if (rotated.count === 0) {
+        return { error: 'INVALID_REFRESH_TOKEN' };
+    }
+
+    const subject: TokenSubject = {
+        type: session.principalType as PrincipalType,
+        id: session.principalId,
+        email: session.email,
+        userId: session.userId
+    };
+
+    return {
+        subject,
+        tokens: {
+            token: signAccessToken(subject, session.id),
+            refreshToken: nextRefreshToken,
+            refreshTokenExpiresAt
+        }
+    };
+};
+
+// Short-lived token proving the first login factor passed. Its type is not a principal type,
+// so authenticate rejects it; it can only be exchanged at the two-factor step.
+export const issueTwoFactorChallenge = (subject: TokenSubject): string => {
+    return jwt.sign(
+        { sub: subject.id, email: subject.email, principalType: subject.type, userId: subject.userId ?? undefined, type: TWO_FACTOR_CHALLENGE_TYPE },
+        JWT_SECRET,
+        { expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN } as jwt.SignOptions
+    );
+};
+
+export const verifyTwoFactorChallenge = (challengeToken: string): TokenSubject | null => {
+    try {
+        const decoded = jwt.verify(challengeToken, JWT_SECRET) as { sub?: string; email?: string; principalType?: PrincipalType; userId?: string; type?: string };
+        if (decoded.type !== TWO_FACTOR_CHALLENGE_TYPE || !decoded.sub || !decoded.principalType) {
+            return null;
+        }
+        return { type: decoded.principalType, id: decoded.sub, email: decoded.email ?? null, userId: decoded.userId ?? null };
+    } catch (error) {
+        return null;
+    }
+};
+
+export const isSessionActive = async (sessionId: string): Promise<boolean> => {
+    const session = await prisma.authSession.findUnique({
+        where: { id: sessionId },
+        select: { revokedAt: true, expiresAt: true }
+    });
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
+};
+
+export const findSessionByRefreshToken = async (refreshToken: string) => {
+    return prisma.authSession.findUnique({ where: { refreshTokenHash: hashToken(refreshToken) } });
+};
+
+export const revokeSession = async (sessionId: string): Promise<void> => {
+    await prisma.authSession.updateMany({
+        where: { id: sessionId, revokedAt: null },
+        data: { revokedAt: new Date() }
+    });
+};
+
+// Log out everywhere: revoke every active session of an account, optionally keeping the current one
+export const revokeAllSessions = async (type: PrincipalType, id: string, exceptSessionId?: string): Promise<number> => {
+    const result = await prisma.authSession.updateMany({
+        where: {
+            principalType: type,
+            principalId: id,
+            revokedAt: null,
+            ...(exceptSessionId ? { id: { not: exceptSessionId } } : {})
+        },
+        data: { revokedAt: new Date() }
+    });
+    return result.count;
+};
+
+// Revoke the sessions of every role of an account (password reset/change), optionally keeping the current one
+export const revokeAllUserSessions = async (userId: string, exceptSessionId?: string): Promise<number> => {
+    const result = await prisma.authSession.updateMany({
+        where: {
+            userId,
+            revokedAt: null,
+            ...(exceptSessionId ? { id: { not: exceptSessionId } } : {})
+        },
+        data: { revokedAt: new Date() }
+    });
+    return result.count;
+};
@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+
+// RFC 6238 time-based codes as used by Google Authenticator, Authy, 1Password etc.
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept the previous and next step too, to tolerate clock drift on the phone
+const TOTP_DRIFT_STEPS = 1;
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'ECare+';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Secrets are encrypted at rest; the key is derived so any string works as configuration
+const ENCRYPTION_KEY = crypto.createHash('sha256')
+    .update(process.env.TOTP_ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-secret-key-change-in-production')
+    .digest();
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+    const clean = input.replace(/=+$/, '').toUpperCase();
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            continue;
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+};
+
+// 160-bit secret, base32 encoded as authenticator apps expect
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+export const buildOtpauthUri = (secret: string, accountName: string): string => {
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: TOTP_ISSUER,
+        algorithm: 'SHA1',
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_STEP_SECONDS)
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+const codeForStep = (key: Buffer, step: number): string => {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+    const hmac = crypto.createHmac('sha1', key).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+};
+
+// Check a code against the secret. Returns the matching time step so callers can reject
+// a code that was already used (anything at or before lastUsedStep), or null when invalid.
+export const verifyTotp = (secret: string, code: string, lastUsedStep: number | null = null): number | null => {
+    if (!/^\d{6}$/.test(code)) {
+        return null;
+    }
+
+    const key = base32Decode(secret);
+    const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+    for (let step = currentStep - TOTP_DRIFT_STEPS; step <= currentStep + TOTP_DRIFT_STEPS; step++) {
+        if (lastUsedStep !== null && step <= lastUsedStep) {
+            continue;
+        }
+        const expected = Buffer.from(codeForStep(key, step));
+        if (crypto.timingSafeEqual(expected, Buffer.from(code))) {
+            return step;
+        }
+    }
+    return null;
+};
+
+// AES-256-GCM, stored as iv.tag.ciphertext (base64)
+export const encryptTotpSecret = (secret: string): string => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+    const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join('.');
+};
+
+export const decryptTotpSecret = (stored: string): string => {
+    const [iv, tag, ciphertext] = stored.split('.').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
+
+// Recovery codes look like "a1b2c-3d4e5"; only their hashes are stored
+export const normalizeRecoveryCode = (code: string): string => code.trim().toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const hashRecoveryCode = (code: string): string =>
+    crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+export const generateRecoveryCodes = (): { codes: string[]; hashes: string[] } => {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const raw = crypto.randomBytes(5).toString('hex');
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+    return { codes, hashes: codes.map(hashRecoveryCode) };
+};
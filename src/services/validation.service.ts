@@ -0,0 +1,69 @@
+// Input validators shared by the doctor, patient and account flows
+
+export const validateEmail = (email: string): boolean => {
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    return emailRegex.test(email);
+};
+
+export const validatePassword = (password: string): { valid: boolean; error?: string } => {
+    if (password.length < 8) {
+        return { valid: false, error: 'Password must be at least 8 characters long' };
+    }
+    if (!/[A-Z]/.test(password)) {
+        return { valid: false, error: 'Password must contain at least one uppercase letter' };
+    }
+    if (!/[a-z]/.test(password)) {
+        return { valid: false, error: 'Password must contain at least one lowercase letter' };
+    }
+    if (!/[0-9]/.test(password)) {
+        return { valid: false, error: 'Password must contain at least one number' };
+    }
+    return { valid: true };
+};
+
+export const validatePhoneNumber = (phone: string): boolean => {
+    const phoneRegex = /^[+]?[(]?[0-9]{1,4}[)]?[-\s.]?[(]?[0-9]{1,4}[)]?[-\s.]?[0-9]{1,9}$/;
+    return phoneRegex.test(phone.replace(/\s/g, ''));
+};
+
+// Medical registration numbers: letters, digits and the separators councils print them with,
+// e.g. "MCI-12345", "DMC/R/04567"
+export const validateRegistrationNumber = (registrationNumber: string): boolean =>
+    /^[A-Za-z0-9][A-Za-z0-9/.\- ]{2,29}$/.test(registrationNumber);
+
+// Leading bytes of the file types we accept for uploads
+const FILE_SIGNATURES: Record<string, (data: Buffer) => boolean> = {
+    'application/pdf': data => data.subarray(0, 5).toString('latin1') === '%PDF-',
+    'image/jpeg': data => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff,
+    'image/png': data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+    'image/webp': data => data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP'
+};
+
+// True when the content really is the declared type, so a renamed executable or HTML page
+// can't be stored as a "PDF"
+export const matchesFileSignature = (data: Buffer, mimeType: string): boolean =>
+    FILE_SIGNATURES[mimeType]?.(data) ?? false;
+
+// Emailed verification and reset codes. A JSON number isn't a code: the regex would
+// accept 123456, but hashing it later would throw.
+export const validateOtpFormat = (otp: unknown): otp is string => typeof otp === 'string' && /^\d{6}$/.test(otp);
+
+// Country code assumed for numbers entered without one (most users are in India)
+const DEFAULT_PHONE_COUNTRY_CODE = (process.env.DEFAULT_PHONE_COUNTRY_CODE || '91').replace(/\D/g, '');
+
+// Normalise a phone number to E.164 (+<country code><number>) so the same number always
+// matches, however it was typed. Returns null when it can't be a valid number.
+export const normalizePhoneNumber = (phone: string): string | null => {
+    let digits = phone.trim().replace(/[\s\-().]/g, '');
+
+    if (digits.startsWith('+')) {
+        digits = digits.slice(1);
+    } else if (digits.startsWith('00')) {
+        digits = digits.slice(2);
+    } else {
+        // National format, optionally with a trunk prefix 0
+        digits = DEFAULT_PHONE_COUNTRY_CODE + digits.replace(/^0/, '');
+    }
+
+    return /^[1-9]\d{7,14}$/.test(digits) ? `+${digits}` : null;
+};
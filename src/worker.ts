@@ -0,0 +1,17 @@
+// Background job worker. Runs queued emails, SMS, notifications and profile-view writes.
+// Usage: npm run worker (or npm run dev:worker). Any number of workers can run side by side.
+import 'dotenv/config'; // Loaded first: the mail and SMS drivers read their settings on import
+import { startWorker } from './services/jobQueue.service';
+import { jobHandlers } from './services/jobHandlers.service';
+
+const worker = startWorker(jobHandlers);
+
+// Finish the batch in progress before exiting so no job is left RUNNING until its lock expires
+const shutdown = async (signal: string) => {
+    console.log(`${signal} received, stopping job worker ${worker.workerId}`);
+    await worker.stop();
+    process.exit(0);
+};
+
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+process.on('SIGINT', () => void shutdown('SIGINT'));